@@ -0,0 +1,169 @@
+import {
+  StorageAdapter,
+  UserData,
+  UserPage,
+  SignupCountQuery,
+  AssessmentRecord,
+  AssessmentQuery,
+  AccessListEntry,
+  OutcomeRecord,
+  ChallengeRecord,
+  ChallengeStatus
+} from '../types';
+import { matchesSignupQuery } from '../utils/signups';
+import { isSameTenant } from '../utils/tenant';
+import { isSameIP } from '../utils/ip';
+
+interface TenantData {
+  emails: string[];
+  userData: Map<string, UserData[]>;
+}
+
+/**
+ * Default in-memory storage adapter for basic usage. Data is lost when the
+ * process exits.
+ */
+export class InMemoryStorageAdapter implements StorageAdapter {
+  private tenants: Map<string, TenantData> = new Map();
+  private assessments: AssessmentRecord[] = [];
+  private accessListEntries: Map<string, AccessListEntry> = new Map();
+  private outcomes: OutcomeRecord[] = [];
+  private challenges: Map<string, ChallengeRecord> = new Map();
+
+  async getExistingEmails(tenantId?: string): Promise<string[]> {
+    return [...this.getTenant(tenantId).emails];
+  }
+
+  async getExistingIPs(email: string, tenantId?: string): Promise<string[]> {
+    const data = this.getTenant(tenantId).userData.get(email) || [];
+    return data.map(d => d.ipAddress);
+  }
+
+  async storeUserData(data: UserData): Promise<void> {
+    const tenant = this.getTenant(data.tenantId);
+    if (!tenant.emails.includes(data.email)) {
+      tenant.emails.push(data.email);
+    }
+
+    const existing = tenant.userData.get(data.email) || [];
+    existing.push(data);
+    tenant.userData.set(data.email, existing);
+  }
+
+  async countSignups(query: SignupCountQuery): Promise<number> {
+    const emails = new Set<string>();
+
+    for (const records of this.getTenant(query.tenantId).userData.values()) {
+      for (const data of records) {
+        if (matchesSignupQuery(data, query)) {
+          emails.add(data.email.toLowerCase());
+        }
+      }
+    }
+
+    return emails.size;
+  }
+
+  async listUsers(cursor: string | undefined, limit: number, tenantId?: string): Promise<UserPage> {
+    // The cursor is the number of emails already returned; emails are only appended
+    const tenant = this.getTenant(tenantId);
+    const start = cursor ? parseInt(cursor, 10) : 0;
+    const emails = tenant.emails.slice(start, start + limit);
+    const end = start + emails.length;
+
+    return {
+      users: emails.map(email => {
+        const data = tenant.userData.get(email) || [];
+        return data[data.length - 1];
+      }),
+      nextCursor: end < tenant.emails.length ? String(end) : undefined
+    };
+  }
+
+  async storeAssessment(record: AssessmentRecord): Promise<void> {
+    this.assessments.push(record);
+  }
+
+  async queryAssessments(query: AssessmentQuery): Promise<AssessmentRecord[]> {
+    // Reversed first so that the stable sort keeps records stored in the
+    // same millisecond newest first
+    return [...this.assessments]
+      .reverse()
+      .filter(record =>
+        isSameTenant(record.tenantId, query.tenantId) &&
+        (query.email === undefined || record.email === query.email) &&
+        (query.ipAddress === undefined || isSameIP(record.ipAddress, query.ipAddress)) &&
+        (query.from === undefined || record.assessedAt >= query.from) &&
+        (query.to === undefined || record.assessedAt <= query.to)
+      )
+      .sort((a, b) => b.assessedAt.getTime() - a.assessedAt.getTime())
+      .slice(0, query.limit ?? 100);
+  }
+
+  async getAccessListEntries(): Promise<AccessListEntry[]> {
+    return Array.from(this.accessListEntries.values());
+  }
+
+  async storeAccessListEntries(entries: AccessListEntry[]): Promise<void> {
+    entries.forEach(entry => this.accessListEntries.set(this.accessListKey(entry), { ...entry }));
+  }
+
+  async removeAccessListEntries(entries: AccessListEntry[]): Promise<void> {
+    entries.forEach(entry => this.accessListEntries.delete(this.accessListKey(entry)));
+  }
+
+  async storeOutcome(record: OutcomeRecord): Promise<void> {
+    this.outcomes.push(record);
+  }
+
+  async getOutcomes(tenantId?: string): Promise<OutcomeRecord[]> {
+    return this.outcomes.filter(record => isSameTenant(record.tenantId, tenantId));
+  }
+
+  async storeChallenge(record: ChallengeRecord): Promise<void> {
+    this.challenges.set(record.id, { ...record });
+  }
+
+  async getChallenge(id: string): Promise<ChallengeRecord | null> {
+    const record = this.challenges.get(id);
+    return record ? { ...record } : null;
+  }
+
+  async getChallenges(email: string, tenantId?: string): Promise<ChallengeRecord[]> {
+    // Reversed first so that challenges created in the same millisecond stay newest first
+    return Array.from(this.challenges.values())
+      .reverse()
+      .filter(record => record.email === email && isSameTenant(record.tenantId, tenantId))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .map(record => ({ ...record }));
+  }
+
+  async completeChallenge(
+    id: string,
+    status: Exclude<ChallengeStatus, 'pending'>,
+    completedAt: Date
+  ): Promise<ChallengeRecord | null> {
+    const record = this.challenges.get(id);
+    if (!record || record.status !== 'pending') {
+      return null;
+    }
+
+    const completed = { ...record, status, completedAt };
+    this.challenges.set(id, completed);
+    return { ...completed };
+  }
+
+  private accessListKey(entry: AccessListEntry): string {
+    return `${entry.tenantId || ''}:${entry.list}:${entry.type}:${entry.value}`;
+  }
+
+  private getTenant(tenantId?: string): TenantData {
+    const key = tenantId || '';
+    let tenant = this.tenants.get(key);
+    if (!tenant) {
+      tenant = { emails: [], userData: new Map() };
+      this.tenants.set(key, tenant);
+    }
+    return tenant;
+  }
+}
@@ -1,56 +1,137 @@
-import { StorageAdapter, UserData } from '../types';
+import {
+  StorageAdapter,
+  UserData,
+  UserPage,
+  SignupCountQuery,
+  CleanupOptions,
+  AssessmentRecord,
+  AssessmentQuery,
+  AccessListEntry,
+  OutcomeRecord,
+  ChallengeRecord,
+  ChallengeStatus
+} from '../types';
+import { ConfigValidationError } from '../core/errors';
+import { checkOptions, checks } from '../core/validation';
+import { getEmailDomain } from '../utils/email';
+import { getCidrKeyRange, getIPKey } from '../utils/ip';
 
 export interface MongoConfig {
   connectionString: string;
   databaseName: string;
   collectionName?: string;
+  /** Collection for the assessment audit log */
+  assessmentCollectionName?: string;
+  /** Collection for allowlist/denylist entries */
+  accessListCollectionName?: string;
+  /** Collection for outcome labels */
+  outcomeCollectionName?: string;
+  /** Collection for challenges */
+  challengeCollectionName?: string;
 }
 
+// Challenges are stored with their id as _id
+type ChallengeDocument = Omit<ChallengeRecord, 'id'> & { _id: string };
+
 export class MongoStorageAdapter implements StorageAdapter {
   private config: MongoConfig;
+  private client: any;
   private db: any;
   private collection: any;
+  private assessments: any;
+  private accessLists: any;
+  private outcomes: any;
+  private challenges: any;
+  private connection: Promise<void> | null = null;
 
   constructor(config: MongoConfig) {
+    const errors = checkOptions(config, {
+      connectionString: checks.nonEmptyString,
+      databaseName: checks.nonEmptyString,
+      collectionName: checks.nonEmptyString,
+      assessmentCollectionName: checks.nonEmptyString,
+      accessListCollectionName: checks.nonEmptyString,
+      outcomeCollectionName: checks.nonEmptyString,
+      challengeCollectionName: checks.nonEmptyString
+    }, '', ['connectionString', 'databaseName']);
+    if (errors.length > 0) {
+      throw new ConfigValidationError(errors, 'MongoDB storage');
+    }
+
     this.config = {
       collectionName: 'trial_abuse_users',
+      assessmentCollectionName: 'trial_abuse_assessments',
+      accessListCollectionName: 'trial_abuse_access_lists',
+      outcomeCollectionName: 'trial_abuse_outcomes',
+      challengeCollectionName: 'trial_abuse_challenges',
       ...config
     };
   }
 
+  /**
+   * Connect and create the indexes if needed. Calling it again while connected does nothing.
+   */
   async connect(): Promise<void> {
+    if (!this.connection) {
+      this.connection = this.open().catch(error => {
+        this.connection = null;
+        throw error;
+      });
+    }
+    return this.connection;
+  }
+
+  private async open(): Promise<void> {
     try {
       const { MongoClient } = require('mongodb');
-      const client = new MongoClient(this.config.connectionString);
-      await client.connect();
-      this.db = client.db(this.config.databaseName);
+      this.client = new MongoClient(this.config.connectionString);
+      await this.client.connect();
+      this.db = this.client.db(this.config.databaseName);
       this.collection = this.db.collection(this.config.collectionName);
       
       // Create indexes for performance
+      await this.collection.createIndex({ tenantId: 1, email: 1 });
       await this.collection.createIndex({ email: 1 });
       await this.collection.createIndex({ ipAddress: 1 });
       await this.collection.createIndex({ timestamp: 1 });
+      await this.collection.createIndex({ tenantId: 1, ipKey: 1, timestamp: 1 });
+      await this.collection.createIndex({ tenantId: 1, emailDomain: 1, timestamp: 1 });
+      await this.backfillSignupKeys();
+
+      this.assessments = this.db.collection(this.config.assessmentCollectionName);
+      await this.assessments.createIndex({ email: 1, assessedAt: -1 });
+      await this.assessments.createIndex({ ipAddress: 1, assessedAt: -1 });
+      await this.assessments.createIndex({ assessedAt: -1 });
+
+      this.accessLists = this.db.collection(this.config.accessListCollectionName);
+      await this.accessLists.createIndex({ tenantId: 1, list: 1, type: 1, value: 1 }, { unique: true });
+
+      this.outcomes = this.db.collection(this.config.outcomeCollectionName);
+      await this.outcomes.createIndex({ tenantId: 1, reportedAt: 1 });
+
+      this.challenges = this.db.collection(this.config.challengeCollectionName);
+      await this.challenges.createIndex({ tenantId: 1, email: 1, createdAt: -1 });
     } catch (error) {
       throw new Error(`Failed to connect to MongoDB: ${error}`);
     }
   }
 
-  async getExistingEmails(): Promise<string[]> {
+  async getExistingEmails(tenantId?: string): Promise<string[]> {
     if (!this.collection) {
       throw new Error('Not connected to database');
     }
 
-    const users = await this.collection.distinct('email');
+    const users = await this.collection.distinct('email', this.tenantFilter(tenantId));
     return users;
   }
 
-  async getExistingIPs(email: string): Promise<string[]> {
+  async getExistingIPs(email: string, tenantId?: string): Promise<string[]> {
     if (!this.collection) {
       throw new Error('Not connected to database');
     }
 
     const users = await this.collection.find(
-      { email },
+      { email, ...this.tenantFilter(tenantId) },
       { projection: { ipAddress: 1 } }
     ).toArray();
 
@@ -62,19 +143,285 @@ export class MongoStorageAdapter implements StorageAdapter {
       throw new Error('Not connected to database');
     }
 
+    const { tenantId, ...rest } = data;
     await this.collection.insertOne({
-      ...data,
+      ...rest,
+      ...(tenantId && { tenantId }),
+      ...this.signupKeys(data),
       createdAt: new Date()
     });
   }
 
-  async getUserHistory(email: string, limit: number = 10): Promise<UserData[]> {
+  async countSignups(query: SignupCountQuery): Promise<number> {
+    if (!this.collection) {
+      throw new Error('Not connected to database');
+    }
+
+    const filter: Record<string, unknown> = {
+      ...this.tenantFilter(query.tenantId),
+      timestamp: { $gte: query.since, $lte: query.until }
+    };
+    if (query.ipAddress !== undefined) Object.assign(filter, this.ipFilter(query.ipAddress));
+    if (query.cidr !== undefined) {
+      // An unparseable range matches nothing, as in the other adapters
+      const range = getCidrKeyRange(query.cidr);
+      filter.ipKey = range ? { $gte: range.first, $lte: range.last } : { $in: [] };
+    }
+    if (query.userAgent !== undefined) filter.userAgent = query.userAgent;
+    if (query.emailDomain !== undefined) filter.emailDomain = query.emailDomain.toLowerCase();
+
+    const excluded = new Set(
+      [query.excludeEmail, ...(query.excludeEmails || [])]
+        .filter((email): email is string => email !== undefined)
+        .map(email => email.toLowerCase())
+    );
+    const emails: string[] = await this.collection.distinct('email', filter);
+    return new Set(emails.map(email => email.toLowerCase()).filter(email => !excluded.has(email))).size;
+  }
+
+  async listUsers(cursor: string | undefined, limit: number, tenantId?: string): Promise<UserPage> {
+    if (!this.collection) {
+      throw new Error('Not connected to database');
+    }
+
+    // Keyset pagination on email; the cursor is the last email of the previous page
+    const docs = await this.collection.aggregate([
+      { $match: { ...this.tenantFilter(tenantId), ...(cursor !== undefined && { email: { $gt: cursor } }) } },
+      { $sort: { email: 1, timestamp: -1 } },
+      { $group: { _id: '$email', latest: { $first: '$$ROOT' } } },
+      { $sort: { _id: 1 } },
+      { $limit: limit }
+    ]).toArray();
+
+    const users: UserData[] = docs.map(({ latest }: any) => ({
+      email: latest.email,
+      ipAddress: latest.ipAddress,
+      userAgent: latest.userAgent,
+      timestamp: latest.timestamp,
+      tenantId: latest.tenantId || undefined
+    }));
+
+    return {
+      users,
+      nextCursor: users.length === limit ? users[users.length - 1].email : undefined
+    };
+  }
+
+  async storeAssessment(record: AssessmentRecord): Promise<void> {
+    if (!this.assessments) {
+      throw new Error('Not connected to database');
+    }
+
+    const { tenantId, ...rest } = record;
+    await this.assessments.insertOne({ ...rest, ...(tenantId && { tenantId }) });
+  }
+
+  async queryAssessments(query: AssessmentQuery): Promise<AssessmentRecord[]> {
+    if (!this.assessments) {
+      throw new Error('Not connected to database');
+    }
+
+    const filter: Record<string, unknown> = this.tenantFilter(query.tenantId);
+    if (query.email !== undefined) filter.email = query.email;
+    if (query.ipAddress !== undefined) filter.ipAddress = query.ipAddress;
+    if (query.from !== undefined || query.to !== undefined) {
+      filter.assessedAt = {
+        ...(query.from !== undefined && { $gte: query.from }),
+        ...(query.to !== undefined && { $lte: query.to })
+      };
+    }
+
+    const records = await this.assessments.find(
+      filter,
+      {
+        // ObjectIds increase with insertion, ordering records stored in the same millisecond
+        sort: { assessedAt: -1, _id: -1 },
+        limit: query.limit ?? 100
+      }
+    ).toArray();
+
+    return records.map((doc: any) => ({
+      email: doc.email,
+      ipAddress: doc.ipAddress,
+      userAgent: doc.userAgent,
+      tenantId: doc.tenantId || undefined,
+      assessedAt: doc.assessedAt,
+      result: doc.result,
+      configVersion: doc.configVersion,
+      weights: doc.weights
+    }));
+  }
+
+  async getAccessListEntries(): Promise<AccessListEntry[]> {
+    if (!this.accessLists) {
+      throw new Error('Not connected to database');
+    }
+
+    const entries = await this.accessLists.find({}).toArray();
+    return entries.map((doc: any) => ({
+      list: doc.list,
+      type: doc.type,
+      value: doc.value,
+      ...(doc.tenantId && { tenantId: doc.tenantId })
+    }));
+  }
+
+  async storeAccessListEntries(entries: AccessListEntry[]): Promise<void> {
+    if (!this.accessLists) {
+      throw new Error('Not connected to database');
+    }
+
+    for (const entry of entries) {
+      const { list, type, value } = entry;
+      const tenant = entry.tenantId ? { tenantId: entry.tenantId } : {};
+      await this.accessLists.updateOne(
+        { list, type, value, ...this.tenantFilter(entry.tenantId) },
+        { $setOnInsert: { list, type, value, ...tenant, createdAt: new Date() } },
+        { upsert: true }
+      );
+    }
+  }
+
+  async removeAccessListEntries(entries: AccessListEntry[]): Promise<void> {
+    if (!this.accessLists) {
+      throw new Error('Not connected to database');
+    }
+
+    for (const entry of entries) {
+      await this.accessLists.deleteOne({
+        list: entry.list,
+        type: entry.type,
+        value: entry.value,
+        ...this.tenantFilter(entry.tenantId)
+      });
+    }
+  }
+
+  async storeOutcome(record: OutcomeRecord): Promise<void> {
+    if (!this.outcomes) {
+      throw new Error('Not connected to database');
+    }
+
+    await this.outcomes.insertOne({ ...record });
+  }
+
+  async getOutcomes(tenantId?: string): Promise<OutcomeRecord[]> {
+    if (!this.outcomes) {
+      throw new Error('Not connected to database');
+    }
+
+    const records = await this.outcomes.find(this.tenantFilter(tenantId), { sort: { reportedAt: 1 } }).toArray();
+    return records.map((doc: any) => ({
+      email: doc.email,
+      label: doc.label,
+      reportedAt: doc.reportedAt,
+      ...(doc.tenantId && { tenantId: doc.tenantId }),
+      ...(doc.note !== undefined && { note: doc.note })
+    }));
+  }
+
+  async storeChallenge(record: ChallengeRecord): Promise<void> {
+    if (!this.challenges) {
+      throw new Error('Not connected to database');
+    }
+
+    const { id, ...fields } = record;
+    await this.challenges.replaceOne({ _id: id }, fields, { upsert: true });
+  }
+
+  async getChallenge(id: string): Promise<ChallengeRecord | null> {
+    if (!this.challenges) {
+      throw new Error('Not connected to database');
+    }
+
+    const doc = await this.challenges.findOne({ _id: id });
+    return doc ? this.toChallengeRecord(doc) : null;
+  }
+
+  async getChallenges(email: string, tenantId?: string): Promise<ChallengeRecord[]> {
+    if (!this.challenges) {
+      throw new Error('Not connected to database');
+    }
+
+    const docs = await this.challenges.find({ email, ...this.tenantFilter(tenantId) }, { sort: { createdAt: -1 } }).toArray();
+    return docs.map((doc: ChallengeDocument) => this.toChallengeRecord(doc));
+  }
+
+  async completeChallenge(
+    id: string,
+    status: Exclude<ChallengeStatus, 'pending'>,
+    completedAt: Date
+  ): Promise<ChallengeRecord | null> {
+    if (!this.challenges) {
+      throw new Error('Not connected to database');
+    }
+
+    // With includeResultMetadata every driver version returns { value }
+    const result = await this.challenges.findOneAndUpdate(
+      { _id: id, status: 'pending' },
+      { $set: { status, completedAt } },
+      { returnDocument: 'after', includeResultMetadata: true }
+    );
+    return result.value ? this.toChallengeRecord(result.value) : null;
+  }
+
+  private toChallengeRecord(doc: ChallengeDocument): ChallengeRecord {
+    return {
+      id: doc._id,
+      type: doc.type,
+      status: doc.status,
+      email: doc.email,
+      ipAddress: doc.ipAddress,
+      ...(doc.userAgent !== undefined && { userAgent: doc.userAgent }),
+      ...(doc.tenantId && { tenantId: doc.tenantId }),
+      createdAt: doc.createdAt,
+      ...(doc.completedAt !== undefined && { completedAt: doc.completedAt })
+    };
+  }
+
+  // Fields stored for the indexed signup counts. ipKey is null for an
+  // unparseable address, so that the backfill doesn't revisit the document.
+  private signupKeys(data: Pick<UserData, 'email' | 'ipAddress'>): { ipKey: string | null; emailDomain: string } {
+    return { ipKey: getIPKey(data.ipAddress) ?? null, emailDomain: getEmailDomain(data.email) };
+  }
+
+  /**
+   * Add ipKey and emailDomain to signups stored before they existed, so that
+   * their IP history and signup counts keep working
+   */
+  private async backfillSignupKeys(): Promise<void> {
+    const cursor = this.collection.find({ ipKey: { $exists: false } }, { projection: { email: 1, ipAddress: 1 } });
+    let updates: unknown[] = [];
+    for await (const doc of cursor) {
+      updates.push({ updateOne: { filter: { _id: doc._id }, update: { $set: this.signupKeys(doc) } } });
+      if (updates.length >= 1000) {
+        await this.collection.bulkWrite(updates);
+        updates = [];
+      }
+    }
+    if (updates.length > 0) {
+      await this.collection.bulkWrite(updates);
+    }
+  }
+
+  // Addresses are matched on their key, so that formatting differences don't matter
+  private ipFilter(ipAddress: string): Record<string, unknown> {
+    const ipKey = getIPKey(ipAddress);
+    return ipKey ? { ipKey } : { ipAddress };
+  }
+
+  // Documents of the default tenant have no tenantId field; null matches a missing field
+  private tenantFilter(tenantId?: string): Record<string, unknown> {
+    return { tenantId: tenantId || null };
+  }
+
+  async getUserHistory(email: string, limit: number = 10, tenantId?: string): Promise<UserData[]> {
     if (!this.collection) {
       throw new Error('Not connected to database');
     }
 
     const history = await this.collection.find(
-      { email },
+      { email, ...this.tenantFilter(tenantId) },
       { 
         sort: { timestamp: -1 },
         limit 
@@ -85,17 +432,18 @@ export class MongoStorageAdapter implements StorageAdapter {
       email: doc.email,
       ipAddress: doc.ipAddress,
       userAgent: doc.userAgent,
-      timestamp: doc.timestamp
+      timestamp: doc.timestamp,
+      tenantId: doc.tenantId || undefined
     }));
   }
 
-  async getIPHistory(ipAddress: string, limit: number = 10): Promise<UserData[]> {
+  async getIPHistory(ipAddress: string, limit: number = 10, tenantId?: string): Promise<UserData[]> {
     if (!this.collection) {
       throw new Error('Not connected to database');
     }
 
     const history = await this.collection.find(
-      { ipAddress },
+      { ...this.ipFilter(ipAddress), ...this.tenantFilter(tenantId) },
       { 
         sort: { timestamp: -1 },
         limit 
@@ -106,11 +454,12 @@ export class MongoStorageAdapter implements StorageAdapter {
       email: doc.email,
       ipAddress: doc.ipAddress,
       userAgent: doc.userAgent,
-      timestamp: doc.timestamp
+      timestamp: doc.timestamp,
+      tenantId: doc.tenantId || undefined
     }));
   }
 
-  async cleanup(olderThanDays: number = 90): Promise<number> {
+  async cleanup(olderThanDays: number = 90, options: CleanupOptions = {}): Promise<number> {
     if (!this.collection) {
       throw new Error('Not connected to database');
     }
@@ -118,10 +467,22 @@ export class MongoStorageAdapter implements StorageAdapter {
     const cutoffDate = new Date();
     cutoffDate.setDate(cutoffDate.getDate() - olderThanDays);
 
+    const scoped = options.tenantId !== undefined || options.defaultTenantOnly;
     const result = await this.collection.deleteMany({
+      ...(scoped && this.tenantFilter(options.tenantId)),
       timestamp: { $lt: cutoffDate }
     });
 
     return result.deletedCount;
   }
+
+  async disconnect(): Promise<void> {
+    const client = this.client;
+    this.client = null;
+    this.db = this.collection = this.assessments = this.accessLists = this.outcomes = this.challenges = null;
+    this.connection = null;
+    if (client) {
+      await client.close();
+    }
+  }
 }
\ No newline at end of file
@@ -1,22 +1,88 @@
-import { StorageAdapter, UserData } from '../types';
+import {
+  StorageAdapter,
+  UserData,
+  UserPage,
+  SignupCountQuery,
+  CleanupOptions,
+  AssessmentRecord,
+  AssessmentQuery,
+  AccessListEntry,
+  OutcomeRecord,
+  ChallengeRecord,
+  ChallengeStatus,
+  ChallengeType
+} from '../types';
+import { ConfigValidationError } from '../core/errors';
+import { checkOptions, checks } from '../core/validation';
+import { normalizeIP } from '../utils/ip';
 
 export interface PostgreSQLConfig {
   connectionString: string;
   tableName?: string;
+  /** Table for the assessment audit log */
+  assessmentTableName?: string;
+  /** Table for allowlist/denylist entries */
+  accessListTableName?: string;
+  /** Table for outcome labels */
+  outcomeTableName?: string;
+  /** Table for challenges */
+  challengeTableName?: string;
+}
+
+interface ChallengeRow {
+  id: string;
+  tenant_id: string;
+  type: ChallengeType;
+  status: ChallengeStatus;
+  email: string;
+  ip_address: string;
+  user_agent: string | null;
+  created_at: Date;
+  completed_at: Date | null;
 }
 
 export class PostgreSQLStorageAdapter implements StorageAdapter {
   private config: PostgreSQLConfig;
   private client: any;
+  private connection: Promise<void> | null = null;
 
   constructor(config: PostgreSQLConfig) {
+    const errors = checkOptions(config, {
+      connectionString: checks.nonEmptyString,
+      tableName: checks.nonEmptyString,
+      assessmentTableName: checks.nonEmptyString,
+      accessListTableName: checks.nonEmptyString,
+      outcomeTableName: checks.nonEmptyString,
+      challengeTableName: checks.nonEmptyString
+    }, '', ['connectionString']);
+    if (errors.length > 0) {
+      throw new ConfigValidationError(errors, 'PostgreSQL storage');
+    }
+
     this.config = {
       tableName: 'trial_abuse_users',
+      assessmentTableName: 'trial_abuse_assessments',
+      accessListTableName: 'trial_abuse_access_lists',
+      outcomeTableName: 'trial_abuse_outcomes',
+      challengeTableName: 'trial_abuse_challenges',
       ...config
     };
   }
 
+  /**
+   * Connect and create the tables if needed. Calling it again while connected does nothing.
+   */
   async connect(): Promise<void> {
+    if (!this.connection) {
+      this.connection = this.open().catch(error => {
+        this.connection = null;
+        throw error;
+      });
+    }
+    return this.connection;
+  }
+
+  private async open(): Promise<void> {
     try {
       const { Client } = require('pg');
       this.client = new Client({ connectionString: this.config.connectionString });
@@ -39,33 +105,90 @@ export class PostgreSQLStorageAdapter implements StorageAdapter {
         timestamp TIMESTAMP WITH TIME ZONE NOT NULL,
         created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
       );
+
+      -- Tables created before tenants existed; '' is the default tenant
+      ALTER TABLE ${this.config.tableName} ADD COLUMN IF NOT EXISTS tenant_id VARCHAR(255) NOT NULL DEFAULT '';
       
+      CREATE INDEX IF NOT EXISTS idx_tenant_email ON ${this.config.tableName}(tenant_id, email);
       CREATE INDEX IF NOT EXISTS idx_email ON ${this.config.tableName}(email);
       CREATE INDEX IF NOT EXISTS idx_ip_address ON ${this.config.tableName}(ip_address);
       CREATE INDEX IF NOT EXISTS idx_timestamp ON ${this.config.tableName}(timestamp);
+
+      CREATE TABLE IF NOT EXISTS ${this.config.assessmentTableName} (
+        id SERIAL PRIMARY KEY,
+        email VARCHAR(255) NOT NULL,
+        ip_address INET NOT NULL,
+        user_agent TEXT,
+        assessed_at TIMESTAMP WITH TIME ZONE NOT NULL,
+        recommendation VARCHAR(16) NOT NULL,
+        overall INTEGER NOT NULL,
+        result JSONB NOT NULL,
+        config_version VARCHAR(64) NOT NULL,
+        weights JSONB NOT NULL,
+        tenant_id VARCHAR(255) NOT NULL DEFAULT ''
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_assessment_email ON ${this.config.assessmentTableName}(email);
+      CREATE INDEX IF NOT EXISTS idx_assessment_ip_address ON ${this.config.assessmentTableName}(ip_address);
+      CREATE INDEX IF NOT EXISTS idx_assessment_assessed_at ON ${this.config.assessmentTableName}(assessed_at);
+      CREATE INDEX IF NOT EXISTS idx_assessment_tenant ON ${this.config.assessmentTableName}(tenant_id, assessed_at);
+
+      CREATE TABLE IF NOT EXISTS ${this.config.accessListTableName} (
+        tenant_id VARCHAR(255) NOT NULL DEFAULT '',
+        list VARCHAR(8) NOT NULL,
+        type VARCHAR(32) NOT NULL,
+        value VARCHAR(255) NOT NULL,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (tenant_id, list, type, value)
+      );
+
+      CREATE TABLE IF NOT EXISTS ${this.config.outcomeTableName} (
+        id SERIAL PRIMARY KEY,
+        tenant_id VARCHAR(255) NOT NULL DEFAULT '',
+        email VARCHAR(255) NOT NULL,
+        label VARCHAR(16) NOT NULL,
+        reported_at TIMESTAMP WITH TIME ZONE NOT NULL,
+        note TEXT
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_outcome_tenant ON ${this.config.outcomeTableName}(tenant_id, reported_at);
+
+      CREATE TABLE IF NOT EXISTS ${this.config.challengeTableName} (
+        id VARCHAR(64) PRIMARY KEY,
+        tenant_id VARCHAR(255) NOT NULL DEFAULT '',
+        type VARCHAR(16) NOT NULL,
+        status VARCHAR(16) NOT NULL,
+        email VARCHAR(255) NOT NULL,
+        ip_address INET NOT NULL,
+        user_agent TEXT,
+        created_at TIMESTAMP WITH TIME ZONE NOT NULL,
+        completed_at TIMESTAMP WITH TIME ZONE
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_challenge_email ON ${this.config.challengeTableName}(tenant_id, email, created_at);
     `;
 
     await this.client.query(createTableQuery);
   }
 
-  async getExistingEmails(): Promise<string[]> {
+  async getExistingEmails(tenantId?: string): Promise<string[]> {
     if (!this.client) {
       throw new Error('Not connected to database');
     }
 
-    const query = `SELECT DISTINCT email FROM ${this.config.tableName}`;
-    const result = await this.client.query(query);
+    const query = `SELECT DISTINCT email FROM ${this.config.tableName} WHERE tenant_id = $1`;
+    const result = await this.client.query(query, [tenantId || '']);
     
     return result.rows.map((row: any) => row.email);
   }
 
-  async getExistingIPs(email: string): Promise<string[]> {
+  async getExistingIPs(email: string, tenantId?: string): Promise<string[]> {
     if (!this.client) {
       throw new Error('Not connected to database');
     }
 
-    const query = `SELECT DISTINCT ip_address FROM ${this.config.tableName} WHERE email = $1`;
-    const result = await this.client.query(query, [email]);
+    const query = `SELECT DISTINCT ip_address FROM ${this.config.tableName} WHERE email = $1 AND tenant_id = $2`;
+    const result = await this.client.query(query, [email, tenantId || '']);
     
     return result.rows.map((row: any) => row.ip_address);
   }
@@ -76,81 +199,384 @@ export class PostgreSQLStorageAdapter implements StorageAdapter {
     }
 
     const query = `
-      INSERT INTO ${this.config.tableName} (email, ip_address, user_agent, timestamp)
-      VALUES ($1, $2, $3, $4)
+      INSERT INTO ${this.config.tableName} (email, ip_address, user_agent, timestamp, tenant_id)
+      VALUES ($1, $2, $3, $4, $5)
     `;
     
     await this.client.query(query, [
       data.email,
-      data.ipAddress,
+      normalizeIP(data.ipAddress),
       data.userAgent || null,
-      data.timestamp
+      data.timestamp,
+      data.tenantId || ''
     ]);
   }
 
-  async getUserHistory(email: string, limit: number = 10): Promise<UserData[]> {
+  async countSignups(query: SignupCountQuery): Promise<number> {
+    if (!this.client) {
+      throw new Error('Not connected to database');
+    }
+
+    const conditions = ['tenant_id = $1', 'timestamp >= $2', 'timestamp <= $3'];
+    const params: unknown[] = [query.tenantId || '', query.since, query.until];
+    const addCondition = (sql: string, value: unknown) => {
+      params.push(value);
+      conditions.push(`${sql} $${params.length}`);
+    };
+
+    if (query.ipAddress !== undefined) addCondition('ip_address =', normalizeIP(query.ipAddress));
+    if (query.cidr !== undefined) addCondition('ip_address <<=', query.cidr);
+    if (query.emailDomain !== undefined) addCondition(`LOWER(split_part(email, '@', 2)) =`, query.emailDomain.toLowerCase());
+    if (query.userAgent !== undefined) addCondition('user_agent =', query.userAgent);
+    if (query.excludeEmail !== undefined) addCondition('LOWER(email) <>', query.excludeEmail.toLowerCase());
+    if (query.excludeEmails?.length) {
+      params.push(query.excludeEmails.map(email => email.toLowerCase()));
+      conditions.push(`LOWER(email) <> ALL($${params.length})`);
+    }
+
+    const sql = `
+      SELECT COUNT(DISTINCT LOWER(email)) AS count
+      FROM ${this.config.tableName}
+      WHERE ${conditions.join(' AND ')}
+    `;
+
+    const result = await this.client.query(sql, params);
+    return parseInt(result.rows[0].count, 10);
+  }
+
+  async listUsers(cursor: string | undefined, limit: number, tenantId?: string): Promise<UserPage> {
     if (!this.client) {
       throw new Error('Not connected to database');
     }
 
+    // Keyset pagination on email; the cursor is the last email of the previous page
     const query = `
-      SELECT email, ip_address, user_agent, timestamp 
+      SELECT DISTINCT ON (email) email, ip_address, user_agent, timestamp, tenant_id
+      FROM ${this.config.tableName}
+      WHERE tenant_id = $3 AND ($1::text IS NULL OR email > $1)
+      ORDER BY email, timestamp DESC
+      LIMIT $2
+    `;
+
+    const result = await this.client.query(query, [cursor ?? null, limit, tenantId || '']);
+    const users: UserData[] = result.rows.map((row: any) => ({
+      email: row.email,
+      ipAddress: row.ip_address,
+      userAgent: row.user_agent || undefined,
+      timestamp: row.timestamp,
+      tenantId: row.tenant_id || undefined
+    }));
+
+    return {
+      users,
+      nextCursor: users.length === limit ? users[users.length - 1].email : undefined
+    };
+  }
+
+  async storeAssessment(record: AssessmentRecord): Promise<void> {
+    if (!this.client) {
+      throw new Error('Not connected to database');
+    }
+
+    const query = `
+      INSERT INTO ${this.config.assessmentTableName}
+        (email, ip_address, user_agent, assessed_at, recommendation, overall, result, config_version, weights, tenant_id)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+    `;
+
+    await this.client.query(query, [
+      record.email,
+      record.ipAddress,
+      record.userAgent || null,
+      record.assessedAt,
+      record.result.recommendation,
+      record.result.overall,
+      JSON.stringify(record.result),
+      record.configVersion,
+      JSON.stringify(record.weights),
+      record.tenantId || ''
+    ]);
+  }
+
+  async queryAssessments(query: AssessmentQuery): Promise<AssessmentRecord[]> {
+    if (!this.client) {
+      throw new Error('Not connected to database');
+    }
+
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    const addCondition = (sql: string, value: unknown) => {
+      params.push(value);
+      conditions.push(`${sql} $${params.length}`);
+    };
+
+    addCondition('tenant_id =', query.tenantId || '');
+    if (query.email !== undefined) addCondition('email =', query.email);
+    if (query.ipAddress !== undefined) addCondition('ip_address =', query.ipAddress);
+    if (query.from !== undefined) addCondition('assessed_at >=', query.from);
+    if (query.to !== undefined) addCondition('assessed_at <=', query.to);
+    params.push(query.limit ?? 100);
+
+    const sql = `
+      SELECT email, ip_address, user_agent, assessed_at, result, config_version, weights, tenant_id
+      FROM ${this.config.assessmentTableName}
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY assessed_at DESC, id DESC
+      LIMIT $${params.length}
+    `;
+
+    const result = await this.client.query(sql, params);
+
+    return result.rows.map((row: any) => ({
+      email: row.email,
+      ipAddress: row.ip_address,
+      userAgent: row.user_agent || undefined,
+      tenantId: row.tenant_id || undefined,
+      assessedAt: row.assessed_at,
+      result: row.result,
+      configVersion: row.config_version,
+      weights: row.weights
+    }));
+  }
+
+  async getAccessListEntries(): Promise<AccessListEntry[]> {
+    if (!this.client) {
+      throw new Error('Not connected to database');
+    }
+
+    const query = `SELECT tenant_id, list, type, value FROM ${this.config.accessListTableName}`;
+    const result = await this.client.query(query);
+
+    return result.rows.map((row: any) => ({
+      list: row.list,
+      type: row.type,
+      value: row.value,
+      ...(row.tenant_id && { tenantId: row.tenant_id })
+    }));
+  }
+
+  async storeAccessListEntries(entries: AccessListEntry[]): Promise<void> {
+    if (!this.client) {
+      throw new Error('Not connected to database');
+    }
+
+    const query = `
+      INSERT INTO ${this.config.accessListTableName} (list, type, value, tenant_id)
+      VALUES ($1, $2, $3, $4)
+      ON CONFLICT DO NOTHING
+    `;
+
+    for (const entry of entries) {
+      await this.client.query(query, [entry.list, entry.type, entry.value, entry.tenantId || '']);
+    }
+  }
+
+  async removeAccessListEntries(entries: AccessListEntry[]): Promise<void> {
+    if (!this.client) {
+      throw new Error('Not connected to database');
+    }
+
+    const query = `
+      DELETE FROM ${this.config.accessListTableName}
+      WHERE list = $1 AND type = $2 AND value = $3 AND tenant_id = $4
+    `;
+
+    for (const entry of entries) {
+      await this.client.query(query, [entry.list, entry.type, entry.value, entry.tenantId || '']);
+    }
+  }
+
+  async storeOutcome(record: OutcomeRecord): Promise<void> {
+    if (!this.client) {
+      throw new Error('Not connected to database');
+    }
+
+    const query = `
+      INSERT INTO ${this.config.outcomeTableName} (tenant_id, email, label, reported_at, note)
+      VALUES ($1, $2, $3, $4, $5)
+    `;
+
+    await this.client.query(query, [record.tenantId || '', record.email, record.label, record.reportedAt, record.note ?? null]);
+  }
+
+  async getOutcomes(tenantId?: string): Promise<OutcomeRecord[]> {
+    if (!this.client) {
+      throw new Error('Not connected to database');
+    }
+
+    const query = `
+      SELECT tenant_id, email, label, reported_at, note
+      FROM ${this.config.outcomeTableName}
+      WHERE tenant_id = $1
+      ORDER BY reported_at
+    `;
+    const result = await this.client.query(query, [tenantId || '']);
+
+    return result.rows.map((row: any) => ({
+      email: row.email,
+      label: row.label,
+      reportedAt: row.reported_at,
+      ...(row.tenant_id && { tenantId: row.tenant_id }),
+      ...(row.note !== null && { note: row.note })
+    }));
+  }
+
+  async storeChallenge(record: ChallengeRecord): Promise<void> {
+    if (!this.client) {
+      throw new Error('Not connected to database');
+    }
+
+    const query = `
+      INSERT INTO ${this.config.challengeTableName}
+        (id, tenant_id, type, status, email, ip_address, user_agent, created_at, completed_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      ON CONFLICT (id) DO UPDATE SET status = EXCLUDED.status, completed_at = EXCLUDED.completed_at
+    `;
+
+    await this.client.query(query, [
+      record.id,
+      record.tenantId || '',
+      record.type,
+      record.status,
+      record.email,
+      record.ipAddress,
+      record.userAgent ?? null,
+      record.createdAt,
+      record.completedAt ?? null
+    ]);
+  }
+
+  async getChallenge(id: string): Promise<ChallengeRecord | null> {
+    if (!this.client) {
+      throw new Error('Not connected to database');
+    }
+
+    const query = `
+      SELECT id, tenant_id, type, status, email, ip_address, user_agent, created_at, completed_at
+      FROM ${this.config.challengeTableName}
+      WHERE id = $1
+    `;
+    const result = await this.client.query(query, [id]);
+    return result.rows[0] ? this.toChallengeRecord(result.rows[0]) : null;
+  }
+
+  async getChallenges(email: string, tenantId?: string): Promise<ChallengeRecord[]> {
+    if (!this.client) {
+      throw new Error('Not connected to database');
+    }
+
+    const query = `
+      SELECT id, tenant_id, type, status, email, ip_address, user_agent, created_at, completed_at
+      FROM ${this.config.challengeTableName}
+      WHERE email = $1 AND tenant_id = $2
+      ORDER BY created_at DESC
+    `;
+    const result = await this.client.query(query, [email, tenantId || '']);
+    return result.rows.map((row: ChallengeRow) => this.toChallengeRecord(row));
+  }
+
+  async completeChallenge(
+    id: string,
+    status: Exclude<ChallengeStatus, 'pending'>,
+    completedAt: Date
+  ): Promise<ChallengeRecord | null> {
+    if (!this.client) {
+      throw new Error('Not connected to database');
+    }
+
+    const query = `
+      UPDATE ${this.config.challengeTableName}
+      SET status = $2, completed_at = $3
+      WHERE id = $1 AND status = 'pending'
+      RETURNING id, tenant_id, type, status, email, ip_address, user_agent, created_at, completed_at
+    `;
+    const result = await this.client.query(query, [id, status, completedAt]);
+    return result.rows[0] ? this.toChallengeRecord(result.rows[0]) : null;
+  }
+
+  private toChallengeRecord(row: ChallengeRow): ChallengeRecord {
+    return {
+      id: row.id,
+      type: row.type,
+      status: row.status,
+      email: row.email,
+      ipAddress: row.ip_address,
+      ...(row.user_agent !== null && { userAgent: row.user_agent }),
+      ...(row.tenant_id && { tenantId: row.tenant_id }),
+      createdAt: row.created_at,
+      ...(row.completed_at !== null && { completedAt: row.completed_at })
+    };
+  }
+
+  async getUserHistory(email: string, limit: number = 10, tenantId?: string): Promise<UserData[]> {
+    if (!this.client) {
+      throw new Error('Not connected to database');
+    }
+
+    const query = `
+      SELECT email, ip_address, user_agent, timestamp, tenant_id
       FROM ${this.config.tableName} 
-      WHERE email = $1 
+      WHERE email = $1 AND tenant_id = $3
       ORDER BY timestamp DESC 
       LIMIT $2
     `;
     
-    const result = await this.client.query(query, [email, limit]);
+    const result = await this.client.query(query, [email, limit, tenantId || '']);
     
     return result.rows.map((row: any) => ({
       email: row.email,
       ipAddress: row.ip_address,
       userAgent: row.user_agent,
-      timestamp: row.timestamp
+      timestamp: row.timestamp,
+      tenantId: row.tenant_id || undefined
     }));
   }
 
-  async getIPHistory(ipAddress: string, limit: number = 10): Promise<UserData[]> {
+  async getIPHistory(ipAddress: string, limit: number = 10, tenantId?: string): Promise<UserData[]> {
     if (!this.client) {
       throw new Error('Not connected to database');
     }
 
     const query = `
-      SELECT email, ip_address, user_agent, timestamp 
+      SELECT email, ip_address, user_agent, timestamp, tenant_id
       FROM ${this.config.tableName} 
-      WHERE ip_address = $1 
+      WHERE ip_address = $1 AND tenant_id = $3
       ORDER BY timestamp DESC 
       LIMIT $2
     `;
     
-    const result = await this.client.query(query, [ipAddress, limit]);
+    const result = await this.client.query(query, [normalizeIP(ipAddress), limit, tenantId || '']);
     
     return result.rows.map((row: any) => ({
       email: row.email,
       ipAddress: row.ip_address,
       userAgent: row.user_agent,
-      timestamp: row.timestamp
+      timestamp: row.timestamp,
+      tenantId: row.tenant_id || undefined
     }));
   }
 
-  async cleanup(olderThanDays: number = 90): Promise<number> {
+  async cleanup(olderThanDays: number = 90, options: CleanupOptions = {}): Promise<number> {
     if (!this.client) {
       throw new Error('Not connected to database');
     }
 
+    const scoped = options.tenantId !== undefined || options.defaultTenantOnly;
     const query = `
       DELETE FROM ${this.config.tableName} 
-      WHERE timestamp < NOW() - INTERVAL '${olderThanDays} days'
+      WHERE ${scoped ? 'tenant_id = $1 AND ' : ''}timestamp < NOW() - INTERVAL '${olderThanDays} days'
     `;
     
-    const result = await this.client.query(query);
+    const result = await this.client.query(query, scoped ? [options.tenantId || ''] : []);
     return result.rowCount;
   }
 
   async disconnect(): Promise<void> {
-    if (this.client) {
-      await this.client.end();
+    const client = this.client;
+    this.client = null;
+    this.connection = null;
+    if (client) {
+      await client.end();
     }
   }
 }
\ No newline at end of file
@@ -1,4 +1,34 @@
-import { StorageAdapter, UserData } from '../types';
+import {
+  StorageAdapter,
+  UserData,
+  UserPage,
+  SignupCountQuery,
+  CleanupOptions,
+  AssessmentRecord,
+  AssessmentQuery,
+  AccessListEntry,
+  OutcomeRecord,
+  ChallengeRecord,
+  ChallengeStatus
+} from '../types';
+import { ConfigValidationError } from '../core/errors';
+import { checkOptions, checks } from '../core/validation';
+import { matchesSignupQuery } from '../utils/signups';
+import { getEmailDomain } from '../utils/email';
+import { getSubnet, isSameIP, normalizeIP, parseCidr } from '../utils/ip';
+
+// Completes a stored challenge only if it is still pending, keeping its expiry
+const COMPLETE_CHALLENGE_SCRIPT = `
+local value = redis.call('GET', KEYS[1])
+if not value then return nil end
+local record = cjson.decode(value)
+if record.status ~= 'pending' then return nil end
+record.status = ARGV[1]
+record.completedAt = ARGV[2]
+value = cjson.encode(record)
+redis.call('SET', KEYS[1], value, 'KEEPTTL')
+return value
+`;
 
 export interface RedisConfig {
   host: string;
@@ -11,8 +41,20 @@ export interface RedisConfig {
 export class RedisStorageAdapter implements StorageAdapter {
   private config: RedisConfig;
   private client: any;
+  private connection: Promise<void> | null = null;
 
   constructor(config: RedisConfig) {
+    const errors = checkOptions(config, {
+      host: checks.nonEmptyString,
+      port: checks.integerBetween(1, 65535),
+      password: checks.string,
+      db: checks.integerBetween(0, 15),
+      keyPrefix: checks.string
+    }, '', ['host', 'port']);
+    if (errors.length > 0) {
+      throw new ConfigValidationError(errors, 'Redis storage');
+    }
+
     this.config = {
       keyPrefix: 'trial_abuse:',
       db: 0,
@@ -20,7 +62,20 @@ export class RedisStorageAdapter implements StorageAdapter {
     };
   }
 
+  /**
+   * Connect. Calling it again while connected does nothing.
+   */
   async connect(): Promise<void> {
+    if (!this.connection) {
+      this.connection = this.open().catch(error => {
+        this.connection = null;
+        throw error;
+      });
+    }
+    return this.connection;
+  }
+
+  private async open(): Promise<void> {
     try {
       const Redis = require('redis');
       this.client = Redis.createClient({
@@ -36,25 +91,25 @@ export class RedisStorageAdapter implements StorageAdapter {
     }
   }
 
-  async getExistingEmails(): Promise<string[]> {
+  async getExistingEmails(tenantId?: string): Promise<string[]> {
     if (!this.client) {
       throw new Error('Not connected to Redis');
     }
 
-    const pattern = `${this.config.keyPrefix}email:*`;
+    const pattern = `${this.prefix(tenantId)}email:*`;
     const keys = await this.client.keys(pattern);
     
     return keys.map((key: string) => 
-      key.replace(`${this.config.keyPrefix}email:`, '')
+      key.replace(`${this.prefix(tenantId)}email:`, '')
     );
   }
 
-  async getExistingIPs(email: string): Promise<string[]> {
+  async getExistingIPs(email: string, tenantId?: string): Promise<string[]> {
     if (!this.client) {
       throw new Error('Not connected to Redis');
     }
 
-    const key = `${this.config.keyPrefix}user_ips:${email}`;
+    const key = `${this.prefix(tenantId)}user_ips:${email}`;
     const ips = await this.client.sMembers(key);
     
     return ips || [];
@@ -65,42 +120,332 @@ export class RedisStorageAdapter implements StorageAdapter {
       throw new Error('Not connected to Redis');
     }
 
+    const prefix = this.prefix(data.tenantId);
     const pipeline = this.client.multi();
     
     // Store email existence
-    const emailKey = `${this.config.keyPrefix}email:${data.email}`;
+    const emailKey = `${prefix}email:${data.email}`;
     pipeline.set(emailKey, '1');
     pipeline.expire(emailKey, 60 * 60 * 24 * 90); // 90 days
 
     // Store user-IP mapping
-    const userIPsKey = `${this.config.keyPrefix}user_ips:${data.email}`;
+    const userIPsKey = `${prefix}user_ips:${data.email}`;
     pipeline.sAdd(userIPsKey, data.ipAddress);
     pipeline.expire(userIPsKey, 60 * 60 * 24 * 90); // 90 days
 
     // Store IP-user mapping
-    const ipUsersKey = `${this.config.keyPrefix}ip_users:${data.ipAddress}`;
+    const ipUsersKey = `${prefix}ip_users:${normalizeIP(data.ipAddress)}`;
     pipeline.sAdd(ipUsersKey, data.email);
     pipeline.expire(ipUsersKey, 60 * 60 * 24 * 90); // 90 days
 
     // Store detailed user data
-    const userDataKey = `${this.config.keyPrefix}user_data:${data.email}:${Date.now()}`;
+    const userDataKey = `${prefix}user_data:${data.email}:${Date.now()}`;
     pipeline.hSet(userDataKey, {
       email: data.email,
       ipAddress: data.ipAddress,
       userAgent: data.userAgent || '',
-      timestamp: data.timestamp.toISOString()
+      timestamp: data.timestamp.toISOString(),
+      tenantId: data.tenantId || ''
     });
     pipeline.expire(userDataKey, 60 * 60 * 24 * 90); // 90 days
 
+    // Index signups by time for velocity checks, overall and per IP, subnet
+    // and email domain
+    const timestamp = data.timestamp.getTime();
+    const member = JSON.stringify([timestamp, data.ipAddress, data.email, data.userAgent ?? null]);
+    for (const signupsKey of this.signupIndexKeys(prefix, data)) {
+      pipeline.zAdd(signupsKey, { score: timestamp, value: member });
+      pipeline.zRemRangeByScore(signupsKey, 0, Date.now() - 60 * 60 * 24 * 90 * 1000); // 90 days
+      pipeline.expire(signupsKey, 60 * 60 * 24 * 90); // 90 days
+    }
+
+    await pipeline.exec();
+  }
+
+  async countSignups(query: SignupCountQuery): Promise<number> {
+    if (!this.client) {
+      throw new Error('Not connected to Redis');
+    }
+
+    // Members are JSON arrays of [timestamp, ip, email, userAgent]
+    const members: string[] = await this.client.zRangeByScore(
+      this.signupQueryKey(this.prefix(query.tenantId), query),
+      query.since.getTime(),
+      query.until.getTime()
+    );
+
+    const emails = new Set<string>();
+    for (const member of members) {
+      const [timestamp, ipAddress, email, userAgent] = JSON.parse(member);
+      const data = { email, ipAddress, userAgent: userAgent ?? undefined, timestamp: new Date(timestamp), tenantId: query.tenantId };
+      if (matchesSignupQuery(data, query)) {
+        emails.add(email.toLowerCase());
+      }
+    }
+
+    return emails.size;
+  }
+
+  async listUsers(cursor: string | undefined, limit: number, tenantId?: string): Promise<UserPage> {
+    if (!this.client) {
+      throw new Error('Not connected to Redis');
+    }
+
+    // The cursor is Redis' SCAN cursor; `limit` is a hint and SCAN may repeat keys
+    const prefix = `${this.prefix(tenantId)}email:`;
+    const reply = await this.client.scan(Number(cursor ?? 0), { MATCH: `${prefix}*`, COUNT: limit });
+
+    const users: UserData[] = [];
+    for (const key of reply.keys as string[]) {
+      const [latest] = await this.getUserHistory(key.slice(prefix.length), 1, tenantId);
+      if (latest) {
+        users.push(latest);
+      }
+    }
+
+    return {
+      users,
+      nextCursor: Number(reply.cursor) !== 0 ? String(reply.cursor) : undefined
+    };
+  }
+
+  async storeAssessment(record: AssessmentRecord): Promise<void> {
+    if (!this.client) {
+      throw new Error('Not connected to Redis');
+    }
+
+    const prefix = this.prefix(record.tenantId);
+    const score = record.assessedAt.getTime();
+    // Members with the same score sort by key, so the zero-padded sequence
+    // number orders records stored in the same millisecond
+    const sequence: number = await this.client.incr(`${prefix}assessment_sequence`);
+    const recordKey = `${prefix}assessment:${score}:${String(sequence).padStart(15, '0')}`;
+    const indexKeys = [
+      `${prefix}assessments`,
+      `${prefix}assessments_by_email:${record.email}`,
+      `${prefix}assessments_by_ip:${normalizeIP(record.ipAddress)}`
+    ];
+
+    const pipeline = this.client.multi();
+
+    // Store the record itself
+    pipeline.set(recordKey, JSON.stringify(record));
+    pipeline.expire(recordKey, 60 * 60 * 24 * 90); // 90 days
+
+    // Index by time, overall and per email/IP
+    for (const indexKey of indexKeys) {
+      pipeline.zAdd(indexKey, { score, value: recordKey });
+      pipeline.expire(indexKey, 60 * 60 * 24 * 90); // 90 days
+    }
+
     await pipeline.exec();
   }
 
-  async getUserHistory(email: string, limit: number = 10): Promise<UserData[]> {
+  async queryAssessments(query: AssessmentQuery): Promise<AssessmentRecord[]> {
     if (!this.client) {
       throw new Error('Not connected to Redis');
     }
 
-    const pattern = `${this.config.keyPrefix}user_data:${email}:*`;
+    // Use the narrowest index available
+    const prefix = this.prefix(query.tenantId);
+    const indexKey = query.email !== undefined
+      ? `${prefix}assessments_by_email:${query.email}`
+      : query.ipAddress !== undefined
+        ? `${prefix}assessments_by_ip:${normalizeIP(query.ipAddress)}`
+        : `${prefix}assessments`;
+
+    const recordKeys: string[] = await this.client.zRangeByScore(
+      indexKey,
+      query.from !== undefined ? query.from.getTime() : '-inf',
+      query.to !== undefined ? query.to.getTime() : '+inf'
+    );
+
+    const limit = query.limit ?? 100;
+    const results: AssessmentRecord[] = [];
+
+    // Newest first; records may have expired since they were indexed
+    for (const recordKey of recordKeys.reverse()) {
+      const data = await this.client.get(recordKey);
+      if (!data) {
+        continue;
+      }
+
+      const parsed = JSON.parse(data);
+      const record: AssessmentRecord = { ...parsed, assessedAt: new Date(parsed.assessedAt) };
+      if (query.ipAddress !== undefined && !isSameIP(record.ipAddress, query.ipAddress)) {
+        continue;
+      }
+
+      results.push(record);
+      if (results.length >= limit) {
+        break;
+      }
+    }
+
+    return results;
+  }
+
+  async getAccessListEntries(): Promise<AccessListEntry[]> {
+    if (!this.client) {
+      throw new Error('Not connected to Redis');
+    }
+
+    // Members are JSON arrays of [list, type, value, tenantId]
+    const members: string[] = await this.client.sMembers(`${this.config.keyPrefix}access_list`);
+    return (members || []).map(member => {
+      const [list, type, value, tenantId] = JSON.parse(member);
+      return { list, type, value, ...(tenantId && { tenantId }) } as AccessListEntry;
+    });
+  }
+
+  async storeAccessListEntries(entries: AccessListEntry[]): Promise<void> {
+    if (!this.client) {
+      throw new Error('Not connected to Redis');
+    }
+
+    const members = entries.map(entry => this.accessListMember(entry));
+    await this.client.sAdd(`${this.config.keyPrefix}access_list`, members);
+  }
+
+  async removeAccessListEntries(entries: AccessListEntry[]): Promise<void> {
+    if (!this.client) {
+      throw new Error('Not connected to Redis');
+    }
+
+    const members = entries.map(entry => this.accessListMember(entry));
+    await this.client.sRem(`${this.config.keyPrefix}access_list`, members);
+  }
+
+  async storeOutcome(record: OutcomeRecord): Promise<void> {
+    if (!this.client) {
+      throw new Error('Not connected to Redis');
+    }
+
+    // Labels are kept without expiry, unlike user data
+    await this.client.zAdd(`${this.prefix(record.tenantId)}outcomes`, {
+      score: record.reportedAt.getTime(),
+      value: JSON.stringify(record)
+    });
+  }
+
+  async getOutcomes(tenantId?: string): Promise<OutcomeRecord[]> {
+    if (!this.client) {
+      throw new Error('Not connected to Redis');
+    }
+
+    const members: string[] = await this.client.zRange(`${this.prefix(tenantId)}outcomes`, 0, -1);
+    return members.map(member => {
+      const parsed = JSON.parse(member);
+      return { ...parsed, reportedAt: new Date(parsed.reportedAt) };
+    });
+  }
+
+  async storeChallenge(record: ChallengeRecord): Promise<void> {
+    if (!this.client) {
+      throw new Error('Not connected to Redis');
+    }
+
+    // Challenges are looked up by id alone, so their keys don't include the
+    // tenant; the per-email index does
+    const indexKey = `${this.prefix(record.tenantId)}challenges:${record.email}`;
+    const pipeline = this.client.multi();
+    pipeline.set(`${this.config.keyPrefix}challenge:${record.id}`, JSON.stringify(record));
+    pipeline.expire(`${this.config.keyPrefix}challenge:${record.id}`, 60 * 60 * 24 * 90); // 90 days
+    pipeline.zAdd(indexKey, { score: record.createdAt.getTime(), value: record.id });
+    pipeline.expire(indexKey, 60 * 60 * 24 * 90); // 90 days
+    await pipeline.exec();
+  }
+
+  async getChallenge(id: string): Promise<ChallengeRecord | null> {
+    if (!this.client) {
+      throw new Error('Not connected to Redis');
+    }
+
+    const value: string | null = await this.client.get(`${this.config.keyPrefix}challenge:${id}`);
+    return value ? this.parseChallenge(value) : null;
+  }
+
+  async getChallenges(email: string, tenantId?: string): Promise<ChallengeRecord[]> {
+    if (!this.client) {
+      throw new Error('Not connected to Redis');
+    }
+
+    const ids: string[] = await this.client.zRange(`${this.prefix(tenantId)}challenges:${email}`, 0, -1, { REV: true });
+    const values: Array<string | null> = await Promise.all(
+      ids.map(id => this.client.get(`${this.config.keyPrefix}challenge:${id}`))
+    );
+    // Challenges may have expired since they were indexed
+    return values.filter((value): value is string => value !== null).map(value => this.parseChallenge(value));
+  }
+
+  async completeChallenge(
+    id: string,
+    status: Exclude<ChallengeStatus, 'pending'>,
+    completedAt: Date
+  ): Promise<ChallengeRecord | null> {
+    if (!this.client) {
+      throw new Error('Not connected to Redis');
+    }
+
+    // A script runs atomically, so concurrent completions can't both succeed
+    const value: string | null = await this.client.eval(COMPLETE_CHALLENGE_SCRIPT, {
+      keys: [`${this.config.keyPrefix}challenge:${id}`],
+      arguments: [status, completedAt.toISOString()]
+    });
+    return value ? this.parseChallenge(value) : null;
+  }
+
+  private parseChallenge(value: string): ChallengeRecord {
+    const parsed = JSON.parse(value);
+    return {
+      ...parsed,
+      createdAt: new Date(parsed.createdAt),
+      ...(parsed.completedAt && { completedAt: new Date(parsed.completedAt) })
+    };
+  }
+
+  private signupIndexKeys(prefix: string, data: UserData): string[] {
+    const subnet = getSubnet(data.ipAddress);
+    const domain = getEmailDomain(data.email);
+    return [
+      `${prefix}signups`,
+      `${prefix}signups_by_ip:${normalizeIP(data.ipAddress)}`,
+      ...(subnet ? [`${prefix}signups_by_subnet:${subnet}`] : []),
+      ...(domain ? [`${prefix}signups_by_domain:${domain}`] : [])
+    ];
+  }
+
+  // The narrowest signup index for a query; other conditions are checked on the members
+  private signupQueryKey(prefix: string, query: SignupCountQuery): string {
+    if (query.ipAddress !== undefined) {
+      return `${prefix}signups_by_ip:${normalizeIP(query.ipAddress)}`;
+    }
+    // Subnets are indexed at the size `getSubnet` uses
+    const range = query.cidr !== undefined ? parseCidr(query.cidr) : undefined;
+    if (query.cidr !== undefined && range && range.prefix === (range.version === 4 ? 24 : 64)) {
+      return `${prefix}signups_by_subnet:${getSubnet(query.cidr.split('/')[0])}`;
+    }
+    if (query.emailDomain !== undefined) {
+      return `${prefix}signups_by_domain:${query.emailDomain.toLowerCase()}`;
+    }
+    return `${prefix}signups`;
+  }
+
+  private accessListMember(entry: AccessListEntry): string {
+    return JSON.stringify([entry.list, entry.type, entry.value, entry.tenantId || null]);
+  }
+
+  // Keys of the default tenant keep the plain prefix
+  private prefix(tenantId?: string): string {
+    return tenantId ? `${this.config.keyPrefix}tenant:${tenantId}:` : `${this.config.keyPrefix}`;
+  }
+
+  async getUserHistory(email: string, limit: number = 10, tenantId?: string): Promise<UserData[]> {
+    if (!this.client) {
+      throw new Error('Not connected to Redis');
+    }
+
+    const pattern = `${this.prefix(tenantId)}user_data:${email}:*`;
     const keys = await this.client.keys(pattern);
     
     // Sort by timestamp (embedded in key) and limit
@@ -121,7 +466,8 @@ export class RedisStorageAdapter implements StorageAdapter {
           email: data.email,
           ipAddress: data.ipAddress,
           userAgent: data.userAgent || undefined,
-          timestamp: new Date(data.timestamp)
+          timestamp: new Date(data.timestamp),
+          tenantId: data.tenantId || undefined
         });
       }
     }
@@ -129,20 +475,19 @@ export class RedisStorageAdapter implements StorageAdapter {
     return results;
   }
 
-  async getIPHistory(ipAddress: string, limit: number = 10): Promise<UserData[]> {
+  async getIPHistory(ipAddress: string, limit: number = 10, tenantId?: string): Promise<UserData[]> {
     if (!this.client) {
       throw new Error('Not connected to Redis');
     }
 
     // Get all emails associated with this IP
-    const ipUsersKey = `${this.config.keyPrefix}ip_users:${ipAddress}`;
-    const emails = await this.client.sMembers(ipUsersKey);
+    const emails = await this.getEmailsByIP(ipAddress, tenantId);
 
     const results: UserData[] = [];
 
     for (const email of emails) {
-      const history = await this.getUserHistory(email, limit);
-      results.push(...history.filter(h => h.ipAddress === ipAddress));
+      const history = await this.getUserHistory(email, limit, tenantId);
+      results.push(...history.filter(h => isSameIP(h.ipAddress, ipAddress)));
     }
 
     // Sort by timestamp and limit
@@ -150,23 +495,29 @@ export class RedisStorageAdapter implements StorageAdapter {
     return results.slice(0, limit);
   }
 
-  async getEmailsByIP(ipAddress: string): Promise<string[]> {
+  async getEmailsByIP(ipAddress: string, tenantId?: string): Promise<string[]> {
     if (!this.client) {
       throw new Error('Not connected to Redis');
     }
 
-    const key = `${this.config.keyPrefix}ip_users:${ipAddress}`;
+    const key = `${this.prefix(tenantId)}ip_users:${normalizeIP(ipAddress)}`;
     return await this.client.sMembers(key) || [];
   }
 
-  async cleanup(olderThanDays: number = 90): Promise<number> {
+  async cleanup(olderThanDays: number = 90, options: CleanupOptions = {}): Promise<number> {
     if (!this.client) {
       throw new Error('Not connected to Redis');
     }
 
     const cutoffTime = Date.now() - (olderThanDays * 24 * 60 * 60 * 1000);
-    const pattern = `${this.config.keyPrefix}user_data:*`;
-    const keys = await this.client.keys(pattern);
+    const scoped = options.tenantId !== undefined || options.defaultTenantOnly;
+    const patterns = scoped
+      ? [`${this.prefix(options.tenantId)}user_data:*`]
+      : [`${this.config.keyPrefix}user_data:*`, `${this.config.keyPrefix}tenant:*:user_data:*`];
+    const keys: string[] = [];
+    for (const pattern of patterns) {
+      keys.push(...await this.client.keys(pattern));
+    }
     
     let deletedCount = 0;
 
@@ -182,8 +533,11 @@ export class RedisStorageAdapter implements StorageAdapter {
   }
 
   async disconnect(): Promise<void> {
-    if (this.client) {
-      await this.client.disconnect();
+    const client = this.client;
+    this.client = null;
+    this.connection = null;
+    if (client) {
+      await client.disconnect();
     }
   }
 }
\ No newline at end of file
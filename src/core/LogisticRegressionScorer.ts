@@ -0,0 +1,156 @@
+import { LogisticRegressionModel, RiskFactors, RiskScorer, TrainingOptions, TrainingSample } from '../types';
+import { fingerprintConfig } from './scoring';
+
+/**
+ * Model inputs for an assessment: each evaluated factor's score (0-1), each
+ * reason code a factor detected (1) and each velocity count relative to its
+ * limit. Factors that errored, timed out or were skipped contribute nothing.
+ */
+export function extractFeatures(factors: RiskFactors): Record<string, number> {
+  const features: Record<string, number> = {};
+
+  for (const [name, factor] of Object.entries(factors)) {
+    if (factor.status && factor.status !== 'ok') {
+      continue;
+    }
+    features[`factor.${name}`] = factor.score / 100;
+
+    if (factor.detected) {
+      (factor.reasons || []).forEach(reason => {
+        features[`reason.${reason.code}`] = 1;
+      });
+    }
+
+    const counts = factor.metadata?.counts;
+    if (name === 'velocity' && Array.isArray(counts)) {
+      for (const entry of counts as Array<Record<string, number>>) {
+        if (entry.limit > 0) {
+          features[`velocity.${entry.scope}.${entry.windowMinutes}`] = entry.count / entry.limit;
+        }
+      }
+    }
+  }
+
+  return features;
+}
+
+const sigmoid = (value: number) => 1 / (1 + Math.exp(-value));
+
+/**
+ * Scores users with a logistic regression model trained on outcome labels.
+ * The overall score is the predicted probability of fraud, as 0-100.
+ */
+export class LogisticRegressionScorer implements RiskScorer {
+  readonly version: string;
+  private model: LogisticRegressionModel;
+
+  constructor(model: LogisticRegressionModel) {
+    LogisticRegressionScorer.validate(model);
+    this.model = { ...model, coefficients: { ...model.coefficients } };
+    this.version = model.version;
+  }
+
+  /**
+   * Fit a model with batch gradient descent. Needs at least one sample of
+   * each label.
+   */
+  static train(samples: TrainingSample[], options: TrainingOptions = {}): LogisticRegressionScorer {
+    const iterations = options.iterations ?? 2000;
+    const learningRate = options.learningRate ?? 0.5;
+    const l2 = options.l2 ?? 0.01;
+
+    if (!samples.some(sample => sample.label === 'fraud') || !samples.some(sample => sample.label === 'legit')) {
+      throw new Error('Training needs at least one fraud and one legit sample');
+    }
+
+    const rows = samples.map(sample => extractFeatures(sample.factors));
+    const names = Array.from(new Set(rows.flatMap(row => Object.keys(row)))).sort();
+    const inputs = rows.map(row => names.map(name => row[name] ?? 0));
+    const targets = samples.map(sample => (sample.label === 'fraud' ? 1 : 0));
+
+    const weights = names.map(() => 0);
+    let intercept = 0;
+    for (let iteration = 0; iteration < iterations; iteration++) {
+      const gradient = names.map(() => 0);
+      let interceptGradient = 0;
+
+      inputs.forEach((input, row) => {
+        const error = sigmoid(intercept + input.reduce((sum, value, i) => sum + value * weights[i], 0)) - targets[row];
+        input.forEach((value, i) => {
+          gradient[i] += error * value;
+        });
+        interceptGradient += error;
+      });
+
+      weights.forEach((weight, i) => {
+        weights[i] -= learningRate * (gradient[i] / inputs.length + l2 * weight);
+      });
+      intercept -= learningRate * interceptGradient / inputs.length;
+    }
+
+    const coefficients = Object.fromEntries(names.map((name, i) => [name, weights[i]]));
+    return new LogisticRegressionScorer({
+      type: 'logistic-regression',
+      version: options.version ?? `lr-${fingerprintConfig({ intercept, coefficients })}`,
+      intercept,
+      coefficients,
+      trainedAt: new Date().toISOString(),
+      samples: samples.length
+    });
+  }
+
+  /**
+   * Load a model exported with `toJSON()`
+   */
+  static fromJSON(json: string | LogisticRegressionModel): LogisticRegressionScorer {
+    return new LogisticRegressionScorer(typeof json === 'string' ? JSON.parse(json) : json);
+  }
+
+  private static validate(model: LogisticRegressionModel): void {
+    const errors: string[] = [];
+    const isNumber = (value: unknown) => typeof value === 'number' && Number.isFinite(value);
+
+    if (!model || model.type !== 'logistic-regression') {
+      errors.push('type must be logistic-regression');
+    }
+    if (!model || typeof model.version !== 'string' || !model.version) {
+      errors.push('version must be a non-empty string');
+    }
+    if (!model || !isNumber(model.intercept)) {
+      errors.push('intercept must be a number');
+    }
+    if (!model || !model.coefficients || typeof model.coefficients !== 'object') {
+      errors.push('coefficients must be an object');
+    } else {
+      for (const [name, value] of Object.entries(model.coefficients)) {
+        if (!isNumber(value)) {
+          errors.push(`coefficients.${name} must be a number`);
+        }
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new Error(`Invalid scoring model: ${errors.join('; ')}`);
+    }
+  }
+
+  score(factors: RiskFactors): number {
+    return Math.round(100 * this.predict(factors));
+  }
+
+  /**
+   * Predicted probability (0-1) that the user is fraud
+   */
+  predict(factors: RiskFactors): number {
+    const features = extractFeatures(factors);
+    let logit = this.model.intercept;
+    for (const [name, value] of Object.entries(features)) {
+      logit += (this.model.coefficients[name] ?? 0) * value;
+    }
+    return sigmoid(logit);
+  }
+
+  toJSON(): LogisticRegressionModel {
+    return { ...this.model, coefficients: { ...this.model.coefficients } };
+  }
+}
@@ -0,0 +1,183 @@
+import { PolicyRule, PolicyCondition, Recommendation, RiskFactors, UserData, ChallengeType } from '../types';
+import { ConfigValidationError } from './errors';
+import { CHALLENGE_TYPES } from './challenges';
+
+const RECOMMENDATIONS: Recommendation[] = ['allow', 'flag', 'challenge', 'block'];
+
+// Placeholder countries reported by the IP analyzer when no lookup succeeded
+const UNRESOLVED_COUNTRIES = ['Unknown', 'Local/Private'];
+
+export interface PolicyContext {
+  userData: UserData;
+  factors: RiskFactors;
+  overall: number;
+}
+
+export interface PolicyResult {
+  /** Recommendation from the first matching rule, if any rule matched */
+  recommendation?: Recommendation;
+  /** Challenge named by the first matching rule, if its action is 'challenge' */
+  challenge?: ChallengeType;
+  /** Id of the first matching rule */
+  appliedRule?: string;
+  /** Ids of all matching rules, in rule order */
+  matchedRules: string[];
+}
+
+/**
+ * Evaluates declarative policy rules against the analyzed risk factors.
+ * Rules are checked in order and the first matching rule decides the
+ * recommendation; all matching rule ids are reported.
+ */
+export class PolicyEngine {
+  private rules: PolicyRule[];
+
+  constructor(rules: PolicyRule[] = []) {
+    PolicyEngine.validate(rules);
+    this.rules = [...rules];
+  }
+
+  /**
+   * Validate rules, throwing an error that lists every invalid rule
+   */
+  static validate(rules: PolicyRule[]): void {
+    const errors = PolicyEngine.collectErrors(rules);
+    if (errors.length > 0) {
+      throw new ConfigValidationError(errors);
+    }
+  }
+
+  /**
+   * Problems with the rules, one per invalid field
+   */
+  static collectErrors(rules: PolicyRule[]): string[] {
+    const errors: string[] = [];
+    const seen = new Set<string>();
+
+    rules.forEach((rule, index) => {
+      const label = rule?.id ? `policies[${index}] (${rule.id})` : `policies[${index}]`;
+
+      if (!rule || typeof rule.id !== 'string' || !rule.id) {
+        errors.push(`${label}.id must be a non-empty string`);
+      } else if (seen.has(rule.id)) {
+        errors.push(`${label}.id is not unique`);
+      } else {
+        seen.add(rule.id);
+      }
+
+      if (!rule || !RECOMMENDATIONS.includes(rule.action)) {
+        errors.push(`${label}.action must be one of ${RECOMMENDATIONS.join(', ')}`);
+      }
+
+      if (rule?.challenge !== undefined && !CHALLENGE_TYPES.includes(rule.challenge)) {
+        errors.push(`${label}.challenge must be one of ${CHALLENGE_TYPES.join(', ')}`);
+      }
+
+      if (!rule || !rule.when || typeof rule.when !== 'object') {
+        errors.push(`${label}.when must be a condition object`);
+      }
+    });
+
+    return errors;
+  }
+
+  getRules(): PolicyRule[] {
+    return [...this.rules];
+  }
+
+  evaluate(context: PolicyContext): PolicyResult {
+    const matched = this.rules.filter(rule => this.matches(rule.when, context));
+    const matchedRules = matched.map(rule => rule.id);
+
+    const [applied] = matched;
+    if (!applied) {
+      return { matchedRules };
+    }
+
+    return {
+      recommendation: applied.action,
+      ...(applied.action === 'challenge' && applied.challenge && { challenge: applied.challenge }),
+      appliedRule: applied.id,
+      matchedRules
+    };
+  }
+
+  private matches(condition: PolicyCondition, context: PolicyContext): boolean {
+    if (condition.all && !condition.all.every(c => this.matches(c, context))) {
+      return false;
+    }
+
+    if (condition.any && !condition.any.some(c => this.matches(c, context))) {
+      return false;
+    }
+
+    if (condition.not && this.matches(condition.not, context)) {
+      return false;
+    }
+
+    if (condition.factor !== undefined || condition.flag !== undefined ||
+        condition.detected !== undefined || condition.minScore !== undefined ||
+        condition.maxScore !== undefined || condition.reason !== undefined) {
+      if (!this.matchesFactor(condition, context)) {
+        return false;
+      }
+    }
+
+    if (condition.ipCountry) {
+      const country = this.resolveCountry(context);
+      const countries = condition.ipCountry.map(c => c.toUpperCase());
+      if (!country || !countries.includes(country.toUpperCase())) {
+        return false;
+      }
+    }
+
+    if (condition.emailDomain) {
+      const domain = context.userData.email.toLowerCase().split('@')[1] || '';
+      const matchesDomain = condition.emailDomain.some(d => {
+        const expected = d.toLowerCase();
+        return domain === expected || domain.endsWith(`.${expected}`);
+      });
+      if (!matchesDomain) {
+        return false;
+      }
+    }
+
+    if (condition.minOverall !== undefined && context.overall < condition.minOverall) {
+      return false;
+    }
+
+    if (condition.maxOverall !== undefined && context.overall > condition.maxOverall) {
+      return false;
+    }
+
+    return true;
+  }
+
+  private matchesFactor(condition: PolicyCondition, context: PolicyContext): boolean {
+    const factors = condition.factor !== undefined
+      ? [context.factors[condition.factor]].filter(Boolean)
+      : Object.values(context.factors);
+
+    return factors.some(factor => {
+      if (condition.detected !== undefined && factor.detected !== condition.detected) return false;
+      if (condition.minScore !== undefined && factor.score < condition.minScore) return false;
+      if (condition.maxScore !== undefined && factor.score > condition.maxScore) return false;
+      if (condition.flag !== undefined && factor.metadata?.[condition.flag] !== true) return false;
+      if (condition.reason !== undefined) {
+        const codes = Array.isArray(condition.reason) ? condition.reason : [condition.reason];
+        if (!(factor.reasons || []).some(reason => codes.includes(reason.code))) return false;
+      }
+      return true;
+    });
+  }
+
+  private resolveCountry(context: PolicyContext): string | undefined {
+    for (const factor of Object.values(context.factors)) {
+      const country = factor.metadata?.country;
+      if (typeof country === 'string' && country && !UNRESOLVED_COUNTRIES.includes(country)) {
+        return country;
+      }
+    }
+    return undefined;
+  }
+}
@@ -3,211 +3,1110 @@ import {
   UserData, 
   RiskScore, 
   RiskFactor, 
-  EmailSimilarityResult, 
-  IPAnalysisResult,
-  RiskLevel 
+  RiskFactors,
+  RiskReason,
+  Detector,
+  DetectionContext,
+  DegradationMode,
+  Recommendation,
+  RiskThresholds,
+  RiskLevelThresholds,
+  RiskLevel,
+  TrialAbuseGuardEvents,
+  AssessmentRecord,
+  AssessmentQuery,
+  AccessListEntry,
+  AccessListType,
+  DetectionCache,
+  BatchOptions,
+  BatchResult,
+  BatchUser,
+  RescanOptions,
+  OutcomeLabel,
+  OutcomeOptions,
+  OutcomeRecord,
+  OutcomeStats,
+  RiskScorer,
+  TrainingOptions,
+  RescanPage,
+  ChallengeRecord,
+  ChallengeType,
+  ScoringVersions,
+  AssessmentDiff
 } from '../types';
+import { randomUUID } from 'crypto';
 import { EmailSimilarityDetector } from '../detectors/EmailSimilarityDetector';
 import { TempEmailDetector } from '../detectors/TempEmailDetector';
 import { IPAnalyzer } from '../detectors/IPAnalyzer';
 import { VPNDetector } from '../detectors/VPNDetector';
+import { VelocityDetector } from '../detectors/VelocityDetector';
+import { UserAgentDetector } from '../detectors/UserAgentDetector';
+import { InMemoryStorageAdapter } from '../adapters/InMemoryStorageAdapter';
+import { AccessListService } from '../services/AccessListService';
+import {
+  resolveThresholds,
+  resolveRiskLevels,
+  resolveTenantConfig,
+  fingerprintConfig
+} from './scoring';
+import { validateConfig } from './validation';
+import { PolicyEngine, PolicyResult } from './PolicyEngine';
+import { LogisticRegressionScorer } from './LogisticRegressionScorer';
+import { OUTCOME_LABELS, latestOutcomes, computeOutcomeStats } from './outcomes';
+import { applyChallengeOutcome, findDecidingChallenge } from './challenges';
+import { diffAssessments } from './diff';
+import { renderReason, renderReasons } from './reasons';
+import { TypedEventEmitter } from './events';
+import { createLogger } from './logger';
+import { setFactorAttributes, setResultAttributes, traceStorageAdapter, withSpan } from './tracing';
+import { VERSION } from '../version';
 
-export class TrialAbuseGuard {
-  private config: Required<TrialAbuseConfig>;
+// Options that stay optional after defaults are applied
+type OptionalConfigKeys = 'detectorTimeout' | 'assessmentTimeout' | 'scorer' | 'logger' | 'logLevel' | 'redactEmails' | 'tracer';
+type ResolvedConfig = Required<Omit<TrialAbuseConfig, OptionalConfigKeys>> & Pick<TrialAbuseConfig, OptionalConfigKeys>;
+
+// Settings that decide a recommendation, which tenants can override
+interface ScoringSettings {
+  weights: Record<string, number>;
+  thresholds: RiskThresholds;
+  riskLevels: RiskLevelThresholds;
+  policyEngine: PolicyEngine;
+  scorer?: RiskScorer;
+}
+
+export class TrialAbuseGuard extends TypedEventEmitter<TrialAbuseGuardEvents> {
+  private config: ResolvedConfig;
   private emailDetector: EmailSimilarityDetector;
   private tempEmailDetector: TempEmailDetector;
   private ipAnalyzer: IPAnalyzer;
   private vpnDetector: VPNDetector;
+  private velocityDetector: VelocityDetector;
+  private userAgentDetector: UserAgentDetector;
+  private detectors: Map<string, Detector> = new Map();
+  private scoring: ScoringSettings;
+  private tenantScoring: Map<string, ScoringSettings> = new Map();
+  private accessLists: AccessListService;
+  private readiness: Promise<void> | null = null;
+  private destruction: Promise<void> | null = null;
+  // Aborted by destroy(), so detectors stop their network calls
+  private inFlight: Set<AbortController> = new Set();
 
   constructor(config: TrialAbuseConfig = {}) {
+    super();
+    validateConfig(config);
+
     this.config = {
       emailSimilarityCheck: true,
       emailSimilarityThreshold: 0.8,
       tempEmailCheck: true,
       ipCheck: true,
       vpnCheck: true,
+      velocityCheck: true,
+      velocity: {},
+      userAgentCheck: true,
+      userAgent: {},
       customDisposableDomains: [],
       tempEmailAutoUpdate: false,
       tempEmailUpdateInterval: 24,
       tempEmailStoragePath: './temp-domains.json',
       apiKeys: {},
       storageAdapter: new InMemoryStorageAdapter(),
+      detectors: [],
+      weights: {},
+      thresholds: {},
+      riskLevels: {},
+      policies: [],
+      challengeType: 'email_otp',
+      challenges: {},
+      shadowMode: false,
+      detectorTimeouts: {},
+      degradation: {},
+      defaultDegradation: 'ignore',
+      allowlist: {},
+      denylist: {},
+      tenants: {},
       ...config
     };
+    this.logger = createLogger(this.config);
+    if (this.config.tracer) {
+      this.config.storageAdapter = traceStorageAdapter(this.config.storageAdapter, this.config.tracer);
+    }
+    this.scoring = this.createScoringSettings(this.config);
+    for (const [tenantId, tenant] of Object.entries(this.config.tenants)) {
+      this.tenantScoring.set(tenantId, this.createScoringSettings(resolveTenantConfig(this.config, tenant)));
+    }
+    this.accessLists = new AccessListService(this.config.storageAdapter, {
+      allowlist: this.config.allowlist,
+      denylist: this.config.denylist,
+      tenants: this.config.tenants
+    });
 
     this.emailDetector = new EmailSimilarityDetector(this.config);
     this.tempEmailDetector = new TempEmailDetector(this.config);
     this.ipAnalyzer = new IPAnalyzer(this.config);
     this.vpnDetector = new VPNDetector(this.config);
+    this.velocityDetector = new VelocityDetector(this.config);
+    this.userAgentDetector = new UserAgentDetector(this.config);
+
+    this.tempEmailDetector.onDomainsUpdated(update => this.emit('domains.updated', update));
+    this.ipAnalyzer.on('provider.completed', call => this.emit('provider.completed', call));
+    this.vpnDetector.on('provider.completed', call => this.emit('provider.completed', call));
+
+    // Built-in detectors are registered like any other detector
+    if (this.config.emailSimilarityCheck) this.registerDetector(this.emailDetector);
+    if (this.config.tempEmailCheck) this.registerDetector(this.tempEmailDetector);
+    if (this.config.ipCheck) this.registerDetector(this.ipAnalyzer);
+    if (this.config.vpnCheck) this.registerDetector(this.vpnDetector);
+    if (this.config.velocityCheck) this.registerDetector(this.velocityDetector);
+    if (this.config.userAgentCheck) this.registerDetector(this.userAgentDetector);
+
+    this.config.detectors.forEach(detector => this.registerDetector(detector));
   }
 
   /**
-   * Main method to check for trial abuse
+   * Wait for asynchronous setup: connect the storage adapter, load
+   * persisted allowlist/denylist entries and let detectors finish
+   * initializing (e.g. loading the disposable domain list). Checks work
+   * without it, but may run against a partially loaded domain list.
    */
-  async checkTrialAbuse(userData: UserData): Promise<RiskScore> {
-    const factors = await this.analyzeAllFactors(userData);
-    const overall = this.calculateOverallRisk(factors);
-    const recommendation = this.getRecommendation(overall);
-    const details = this.generateRiskDetails(factors);
+  async ready(): Promise<void> {
+    this.assertNotDestroyed();
+    if (!this.readiness) {
+      this.readiness = this.initialize().catch(error => {
+        this.readiness = null;
+        throw error;
+      });
+    }
+    return this.readiness;
+  }
+
+  private async initialize(): Promise<void> {
+    await this.config.storageAdapter.connect?.();
+    await Promise.all([
+      this.accessLists.load(),
+      ...this.getLifecycleDetectors().map(detector => detector.ready?.())
+    ]);
+  }
+
+  /**
+   * Stop background work and release resources: abort detectors still
+   * running, stop detector timers such as the domain list auto-update,
+   * disconnect the storage adapter and remove all event listeners. The
+   * guard can't be used afterwards.
+   */
+  destroy(): Promise<void> {
+    if (!this.destruction) {
+      this.destruction = this.teardown();
+    }
+    return this.destruction;
+  }
 
-    // Store user data for future comparisons
-    if (this.config.storageAdapter) {
-      await this.config.storageAdapter.storeUserData(userData);
+  private async teardown(): Promise<void> {
+    this.inFlight.forEach(controller => controller.abort());
+    this.inFlight.clear();
+
+    const results = await Promise.allSettled([
+      ...this.getLifecycleDetectors().map(detector => Promise.resolve().then(() => detector.destroy?.())),
+      Promise.resolve(this.readiness).catch(() => undefined)
+        .then(() => this.config.storageAdapter.disconnect?.())
+    ]);
+    this.removeAllListeners();
+
+    const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+    if (failure) {
+      throw failure.reason;
     }
+  }
+
+  private assertNotDestroyed(): void {
+    if (this.destruction) {
+      throw new Error('TrialAbuseGuard has been destroyed');
+    }
+  }
+
+  /**
+   * Registered detectors and the built-in ones, which exist even when
+   * their check is disabled
+   */
+  private getLifecycleDetectors(): Detector[] {
+    return Array.from(new Set<Detector>([
+      this.emailDetector,
+      this.tempEmailDetector,
+      this.ipAnalyzer,
+      this.vpnDetector,
+      this.velocityDetector,
+      this.userAgentDetector,
+      ...this.detectors.values()
+    ]));
+  }
+
+  /**
+   * Main method to check for trial abuse: evaluates the user, records them
+   * for future comparisons and writes the assessment to the audit log. A
+   * 'challenge' recommendation's challenge is stored, and its id returned
+   * for `completeChallenge()`.
+   */
+  async checkTrialAbuse(userData: UserData): Promise<RiskScore> {
+    return withSpan(this.config.tracer, 'trial_abuse.check', async span => {
+      const evaluated = await this.evaluate(userData);
+      const result = evaluated.challenge ? await this.issueChallenge(userData, evaluated) : evaluated;
+      await this.record(userData, result);
+      setResultAttributes(span, result);
+      return result;
+    });
+  }
+
+  /**
+   * Convenience method that matches the requested API: user.checkTrialAbuse()
+   */
+  async checkUser(email: string, ipAddress: string, userAgent?: string, tenantId?: string): Promise<RiskScore> {
+    return this.checkTrialAbuse(this.createUserData(email, ipAddress, userAgent, tenantId));
+  }
+
+  /**
+   * Assess a user without side effects. Nothing is stored, so repeated
+   * evaluations of the same user don't affect each other.
+   */
+  async evaluate(userData: UserData): Promise<RiskScore> {
+    return this.evaluateWithContext(userData, {});
+  }
+
+  private async evaluateWithContext(
+    userData: UserData,
+    shared: DetectionContext,
+    completedChallenge?: ChallengeRecord
+  ): Promise<RiskScore> {
+    this.assertNotDestroyed();
+    const attributes = userData.tenantId ? { 'trial_abuse.tenant_id': userData.tenantId } : {};
+    return withSpan(this.config.tracer, 'trial_abuse.evaluate', async span => {
+      const startedAt = Date.now();
+      this.emit('assessment.started', { userData });
+
+      const listEntry = await this.accessLists.match(userData);
+      const assessed: RiskScore = {
+        ...(listEntry ? this.createAccessListResult(listEntry) : await this.assess(userData, shared)),
+        versions: this.getVersions(userData.tenantId)
+      };
+      const challenge = completedChallenge ??
+        (assessed.challenge && await this.findDecidingChallenge(userData, assessed.challenge.type));
+      const result = challenge ? applyChallengeOutcome(assessed, challenge) : assessed;
+
+      const finalResult = this.config.shadowMode ? this.applyShadowMode(result) : result;
+      if (listEntry) {
+        // The matched entry's value may be an email or IP, so only its list and type are recorded
+        span?.setAttributes({ 'trial_abuse.access_list': listEntry.list, 'trial_abuse.access_list.type': listEntry.type });
+      }
+      setResultAttributes(span, finalResult);
+      this.emitDecision(userData, finalResult, startedAt);
+      return finalResult;
+    }, attributes);
+  }
+
+  private async assess(userData: UserData, shared: DetectionContext): Promise<RiskScore> {
+    const scoring = this.getScoringSettings(userData.tenantId);
+    const factors = await this.analyzeAllFactors(userData, shared);
+    const overall = scoring.scorer ? scoring.scorer.score(factors) : this.calculateOverallRisk(factors, scoring);
+    const policy = scoring.policyEngine.evaluate({ userData, factors, overall });
+    // Degradation comes last, so a policy rule can't override a fail-closed block
+    const recommendation = this.applyDegradation(factors, policy.recommendation ?? this.getRecommendation(overall, scoring));
+    const reasons = this.collectReasons(factors, policy);
+    const details = this.generateRiskDetails(factors, policy);
 
     return {
       overall,
       factors,
       recommendation,
-      details
+      details,
+      reasons,
+      matchedRules: policy.matchedRules,
+      appliedRule: policy.appliedRule,
+      ...(recommendation === 'challenge' && { challenge: { type: policy.challenge ?? this.config.challengeType } }),
+      ...(scoring.scorer && { modelVersion: scoring.scorer.version })
     };
   }
 
   /**
-   * Convenience method that matches the requested API: user.checkTrialAbuse()
+   * Result for a user decided by the allowlist or denylist. No detector
+   * runs, so every factor is reported as skipped.
+   */
+  private createAccessListResult(entry: AccessListEntry): RiskScore {
+    const denied = entry.list === 'deny';
+    const reason: RiskReason = {
+      code: denied ? 'LIST_DENIED' : 'LIST_ALLOWED',
+      evidence: { type: entry.type, value: entry.value }
+    };
+
+    const factors: RiskFactors = {};
+    for (const detector of this.detectors.values()) {
+      factors[detector.name] = this.createSkippedFactor(detector.name);
+    }
+
+    return {
+      overall: denied ? 100 : 0,
+      factors,
+      recommendation: denied ? 'block' : 'allow',
+      details: [renderReason(reason)],
+      reasons: [reason],
+      matchedRules: []
+    };
+  }
+
+  private emitDecision(userData: UserData, result: RiskScore, startedAt: number): void {
+    this.emit('assessment.completed', { userData, result, durationMs: Date.now() - startedAt });
+
+    if (result.recommendation === 'block') {
+      this.emit('decision.block', { userData, result });
+    } else if (result.recommendation === 'challenge') {
+      this.emit('decision.challenge', { userData, result });
+    } else if (result.recommendation === 'flag') {
+      this.emit('decision.flag', { userData, result });
+    }
+  }
+
+  /**
+   * Convenience wrapper around evaluate() for a single email/IP pair
    */
-  async checkUser(email: string, ipAddress: string, userAgent?: string): Promise<RiskScore> {
-    const userData: UserData = {
+  async evaluateUser(email: string, ipAddress: string, userAgent?: string, tenantId?: string): Promise<RiskScore> {
+    return this.evaluate(this.createUserData(email, ipAddress, userAgent, tenantId));
+  }
+
+  /**
+   * Assess many users at once, yielding results as they complete. Stored
+   * emails and per-IP lookups are loaded once for the whole batch, and
+   * each user is also compared with the users before it in the batch.
+   * A failed assessment is yielded with `error` instead of ending the batch.
+   */
+  async *checkUsers(users: BatchUser[], options: BatchOptions = {}): AsyncGenerator<BatchResult> {
+    const concurrency = options.concurrency ?? 10;
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new Error('concurrency must be a positive integer');
+    }
+
+    const cache = new MemoryDetectionCache();
+    const compareWithinBatch = options.compareWithinBatch ?? true;
+    const batch: UserData[] = users.map(user => ({ ...user, timestamp: user.timestamp ?? new Date() }));
+    // Users stored by `record`, which storage queries already count
+    const recorded = new Set<UserData>();
+    const running = new Map<number, Promise<BatchResult>>();
+    let next = 0;
+
+    while (next < batch.length || running.size > 0) {
+      while (running.size < concurrency && next < batch.length) {
+        const index = next++;
+        const earlier = compareWithinBatch ? batch.slice(0, index) : [];
+        const shared: DetectionContext = {
+          cache,
+          batchPeers: earlier.filter(peer => !recorded.has(peer)),
+          batchRecorded: earlier.filter(peer => recorded.has(peer))
+        };
+        running.set(index, this.checkBatchUser(index, batch[index], shared, options, recorded));
+      }
+
+      const completed = await Promise.race(running.values());
+      running.delete(completed.index);
+      yield completed;
+    }
+  }
+
+  private async checkBatchUser(
+    index: number,
+    userData: UserData,
+    shared: DetectionContext,
+    options: BatchOptions,
+    recorded: Set<UserData>
+  ): Promise<BatchResult> {
+    try {
+      const result = await this.evaluateWithContext(userData, shared);
+      if (options.record) {
+        await this.record(userData, result);
+        recorded.add(userData);
+      }
+      return { index, userData, result };
+    } catch (error) {
+      return { index, userData, error: error instanceof Error ? error : new Error(String(error)) };
+    }
+  }
+
+  /**
+   * Re-assess every stored user without storing anything, one page at a
+   * time. Each page lists the users whose recommendation differs from
+   * their latest audited assessment; users without one count as changed
+   * when they are no longer allowed. Pass a page's `nextCursor` as
+   * `cursor` to resume an interrupted rescan.
+   */
+  async *rescanUsers(options: RescanOptions = {}): AsyncGenerator<RescanPage> {
+    const adapter = this.config.storageAdapter;
+    if (!adapter?.listUsers) {
+      throw new Error('Storage adapter does not support listing users');
+    }
+
+    const pageSize = options.pageSize ?? 100;
+    if (!Number.isInteger(pageSize) || pageSize < 1) {
+      throw new Error('pageSize must be a positive integer');
+    }
+
+    let cursor = options.cursor;
+    do {
+      const page = await adapter.listUsers(cursor, pageSize, options.tenantId);
+      const rescanPage: RescanPage = { changes: [], scanned: page.users.length, errors: [], nextCursor: page.nextCursor };
+
+      const batch = this.checkUsers(page.users, { concurrency: options.concurrency, compareWithinBatch: false });
+      for await (const { userData, result, error } of batch) {
+        if (error) {
+          rescanPage.errors.push({ userData, error });
+          continue;
+        }
+        if (!result) {
+          continue;
+        }
+
+        const previous = await this.getLatestRecommendation(userData.email, options.tenantId);
+        const changed = previous !== undefined
+          ? previous !== result.recommendation
+          : result.recommendation !== 'allow';
+        if (changed) {
+          rescanPage.changes.push({ userData, previous, result });
+        }
+      }
+
+      yield rescanPage;
+      cursor = page.nextCursor;
+    } while (cursor);
+  }
+
+  private async getLatestRecommendation(email: string, tenantId?: string): Promise<Recommendation | undefined> {
+    const adapter = this.config.storageAdapter;
+    if (!adapter?.queryAssessments) {
+      return undefined;
+    }
+    const [latest] = await adapter.queryAssessments({ email, tenantId, limit: 1 });
+    return latest?.result.recommendation;
+  }
+
+  /**
+   * Store user data for future comparisons. When the assessment is given
+   * and the storage adapter supports it, it is written to the audit log.
+   */
+  async record(userData: UserData, result?: RiskScore): Promise<void> {
+    const adapter = this.config.storageAdapter;
+    if (!adapter) {
+      return;
+    }
+
+    await adapter.storeUserData(userData);
+    if (result && adapter.storeAssessment) {
+      await adapter.storeAssessment(this.createAssessmentRecord(userData, result));
+    }
+  }
+
+  /**
+   * Get a challenge issued by `checkTrialAbuse()`, e.g. to show its type on
+   * a verification page
+   */
+  async getChallenge(challengeId: string): Promise<ChallengeRecord | null> {
+    const adapter = this.config.storageAdapter;
+    if (!adapter.storeChallenge || !adapter.getChallenge) {
+      throw new Error('Storage adapter does not support challenges');
+    }
+    return adapter.getChallenge(challengeId);
+  }
+
+  /**
+   * Record whether a user passed the challenge `checkTrialAbuse()` issued
+   * them, then re-assess them and write the new assessment to the audit
+   * log. Passing turns a 'challenge' recommendation into 'allow', in this
+   * and later assessments until `challenges.passTtlHours` have passed;
+   * failing returns 'block', and keeps blocking them for
+   * `challenges.failureWindowHours`.
+   */
+  async completeChallenge(challengeId: string, passed: boolean): Promise<RiskScore> {
+    const adapter = this.config.storageAdapter;
+    const challenge = await this.getChallenge(challengeId);
+    if (!challenge) {
+      throw new Error(`Challenge not found: ${challengeId}`);
+    }
+    if (challenge.status !== 'pending') {
+      throw new Error(`Challenge ${challengeId} has already been ${challenge.status}`);
+    }
+
+    const status = passed ? 'passed' : 'failed';
+    const completedAt = new Date();
+    let completed: ChallengeRecord | null;
+    if (adapter.completeChallenge) {
+      // Of concurrent completions of the same challenge, only one succeeds
+      completed = await adapter.completeChallenge(challengeId, status, completedAt);
+      if (!completed) {
+        throw new Error(`Challenge ${challengeId} has already been completed`);
+      }
+    } else {
+      completed = { ...challenge, status, completedAt };
+      await adapter.storeChallenge?.(completed);
+    }
+
+    const userData = this.createUserData(challenge.email, challenge.ipAddress, challenge.userAgent, challenge.tenantId);
+    const result = await this.evaluateWithContext(userData, {}, completed);
+    if (adapter.storeAssessment) {
+      await adapter.storeAssessment(this.createAssessmentRecord(userData, result));
+    }
+    this.emit('challenge.completed', { challenge: completed, result });
+    return result;
+  }
+
+  /**
+   * The user's recently completed challenge that decides a new 'challenge'
+   * recommendation, so that a user who passed a challenge isn't given the
+   * same one again and one who failed can't retry straight away
+   */
+  private async findDecidingChallenge(userData: UserData, type: ChallengeType): Promise<ChallengeRecord | undefined> {
+    const adapter = this.config.storageAdapter;
+    if (!adapter.getChallenges) {
+      return undefined;
+    }
+    const challenges = await adapter.getChallenges(userData.email, userData.tenantId);
+    return findDecidingChallenge(challenges, type, this.config.challenges);
+  }
+
+  /**
+   * Store the challenge of a 'challenge' recommendation, when the storage
+   * adapter supports challenges, and add its id to the result
+   */
+  private async issueChallenge(userData: UserData, result: RiskScore): Promise<RiskScore> {
+    const adapter = this.config.storageAdapter;
+    if (!adapter.storeChallenge || !result.challenge) {
+      return result;
+    }
+
+    const record: ChallengeRecord = {
+      id: randomUUID(),
+      type: result.challenge.type,
+      status: 'pending',
+      email: userData.email,
+      ipAddress: userData.ipAddress,
+      ...(userData.userAgent && { userAgent: userData.userAgent }),
+      ...(userData.tenantId && { tenantId: userData.tenantId }),
+      createdAt: new Date()
+    };
+    await adapter.storeChallenge(record);
+    return { ...result, challenge: { type: record.type, id: record.id } };
+  }
+
+  /**
+   * Query the audit log of a tenant by email, IP address and time range,
+   * newest first
+   */
+  async getAssessments(query: AssessmentQuery = {}): Promise<AssessmentRecord[]> {
+    const adapter = this.config.storageAdapter;
+    if (!adapter?.queryAssessments) {
+      throw new Error('Storage adapter does not support assessment queries');
+    }
+    return adapter.queryAssessments(query);
+  }
+
+  /**
+   * Label a user with what their trial turned out to be, e.g. after a
+   * chargeback or when support finds duplicate accounts. The latest label
+   * of an email counts.
+   */
+  async reportOutcome(email: string, label: OutcomeLabel, options: OutcomeOptions = {}): Promise<OutcomeRecord> {
+    const adapter = this.config.storageAdapter;
+    if (!adapter?.storeOutcome) {
+      throw new Error('Storage adapter does not support outcome labels');
+    }
+    if (!OUTCOME_LABELS.includes(label)) {
+      throw new Error(`Invalid outcome label: ${label}`);
+    }
+
+    const record: OutcomeRecord = {
       email,
-      ipAddress,
-      userAgent,
-      timestamp: new Date()
+      label,
+      reportedAt: new Date(),
+      ...(options.tenantId && { tenantId: options.tenantId }),
+      ...(options.note !== undefined && { note: options.note })
     };
+    await adapter.storeOutcome(record);
+    this.emit('outcome.reported', record);
+    return record;
+  }
 
-    return this.checkTrialAbuse(userData);
+  /**
+   * Precision, recall and false positive rate of the recommendation and of
+   * each factor, comparing a tenant's outcome labels with the latest
+   * assessment each labeled user received before the label was reported
+   */
+  async getOutcomeStats(tenantId?: string): Promise<OutcomeStats> {
+    const { labeled, assessed } = await this.getLabeledAssessments(tenantId);
+    return computeOutcomeStats(labeled, assessed);
   }
 
-  private async analyzeAllFactors(userData: UserData) {
-    const results = await Promise.allSettled([
-      this.config.emailSimilarityCheck ? this.checkEmailSimilarity(userData.email) : Promise.resolve(null),
-      this.config.tempEmailCheck ? this.checkTempEmail(userData.email) : Promise.resolve(null),
-      this.config.ipCheck ? this.checkIPRisk(userData.ipAddress) : Promise.resolve(null),
-      this.config.vpnCheck ? this.checkVPN(userData.ipAddress) : Promise.resolve(null)
-    ]);
+  /**
+   * Train a logistic regression scorer on a tenant's outcome labels, using
+   * the factors of the latest assessment each labeled user received before
+   * the label was reported. The scorer isn't used until it's passed to
+   * `setScorer()` or the `scorer` option.
+   */
+  async trainScorer(options: TrainingOptions & { tenantId?: string } = {}): Promise<LogisticRegressionScorer> {
+    const { assessed } = await this.getLabeledAssessments(options.tenantId);
+    return LogisticRegressionScorer.train(
+      assessed.map(({ label, result }) => ({ label, factors: result.factors })),
+      options
+    );
+  }
+
+  /**
+   * Use a scorer for a tenant's overall scores, or go back to the weighted
+   * average with undefined
+   */
+  setScorer(scorer: RiskScorer | undefined, tenantId?: string): void {
+    if (!tenantId) {
+      this.config.scorer = scorer;
+      this.scoring.scorer = scorer;
+      // Tenants without a scorer of their own follow the top-level one
+      for (const [id, settings] of this.tenantScoring) {
+        if (!this.config.tenants[id]?.scorer) {
+          settings.scorer = scorer;
+        }
+      }
+      return;
+    }
 
+    const tenant = { ...this.config.tenants[tenantId], scorer };
+    this.config.tenants = { ...this.config.tenants, [tenantId]: tenant };
+    this.tenantScoring.set(tenantId, this.createScoringSettings(resolveTenantConfig(this.config, tenant)));
+  }
+
+  private async getLabeledAssessments(
+    tenantId?: string
+  ): Promise<{ labeled: number; assessed: Array<{ label: OutcomeLabel; result: RiskScore }> }> {
+    const adapter = this.config.storageAdapter;
+    if (!adapter?.getOutcomes || !adapter.queryAssessments) {
+      throw new Error('Storage adapter does not support outcome labels');
+    }
+
+    const outcomes = latestOutcomes(await adapter.getOutcomes(tenantId));
+    const assessed: Array<{ label: OutcomeLabel; result: RiskScore }> = [];
+    for (const outcome of outcomes) {
+      const [assessment] = await adapter.queryAssessments({
+        email: outcome.email,
+        tenantId,
+        to: outcome.reportedAt,
+        limit: 1
+      });
+      if (assessment) {
+        assessed.push({ label: outcome.label, result: assessment.result });
+      }
+    }
+    return { labeled: outcomes.length, assessed };
+  }
+
+  /**
+   * Fingerprint of a tenant's scoring configuration: weights, thresholds,
+   * risk levels, policies, scorer version, detector settings, timeouts,
+   * degradation modes and challenge settings. The disposable domain list and
+   * the allowlist/denylist aren't included; `getVersions()` covers the
+   * domain list.
+   */
+  getConfigVersion(tenantId?: string): string {
+    const scoring = this.getScoringSettings(tenantId);
+    return fingerprintConfig({
+      weights: this.getWeights(tenantId),
+      thresholds: scoring.thresholds,
+      riskLevels: scoring.riskLevels,
+      policies: scoring.policyEngine.getRules(),
+      scorer: scoring.scorer?.version,
+      emailSimilarityThreshold: this.config.emailSimilarityThreshold,
+      velocity: this.config.velocity,
+      userAgent: this.config.userAgent,
+      detectorTimeout: this.config.detectorTimeout,
+      detectorTimeouts: this.config.detectorTimeouts,
+      assessmentTimeout: this.config.assessmentTimeout,
+      degradation: this.config.degradation,
+      defaultDegradation: this.config.defaultDegradation,
+      challengeType: this.config.challengeType,
+      challenges: this.config.challenges
+    });
+  }
+
+  /**
+   * Versions stamped on a tenant's results: the config fingerprint, the
+   * library version, the disposable domain list fingerprint and the policy
+   * fingerprint
+   */
+  getVersions(tenantId?: string): ScoringVersions {
     return {
-      emailSimilarity: this.processResult(results[0], 'emailSimilarity'),
-      tempEmail: this.processResult(results[1], 'tempEmail'),
-      ipRisk: this.processResult(results[2], 'ipRisk'),
-      vpnDetection: this.processResult(results[3], 'vpnDetection')
+      config: this.getConfigVersion(tenantId),
+      library: VERSION,
+      domainList: this.tempEmailDetector.getDomainListVersion(tenantId),
+      policy: fingerprintConfig({ policies: this.getScoringSettings(tenantId).policyEngine.getRules() })
     };
   }
 
-  private async checkEmailSimilarity(email: string): Promise<RiskFactor> {
-    try {
-      const result = await this.emailDetector.checkSimilarity(email);
-      return {
-        score: result.suspicious ? Math.round(result.highestSimilarity * 100) : 0,
-        detected: result.suspicious,
-        confidence: result.highestSimilarity,
-        details: result.suspicious ? 
-          `Similar to existing emails: ${result.similarEmails.map(e => e.email).join(', ')}` : 
-          'No similar emails found'
-      };
-    } catch (error) {
-      return this.createErrorFactor('Email similarity check failed');
+  /**
+   * Explain how a user's two latest stored assessments differ, or null if
+   * they have fewer than two
+   */
+  async diffLatestAssessments(email: string, tenantId?: string): Promise<AssessmentDiff | null> {
+    const [after, before] = await this.getAssessments({ email, tenantId, limit: 2 });
+    return before ? diffAssessments(before, after) : null;
+  }
+
+  private createAssessmentRecord(userData: UserData, result: RiskScore): AssessmentRecord {
+    return {
+      email: userData.email,
+      ipAddress: userData.ipAddress,
+      userAgent: userData.userAgent,
+      ...(userData.tenantId && { tenantId: userData.tenantId }),
+      assessedAt: new Date(),
+      result,
+      configVersion: this.getConfigVersion(userData.tenantId),
+      weights: this.getWeights(userData.tenantId)
+    };
+  }
+
+  private createUserData(email: string, ipAddress: string, userAgent?: string, tenantId?: string): UserData {
+    return {
+      email,
+      ipAddress,
+      userAgent,
+      timestamp: new Date(),
+      ...(tenantId && { tenantId })
+    };
+  }
+
+  private applyShadowMode(result: RiskScore): RiskScore {
+    if (result.recommendation !== 'allow') {
+      this.logger.info(`[shadow] Would have returned ${result.recommendation}`, {
+        risk: result.overall,
+        ...(result.appliedRule && { rule: result.appliedRule })
+      });
     }
+
+    const shadowResult: RiskScore = {
+      ...result,
+      recommendation: 'allow',
+      shadowRecommendation: result.recommendation
+    };
+    delete shadowResult.challenge;
+    return shadowResult;
   }
 
-  private async checkTempEmail(email: string): Promise<RiskFactor> {
-    try {
-      const isTemp = this.tempEmailDetector.isTemporaryEmail(email);
-      return {
-        score: isTemp ? 90 : 0,
-        detected: isTemp,
-        confidence: isTemp ? 0.95 : 0.05,
-        details: isTemp ? 'Temporary/disposable email detected' : 'Email appears legitimate'
-      };
-    } catch (error) {
-      return this.createErrorFactor('Temporary email check failed');
+  /**
+   * Register a detector. A detector with the same name (including a
+   * built-in one) is replaced.
+   */
+  registerDetector(detector: Detector): void {
+    if (!detector.name) {
+      throw new Error('Detector name is required');
     }
+    if (typeof detector.weight !== 'number' || !Number.isFinite(detector.weight) || detector.weight < 0) {
+      throw new Error(`Detector "${detector.name}" must have a non-negative weight`);
+    }
+
+    this.detectors.set(detector.name, detector);
   }
 
-  private async checkIPRisk(ipAddress: string): Promise<RiskFactor> {
-    try {
-      const result = await this.ipAnalyzer.analyzeIP(ipAddress);
-      return {
-        score: result.riskScore,
-        detected: result.riskScore > 50,
-        confidence: result.riskScore / 100,
-        details: `IP Risk Score: ${result.riskScore}, Country: ${result.country || 'Unknown'}`
-      };
-    } catch (error) {
-      return this.createErrorFactor('IP risk check failed');
+  /**
+   * Unregister a detector by name
+   */
+  unregisterDetector(name: string): boolean {
+    return this.detectors.delete(name);
+  }
+
+  /**
+   * Get a registered detector by name
+   */
+  getDetector(name: string): Detector | undefined {
+    return this.detectors.get(name);
+  }
+
+  /**
+   * Get all registered detectors
+   */
+  getDetectors(): Detector[] {
+    return Array.from(this.detectors.values());
+  }
+
+  /**
+   * Get the effective factor weights of a tenant, keyed by detector name
+   */
+  getWeights(tenantId?: string): Record<string, number> {
+    const scoring = this.getScoringSettings(tenantId);
+    const weights: Record<string, number> = {};
+    for (const detector of this.detectors.values()) {
+      weights[detector.name] = this.getWeight(detector, scoring);
     }
+    return weights;
   }
 
-  private async checkVPN(ipAddress: string): Promise<RiskFactor> {
-    try {
-      const result = await this.vpnDetector.detectVPN(ipAddress);
-      const detected = result.isVPN || result.isProxy || result.isTor;
-      const score = detected ? 80 : 0;
-      
-      return {
-        score,
-        detected,
-        confidence: detected ? 0.9 : 0.1,
-        details: detected ? 
-          `VPN/Proxy detected: VPN=${result.isVPN}, Proxy=${result.isProxy}, Tor=${result.isTor}` : 
-          'No VPN/Proxy detected'
-      };
-    } catch (error) {
-      return this.createErrorFactor('VPN detection failed');
+  /**
+   * Get the flag/challenge/block thresholds a tenant's recommendations use
+   */
+  getThresholds(tenantId?: string): RiskThresholds {
+    return { ...this.getScoringSettings(tenantId).thresholds };
+  }
+
+  private getWeight(detector: Detector, scoring: ScoringSettings): number {
+    return scoring.weights[detector.name] ?? detector.weight;
+  }
+
+  private createScoringSettings(config: TrialAbuseConfig): ScoringSettings {
+    return {
+      weights: { ...config.weights },
+      thresholds: resolveThresholds(config),
+      riskLevels: resolveRiskLevels(config),
+      policyEngine: new PolicyEngine(config.policies),
+      scorer: config.scorer
+    };
+  }
+
+  /**
+   * Scoring settings for a tenant; tenants without their own settings use
+   * the top-level ones
+   */
+  private getScoringSettings(tenantId?: string): ScoringSettings {
+    return (tenantId && this.tenantScoring.get(tenantId)) || this.scoring;
+  }
+
+  private async analyzeAllFactors(userData: UserData, shared: DetectionContext): Promise<RiskFactors> {
+    const detectors = this.getDetectors();
+    const deadline = this.config.assessmentTimeout !== undefined
+      ? Date.now() + this.config.assessmentTimeout
+      : undefined;
+
+    const results = await Promise.all(
+      detectors.map(detector => this.analyzeFactor(detector, userData, shared, deadline))
+    );
+
+    const factors: RiskFactors = {};
+    detectors.forEach((detector, index) => {
+      factors[detector.name] = results[index];
+    });
+
+    return factors;
+  }
+
+  /**
+   * Run a single detector, turning a failure into an error factor
+   */
+  private async analyzeFactor(
+    detector: Detector,
+    userData: UserData,
+    shared: DetectionContext,
+    deadline?: number
+  ): Promise<RiskFactor> {
+    const startedAt = Date.now();
+    const result = await withSpan(this.config.tracer, `trial_abuse.detector.${detector.name}`, async span => {
+      const factor = await Promise.resolve()
+        .then(() => this.runDetector(detector, userData, shared, deadline))
+        .then(
+          result => this.processResult(result, detector.name),
+          error => {
+            this.emit('detector.error', { userData, factor: detector.name, error });
+            return this.createErrorFactor(detector.name);
+          }
+        );
+      setFactorAttributes(span, factor);
+      return factor;
+    });
+
+    this.emit('factor.completed', { userData, factor: detector.name, result, durationMs: Date.now() - startedAt });
+    return result;
+  }
+
+  /**
+   * Run a detector, resolving with a timed-out factor (and aborting the
+   * detector's signal) if it doesn't finish within its timeout or before
+   * the assessment deadline
+   */
+  private runDetector(
+    detector: Detector,
+    userData: UserData,
+    shared: DetectionContext,
+    deadline?: number
+  ): Promise<RiskFactor> {
+    if (detector.shouldRun && !detector.shouldRun(userData)) {
+      return Promise.resolve(this.createSkippedFactor(detector.name));
     }
+
+    const controller = new AbortController();
+    const context: DetectionContext = { ...shared, signal: controller.signal };
+    const analysis = detector.analyze(userData, context);
+    const settle = () => this.inFlight.delete(controller);
+    this.inFlight.add(controller);
+    analysis.then(settle, settle);
+
+    const timeouts = [this.config.detectorTimeouts[detector.name] ?? this.config.detectorTimeout];
+    if (deadline !== undefined) {
+      timeouts.push(Math.max(deadline - Date.now(), 0));
+    }
+    const defined = timeouts.filter((t): t is number => t !== undefined);
+    if (defined.length === 0) {
+      return analysis;
+    }
+
+    const timeoutMs = Math.min(...defined);
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        controller.abort();
+        resolve(this.createTimeoutFactor(detector.name, timeoutMs));
+      }, timeoutMs);
+
+      analysis.then(
+        factor => {
+          clearTimeout(timer);
+          resolve(factor);
+        },
+        error => {
+          clearTimeout(timer);
+          reject(error);
+        }
+      );
+    });
   }
 
-  private processResult(result: PromiseSettledResult<any>, factorName: string): RiskFactor {
-    if (result.status === 'fulfilled' && result.value) {
-      return result.value;
+  private processResult(factor: RiskFactor | undefined, factorName: string): RiskFactor {
+    if (factor) {
+      return { ...factor, status: factor.status ?? 'ok' };
     }
-    return this.createErrorFactor(`${factorName} check failed`);
+    return this.createErrorFactor(factorName);
   }
 
-  private createErrorFactor(details: string): RiskFactor {
+  private createSkippedFactor(factorName: string): RiskFactor {
+    const reasons: RiskReason[] = [{ code: 'DETECTOR_SKIPPED', evidence: { detector: factorName } }];
     return {
       score: 0,
       detected: false,
       confidence: 0,
-      details
+      status: 'skipped',
+      details: renderReasons(reasons),
+      reasons
     };
   }
 
-  private calculateOverallRisk(factors: any): number {
-    const weights = {
-      emailSimilarity: 0.3,
-      tempEmail: 0.25,
-      ipRisk: 0.25,
-      vpnDetection: 0.2
+  private createTimeoutFactor(factorName: string, timeoutMs: number): RiskFactor {
+    const reasons: RiskReason[] = [{ code: 'DETECTOR_TIMEOUT', evidence: { detector: factorName, timeoutMs } }];
+    return {
+      score: 0,
+      detected: false,
+      confidence: 0,
+      status: 'timeout',
+      details: renderReasons(reasons),
+      reasons
+    };
+  }
+
+  private createErrorFactor(factorName: string): RiskFactor {
+    const reasons: RiskReason[] = [{ code: 'DETECTOR_ERROR', evidence: { detector: factorName } }];
+    return {
+      score: 0,
+      detected: false,
+      confidence: 0,
+      status: 'error',
+      details: renderReasons(reasons),
+      reasons
     };
+  }
 
+  private calculateOverallRisk(factors: RiskFactors, scoring: ScoringSettings): number {
     let totalScore = 0;
     let totalWeight = 0;
 
-    for (const [factor, weight] of Object.entries(weights)) {
-      if (factors[factor].confidence > 0) {
-        totalScore += factors[factor].score * weight * factors[factor].confidence;
-        totalWeight += weight * factors[factor].confidence;
+    for (const detector of this.detectors.values()) {
+      const factor = factors[detector.name];
+      const weight = this.getWeight(detector, scoring);
+      if (factor && factor.confidence > 0) {
+        totalScore += factor.score * weight * factor.confidence;
+        totalWeight += weight * factor.confidence;
       }
     }
 
     return totalWeight > 0 ? Math.round(totalScore / totalWeight) : 0;
   }
 
-  private getRecommendation(score: number): 'allow' | 'flag' | 'block' {
-    if (score >= 80) return 'block';
-    if (score >= 50) return 'flag';
+  private getDegradationMode(factorName: string): DegradationMode {
+    return this.config.degradation[factorName] ?? this.config.defaultDegradation;
+  }
+
+  /**
+   * Whether a factor could not be evaluated and its degradation mode
+   * makes that count against the user
+   */
+  private isDegraded(factorName: string, factor: RiskFactor): boolean {
+    return (factor.status === 'error' || factor.status === 'timeout') &&
+      this.getDegradationMode(factorName) !== 'ignore';
+  }
+
+  /**
+   * Escalate the recommendation for factors that errored or timed out,
+   * according to their degradation mode
+   */
+  private applyDegradation(factors: RiskFactors, recommendation: Recommendation): Recommendation {
+    for (const [name, factor] of Object.entries(factors)) {
+      if (!this.isDegraded(name, factor)) {
+        continue;
+      }
+      if (this.getDegradationMode(name) === 'fail-closed') {
+        return 'block';
+      }
+      if (recommendation === 'allow') {
+        recommendation = 'flag';
+      }
+    }
+    return recommendation;
+  }
+
+  private getRecommendation(score: number, scoring: ScoringSettings): Recommendation {
+    if (score >= scoring.thresholds.block) return 'block';
+    if (scoring.thresholds.challenge !== undefined && score >= scoring.thresholds.challenge) return 'challenge';
+    if (score >= scoring.thresholds.flag) return 'flag';
     return 'allow';
   }
 
-  private generateRiskDetails(factors: any): string[] {
+  private collectReasons(factors: RiskFactors, policy: PolicyResult): RiskReason[] {
+    const reasons: RiskReason[] = [];
+
+    for (const [name, factor] of Object.entries(factors)) {
+      if (factor.detected || this.isDegraded(name, factor)) {
+        (factor.reasons || []).forEach(reason => reasons.push({ ...reason, factor: name }));
+      }
+    }
+
+    const policyReason = this.getPolicyReason(policy);
+    if (policyReason) {
+      reasons.push(policyReason);
+    }
+
+    return reasons;
+  }
+
+  private getPolicyReason(policy: PolicyResult): RiskReason | undefined {
+    if (!policy.appliedRule) {
+      return undefined;
+    }
+    return {
+      code: 'POLICY_RULE_MATCHED',
+      evidence: { ruleId: policy.appliedRule, action: policy.recommendation }
+    };
+  }
+
+  private generateRiskDetails(factors: RiskFactors, policy: PolicyResult): string[] {
     const details: string[] = [];
     
-    Object.values(factors).forEach((factor: any) => {
-      if (factor.detected) {
+    Object.entries(factors).forEach(([name, factor]) => {
+      if (!factor.detected && !this.isDegraded(name, factor)) {
+        return;
+      }
+      if (factor.reasons && factor.reasons.length > 0) {
+        details.push(...factor.reasons.map(renderReason));
+      } else if (factor.details) {
         details.push(factor.details);
       }
     });
 
+    const policyReason = this.getPolicyReason(policy);
+    if (policyReason) {
+      details.push(renderReason(policyReason));
+    }
+
     if (details.length === 0) {
       details.push('No significant risk factors detected');
     }
@@ -218,13 +1117,58 @@ export class TrialAbuseGuard {
   /**
    * Get risk level as human-readable string
    */
-  getRiskLevel(score: number): RiskLevel {
-    if (score >= 80) return 'critical';
-    if (score >= 60) return 'high';
-    if (score >= 30) return 'medium';
+  getRiskLevel(score: number, tenantId?: string): RiskLevel {
+    const { riskLevels } = this.getScoringSettings(tenantId);
+    if (score >= riskLevels.critical) return 'critical';
+    if (score >= riskLevels.high) return 'high';
+    if (score >= riskLevels.medium) return 'medium';
     return 'low';
   }
 
+  /**
+   * Add entries to the allowlist, for one tenant or, without a tenant id,
+   * for every tenant
+   */
+  async addAllowlistEntries(type: AccessListType, values: string[], tenantId?: string): Promise<void> {
+    await this.accessLists.add('allow', type, values, tenantId);
+  }
+
+  /**
+   * Remove entries from the allowlist
+   */
+  async removeAllowlistEntries(type: AccessListType, values: string[], tenantId?: string): Promise<void> {
+    await this.accessLists.remove('allow', type, values, tenantId);
+  }
+
+  /**
+   * Get the allowlist entries of a tenant, or the entries for every tenant
+   */
+  async getAllowlistEntries(tenantId?: string): Promise<AccessListEntry[]> {
+    return this.accessLists.getEntries('allow', tenantId);
+  }
+
+  /**
+   * Add entries to the denylist, for one tenant or, without a tenant id,
+   * for every tenant
+   */
+  async addDenylistEntries(type: AccessListType, values: string[], tenantId?: string): Promise<void> {
+    await this.accessLists.add('deny', type, values, tenantId);
+  }
+
+  /**
+   * Remove entries from the denylist
+   */
+  async removeDenylistEntries(type: AccessListType, values: string[], tenantId?: string): Promise<void> {
+    await this.accessLists.remove('deny', type, values, tenantId);
+  }
+
+  /**
+   * Get the denylist entries of a tenant, or the entries for every tenant
+   */
+  async getDenylistEntries(tenantId?: string): Promise<AccessListEntry[]> {
+    return this.accessLists.getEntries('deny', tenantId);
+  }
+
   /**
    * Get temp email detector for domain management
    */
@@ -289,27 +1233,17 @@ export class TrialAbuseGuard {
   }
 }
 
-// Default in-memory storage adapter for basic usage
-class InMemoryStorageAdapter {
-  private emails: string[] = [];
-  private userData: Map<string, UserData[]> = new Map();
-
-  async getExistingEmails(): Promise<string[]> {
-    return [...this.emails];
-  }
-
-  async getExistingIPs(email: string): Promise<string[]> {
-    const data = this.userData.get(email) || [];
-    return data.map(d => d.ipAddress);
-  }
+// Per-batch cache of in-flight and completed lookups
+class MemoryDetectionCache implements DetectionCache {
+  private entries: Map<string, Promise<unknown>> = new Map();
 
-  async storeUserData(data: UserData): Promise<void> {
-    if (!this.emails.includes(data.email)) {
-      this.emails.push(data.email);
+  getOrLoad<T>(key: string, load: () => Promise<T>): Promise<T> {
+    let entry = this.entries.get(key) as Promise<T> | undefined;
+    if (!entry) {
+      entry = Promise.resolve().then(load);
+      this.entries.set(key, entry);
+      entry.catch(() => this.entries.delete(key));
     }
-
-    const existing = this.userData.get(data.email) || [];
-    existing.push(data);
-    this.userData.set(data.email, existing);
+    return entry;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,51 @@
+import { ChallengeConfig, ChallengeRecord, ChallengeType, RiskReason, RiskScore } from '../types';
+import { renderReason } from './reasons';
+
+export const CHALLENGE_TYPES: ChallengeType[] = ['email_otp', 'captcha', 'phone'];
+
+const DEFAULT_PASS_TTL_HOURS = 720;
+const DEFAULT_FAILURE_WINDOW_HOURS = 24;
+
+/**
+ * The challenge that decides a user's new 'challenge' recommendation, from
+ * their challenges newest first: a challenge of the same type passed within
+ * `passTtlHours`, or one of any type failed within `failureWindowHours`
+ */
+export function findDecidingChallenge(
+  challenges: ChallengeRecord[],
+  type: ChallengeType,
+  config: ChallengeConfig,
+  now: number = Date.now()
+): ChallengeRecord | undefined {
+  const hours = (value: number) => value * 60 * 60 * 1000;
+  return challenges.find(challenge => {
+    const age = challenge.completedAt ? now - challenge.completedAt.getTime() : Infinity;
+    return challenge.status === 'passed'
+      ? challenge.type === type && age < hours(config.passTtlHours ?? DEFAULT_PASS_TTL_HOURS)
+      : challenge.status === 'failed' && age < hours(config.failureWindowHours ?? DEFAULT_FAILURE_WINDOW_HOURS);
+  });
+}
+
+/**
+ * Apply the outcome of a completed challenge to the user's new assessment.
+ * A passed challenge turns a repeated 'challenge' recommendation into
+ * 'allow' but leaves 'flag' and 'block' alone; a failed one blocks.
+ */
+export function applyChallengeOutcome(result: RiskScore, challenge: ChallengeRecord): RiskScore {
+  const passed = challenge.status === 'passed';
+  const reason: RiskReason = {
+    code: passed ? 'CHALLENGE_PASSED' : 'CHALLENGE_FAILED',
+    evidence: { challengeId: challenge.id, type: challenge.type }
+  };
+
+  const resolved: RiskScore = {
+    ...result,
+    recommendation: passed ? (result.recommendation === 'challenge' ? 'allow' : result.recommendation) : 'block',
+    details: [...result.details, renderReason(reason)],
+    reasons: [...result.reasons, reason]
+  };
+  if (resolved.recommendation !== 'challenge') {
+    delete resolved.challenge;
+  }
+  return resolved;
+}
@@ -0,0 +1,240 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { TrialAbuseConfig } from '../types';
+import { ConfigValidationError } from './errors';
+import { validateConfig } from './validation';
+
+/** Config files looked up in the working directory, in order */
+export const CONFIG_FILES = ['trial-abuse-guard.config.json', 'trial-abuse-guard.config.js'];
+
+export const ENV_PREFIX = 'TRIAL_GUARD_';
+
+/**
+ * Resolves the part after `<scheme>:` of a secret reference, returning
+ * undefined when the secret doesn't exist
+ */
+export type SecretResolver = (reference: string) => string | undefined;
+
+export interface LoadConfigOptions {
+  /** Directory to look for a config file in (default: the working directory) */
+  cwd?: string;
+  /** Config file to load instead of looking one up, or false to skip files */
+  configFile?: string | false;
+  /** Environment to read `TRIAL_GUARD_*` variables from (default: process.env) */
+  env?: Record<string, string | undefined>;
+  /** Resolvers for secret references by scheme, in addition to `env` and `file` */
+  secretResolvers?: Record<string, SecretResolver>;
+}
+
+export interface CreateTrialGuardOptions {
+  /** Merge the config over the config file and `TRIAL_GUARD_*` variables with `loadConfig()` */
+  loadConfig?: boolean | LoadConfigOptions;
+}
+
+type EnvParser = (value: string) => unknown;
+
+const parseBoolean: EnvParser = value => {
+  if (/^(true|1|yes|on)$/i.test(value)) return true;
+  if (/^(false|0|no|off)$/i.test(value)) return false;
+  return undefined;
+};
+const parseNumber: EnvParser = value => (value.trim() !== '' && Number.isFinite(Number(value)) ? Number(value) : undefined);
+const parseString: EnvParser = value => value;
+const parseList: EnvParser = value => value.split(',').map(item => item.trim()).filter(Boolean);
+
+const LIST_TYPES = ['email', 'canonicalEmail', 'domain', 'ip', 'cidr'];
+
+// Options settable from the environment, by path. A `*` segment takes any
+// name, e.g. TRIAL_GUARD_WEIGHTS__TEMP_EMAIL sets weights.tempEmail.
+const ENV_OPTIONS: Record<string, EnvParser> = {
+  emailSimilarityCheck: parseBoolean,
+  emailSimilarityThreshold: parseNumber,
+  tempEmailCheck: parseBoolean,
+  ipCheck: parseBoolean,
+  vpnCheck: parseBoolean,
+  velocityCheck: parseBoolean,
+  userAgentCheck: parseBoolean,
+  customDisposableDomains: parseList,
+  tempEmailAutoUpdate: parseBoolean,
+  tempEmailUpdateInterval: parseNumber,
+  tempEmailStoragePath: parseString,
+  challengeType: parseString,
+  shadowMode: parseBoolean,
+  detectorTimeout: parseNumber,
+  assessmentTimeout: parseNumber,
+  defaultDegradation: parseString,
+  logLevel: parseString,
+  redactEmails: parseBoolean,
+  'apiKeys.ipQualityScore': parseString,
+  'apiKeys.vpnapi': parseString,
+  'apiKeys.proxyCheck': parseString,
+  'thresholds.flag': parseNumber,
+  'thresholds.block': parseNumber,
+  'thresholds.challenge': parseNumber,
+  'riskLevels.medium': parseNumber,
+  'riskLevels.high': parseNumber,
+  'riskLevels.critical': parseNumber,
+  'weights.*': parseNumber,
+  'detectorTimeouts.*': parseNumber,
+  'degradation.*': parseString,
+  'userAgent.maxBrowserAgeDays': parseNumber,
+  'userAgent.maxAccountsPerDevice': parseNumber,
+  'userAgent.deviceWindowDays': parseNumber,
+  'velocity.ignoredDomains': parseList,
+  ...Object.fromEntries(LIST_TYPES.flatMap(type => [[`allowlist.${type}`, parseList], [`denylist.${type}`, parseList]]))
+};
+
+const fromEnvName = (segment: string) => segment.toLowerCase().replace(/_([a-z0-9])/g, (_, char: string) => char.toUpperCase());
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+
+/**
+ * Build a configuration from, in increasing priority, a
+ * `trial-abuse-guard.config.{json,js}` file, `TRIAL_GUARD_*` environment
+ * variables and `overrides`. Nested options such as `thresholds` are merged
+ * key by key. Secret references in `apiKeys` are resolved, and the result
+ * is validated.
+ */
+export function loadConfig(overrides: TrialAbuseConfig = {}, options: LoadConfigOptions = {}): TrialAbuseConfig {
+  const env = options.env ?? process.env;
+  const errors: string[] = [];
+
+  const fileConfig = readConfigFile(options, env);
+  const envConfig = readEnvConfig(env, errors);
+  const config = mergeConfig(mergeConfig(fileConfig, envConfig), overrides as Record<string, unknown>) as TrialAbuseConfig;
+
+  if (config.apiKeys && isPlainObject(config.apiKeys)) {
+    const cwd = options.cwd ?? process.cwd();
+    config.apiKeys = resolveSecrets(config.apiKeys as Record<string, unknown>, env, cwd, options.secretResolvers, errors);
+  }
+
+  if (errors.length > 0) {
+    throw new ConfigValidationError(errors);
+  }
+  validateConfig(config);
+  return config;
+}
+
+function readConfigFile(options: LoadConfigOptions, env: Record<string, string | undefined>): Record<string, unknown> {
+  if (options.configFile === false) {
+    return {};
+  }
+
+  const cwd = options.cwd ?? process.cwd();
+  const explicit = options.configFile ?? env[`${ENV_PREFIX}CONFIG`];
+  const file = explicit
+    ? path.resolve(cwd, explicit)
+    : CONFIG_FILES.map(name => path.join(cwd, name)).find(candidate => fs.existsSync(candidate));
+  if (!file) {
+    return {};
+  }
+
+  let loaded: unknown;
+  try {
+    if (file.endsWith('.json')) {
+      loaded = JSON.parse(fs.readFileSync(file, 'utf8'));
+    } else {
+      // Loaded synchronously so that loadConfig() stays synchronous
+      loaded = require(file);
+      if (isPlainObject(loaded) && loaded.__esModule) {
+        loaded = loaded.default;
+      }
+    }
+  } catch (error) {
+    throw new Error(`Failed to load config file ${file}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (!isPlainObject(loaded)) {
+    throw new Error(`Config file ${file} must export an object`);
+  }
+  return loaded;
+}
+
+function readEnvConfig(env: Record<string, string | undefined>, errors: string[]): Record<string, unknown> {
+  const config: Record<string, unknown> = {};
+
+  for (const [name, value] of Object.entries(env)) {
+    if (!name.startsWith(ENV_PREFIX) || name === `${ENV_PREFIX}CONFIG` || value === undefined) {
+      continue;
+    }
+
+    const segments = name.slice(ENV_PREFIX.length).split('__').map(fromEnvName);
+    const pattern = Object.keys(ENV_OPTIONS).find(option => {
+      const parts = option.split('.');
+      return parts.length === segments.length && parts.every((part, i) => part === '*' || part === segments[i]);
+    });
+    if (!pattern) {
+      errors.push(`${name} is not a recognized environment variable`);
+      continue;
+    }
+
+    const parsed = ENV_OPTIONS[pattern](value);
+    if (parsed === undefined) {
+      errors.push(`${name} must be a ${ENV_OPTIONS[pattern] === parseBoolean ? 'boolean' : 'number'}`);
+      continue;
+    }
+
+    let target = config;
+    segments.slice(0, -1).forEach(segment => {
+      target[segment] = target[segment] ?? {};
+      target = target[segment] as Record<string, unknown>;
+    });
+    target[segments[segments.length - 1]] = parsed;
+  }
+
+  return config;
+}
+
+function mergeConfig(base: Record<string, unknown>, override: Record<string, unknown>): Record<string, unknown> {
+  const merged = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    if (value === undefined) {
+      continue;
+    }
+    merged[key] = isPlainObject(value) && isPlainObject(merged[key])
+      ? mergeConfig(merged[key] as Record<string, unknown>, value)
+      : value;
+  }
+  return merged;
+}
+
+/**
+ * Replace `<scheme>:<reference>` values whose scheme has a resolver with the
+ * secret. `env:NAME` reads an environment variable and `file:/path` reads a
+ * file, such as a mounted Docker or Kubernetes secret, relative to `cwd`.
+ */
+function resolveSecrets(
+  apiKeys: Record<string, unknown>,
+  env: Record<string, string | undefined>,
+  cwd: string,
+  customResolvers: Record<string, SecretResolver> = {},
+  errors: string[]
+): Record<string, unknown> {
+  const resolvers: Record<string, SecretResolver> = {
+    env: name => env[name],
+    file: file => {
+      const resolved = path.resolve(cwd, file);
+      return fs.existsSync(resolved) ? fs.readFileSync(resolved, 'utf8').trim() : undefined;
+    },
+    ...customResolvers
+  };
+
+  const resolved: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(apiKeys)) {
+    const match = typeof value === 'string' ? value.match(/^([a-z][a-z0-9+.-]*):(.+)$/i) : null;
+    const resolver = match && resolvers[match[1]];
+    if (!resolver) {
+      resolved[key] = value;
+      continue;
+    }
+
+    const secret = resolver(match[2]);
+    if (secret === undefined || secret === '') {
+      errors.push(`apiKeys.${key} references ${value}, which could not be resolved`);
+    } else {
+      resolved[key] = secret;
+    }
+  }
+  return resolved;
+}
@@ -0,0 +1,145 @@
+import { AssessmentDiff, AssessmentRecord, FactorChange, ReasonCode, RiskScore, ScoringVersions } from '../types';
+
+const VERSION_KEYS: Array<keyof ScoringVersions> = ['config', 'library', 'domainList', 'policy'];
+
+const round = (value: number) => Math.round(value * 10) / 10;
+const signed = (value: number) => `${value > 0 ? '+' : ''}${value}`;
+const difference = (from: ReasonCode[], to: ReasonCode[]) => Array.from(new Set(to.filter(code => !from.includes(code))));
+
+/**
+ * Points each factor added to the weighted average overall score, following
+ * the guard's scoring. Unavailable for results computed by a `scorer`.
+ */
+function factorContributions(result: RiskScore, weights: Record<string, number>): Record<string, number> {
+  if (result.modelVersion) {
+    return {};
+  }
+
+  const counted = Object.entries(result.factors)
+    .filter(([name, factor]) => weights[name] !== undefined && factor.confidence > 0);
+  const totalWeight = counted.reduce((sum, [name, factor]) => sum + weights[name] * factor.confidence, 0);
+  const contributions: Record<string, number> = {};
+  for (const [name, factor] of Object.entries(result.factors)) {
+    if (weights[name] !== undefined) {
+      const share = totalWeight > 0 && factor.confidence > 0 ? (weights[name] * factor.confidence) / totalWeight : 0;
+      contributions[name] = round(factor.score * share);
+    }
+  }
+  return contributions;
+}
+
+function describeFactor(change: FactorChange): string {
+  const parts: string[] = [];
+  if (change.scoreBefore !== change.scoreAfter) {
+    parts.push(`score ${change.scoreBefore ?? 'none'} to ${change.scoreAfter ?? 'none'}`);
+  }
+  if (change.contributionBefore !== undefined && change.contributionAfter !== undefined) {
+    const moved = round(change.contributionAfter - change.contributionBefore);
+    if (moved !== 0) {
+      parts.push(`${signed(moved)} points overall`);
+    }
+  }
+  if (change.statusBefore !== change.statusAfter) {
+    parts.push(`status ${change.statusBefore ?? 'none'} to ${change.statusAfter ?? 'none'}`);
+  }
+  if (change.addedReasons.length > 0) {
+    parts.push(`new reasons ${change.addedReasons.join(', ')}`);
+  }
+  if (change.removedReasons.length > 0) {
+    parts.push(`dropped reasons ${change.removedReasons.join(', ')}`);
+  }
+  return `${change.factor}: ${parts.join('; ')}`;
+}
+
+// How much a change moved the score, to rank factors by
+function impact(change: FactorChange): number {
+  if (change.contributionBefore !== undefined && change.contributionAfter !== undefined) {
+    return Math.abs(change.contributionAfter - change.contributionBefore);
+  }
+  return Math.abs((change.scoreAfter ?? 0) - (change.scoreBefore ?? 0));
+}
+
+/**
+ * Compare two assessments of the same user and explain which factor changes
+ * moved the score. Factor contributions are computed from each record's
+ * weights, so a change of weights shows up even if the factor's own score
+ * didn't change.
+ */
+export function diffAssessments(before: AssessmentRecord, after: AssessmentRecord): AssessmentDiff {
+  if (before.email.toLowerCase() !== after.email.toLowerCase() || before.tenantId !== after.tenantId) {
+    throw new Error('Only assessments of the same user can be compared');
+  }
+
+  const contributionsBefore = factorContributions(before.result, before.weights);
+  const contributionsAfter = factorContributions(after.result, after.weights);
+  const names = Array.from(new Set([...Object.keys(before.result.factors), ...Object.keys(after.result.factors)]));
+
+  const factors: FactorChange[] = [];
+  for (const name of names) {
+    const from = before.result.factors[name];
+    const to = after.result.factors[name];
+    const codesBefore = (from?.reasons || []).map(reason => reason.code);
+    const codesAfter = (to?.reasons || []).map(reason => reason.code);
+    const change: FactorChange = {
+      factor: name,
+      scoreBefore: from?.score,
+      scoreAfter: to?.score,
+      contributionBefore: contributionsBefore[name],
+      contributionAfter: contributionsAfter[name],
+      statusBefore: from?.status,
+      statusAfter: to?.status,
+      addedReasons: difference(codesBefore, codesAfter),
+      removedReasons: difference(codesAfter, codesBefore)
+    };
+
+    if (
+      change.scoreBefore !== change.scoreAfter ||
+      change.contributionBefore !== change.contributionAfter ||
+      change.statusBefore !== change.statusAfter ||
+      change.addedReasons.length > 0 ||
+      change.removedReasons.length > 0
+    ) {
+      factors.push(change);
+    }
+  }
+  factors.sort((a, b) => impact(b) - impact(a));
+
+  const versionsBefore = before.result.versions;
+  const versionsAfter = after.result.versions;
+  const changedVersions = versionsBefore && versionsAfter
+    ? VERSION_KEYS.filter(key => versionsBefore[key] !== versionsAfter[key])
+    : [];
+
+  const { overall: scoreBefore, recommendation: recommendationBefore } = before.result;
+  const { overall: scoreAfter, recommendation: recommendationAfter } = after.result;
+  const scoreLine = scoreAfter === scoreBefore
+    ? `Score stayed at ${scoreAfter}`
+    : `Score ${scoreAfter > scoreBefore ? 'rose' : 'fell'} from ${scoreBefore} to ${scoreAfter}`;
+  const recommendationLine = recommendationAfter === recommendationBefore
+    ? `recommendation stayed ${recommendationAfter}`
+    : `recommendation changed from ${recommendationBefore} to ${recommendationAfter}`;
+
+  const explanation = [`${scoreLine}; ${recommendationLine}`, ...factors.map(describeFactor)];
+  if (before.result.appliedRule !== after.result.appliedRule) {
+    explanation.push(
+      `Deciding policy rule changed from ${before.result.appliedRule ?? 'none'} to ${after.result.appliedRule ?? 'none'}`
+    );
+  }
+  if (changedVersions.length > 0) {
+    explanation.push(`Assessed with different ${changedVersions.join(', ')} versions, so the scores may not be comparable`);
+  }
+
+  const reasonsBefore = before.result.reasons.map(reason => reason.code);
+  const reasonsAfter = after.result.reasons.map(reason => reason.code);
+  return {
+    scoreBefore,
+    scoreAfter,
+    recommendationBefore,
+    recommendationAfter,
+    factors,
+    addedReasons: difference(reasonsBefore, reasonsAfter),
+    removedReasons: difference(reasonsAfter, reasonsBefore),
+    changedVersions,
+    explanation
+  };
+}
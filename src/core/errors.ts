@@ -0,0 +1,13 @@
+/**
+ * Thrown for an invalid configuration. The message lists every problem;
+ * `errors` holds them one by one.
+ */
+export class ConfigValidationError extends Error {
+  readonly errors: string[];
+
+  constructor(errors: string[], subject = 'trial abuse') {
+    super(`Invalid ${subject} configuration: ${errors.join('; ')}`);
+    this.name = 'ConfigValidationError';
+    this.errors = errors;
+  }
+}
@@ -0,0 +1,57 @@
+import { EventEmitter } from 'events';
+import { Logger } from '../types';
+import { createLogger } from './logger';
+
+// Any listener signature fits never[]; the event map fixes the actual ones
+type Listener = (...args: never[]) => void;
+type MappedListener<Events extends { [E in keyof Events]: Listener }, E extends keyof Events> =
+  (...args: Parameters<Events[E]>) => void;
+
+/**
+ * EventEmitter with listener signatures checked against an event map.
+ * A listener that throws is logged and doesn't affect the emitter or the
+ * other listeners.
+ */
+export class TypedEventEmitter<Events extends { [E in keyof Events]: Listener }> {
+  private emitter = new EventEmitter();
+  // Subclasses replace it with the logger of their configuration
+  protected logger: Logger = createLogger();
+
+  on<E extends keyof Events & string>(event: E, listener: Events[E]): this {
+    this.emitter.on(event, listener as MappedListener<Events, E>);
+    return this;
+  }
+
+  once<E extends keyof Events & string>(event: E, listener: Events[E]): this {
+    this.emitter.once(event, listener as MappedListener<Events, E>);
+    return this;
+  }
+
+  off<E extends keyof Events & string>(event: E, listener: Events[E]): this {
+    this.emitter.off(event, listener as MappedListener<Events, E>);
+    return this;
+  }
+
+  removeAllListeners<E extends keyof Events & string>(event?: E): this {
+    if (event) {
+      this.emitter.removeAllListeners(event);
+    } else {
+      this.emitter.removeAllListeners();
+    }
+    return this;
+  }
+
+  listenerCount<E extends keyof Events & string>(event: E): number {
+    return this.emitter.listenerCount(event);
+  }
+
+  protected emit<E extends keyof Events & string>(event: E, ...args: Parameters<Events[E]>): void {
+    for (const listener of this.emitter.rawListeners(event)) {
+      try {
+        (listener as MappedListener<Events, E>)(...args);
+      } catch (error) {
+        this.logger.error(`Listener for "${event}" failed`, { error });
+      }
+    }
+  }
+}
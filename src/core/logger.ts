@@ -0,0 +1,80 @@
+import { Logger, LogFields, LogLevel, TrialAbuseConfig } from '../types';
+
+/** Log levels from most to least verbose */
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error', 'silent'];
+
+type LogMethod = Exclude<LogLevel, 'silent'>;
+
+const EMAIL_PATTERN = /([a-z0-9._%+-]+)@([a-z0-9.-]+\.[a-z]{2,})/gi;
+
+/**
+ * Mask the local part of every email address in a string, keeping its
+ * first character and the domain: `john.doe@example.com` becomes
+ * `j***@example.com`
+ */
+export function redactEmail(text: string): string {
+  return text.replace(EMAIL_PATTERN, (_, local: string, domain: string) => `${local[0]}***@${domain}`);
+}
+
+function redactValue(value: unknown): unknown {
+  if (typeof value === 'string') {
+    return redactEmail(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map(redactValue);
+  }
+  if (value instanceof Error) {
+    // Errors keep their stack, with the message redacted
+    const redacted = new Error(redactEmail(value.message));
+    redacted.name = value.name;
+    redacted.stack = value.stack && redactEmail(value.stack);
+    return redacted;
+  }
+  if (typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, redactValue(item)]));
+  }
+  return value;
+}
+
+/** Writes to the console, with fields as a second argument */
+export const consoleLogger: Logger = {
+  debug: (message, fields) => (fields ? console.debug(message, fields) : console.debug(message)),
+  info: (message, fields) => (fields ? console.log(message, fields) : console.log(message)),
+  warn: (message, fields) => (fields ? console.warn(message, fields) : console.warn(message)),
+  error: (message, fields) => (fields ? console.error(message, fields) : console.error(message))
+};
+
+/**
+ * Adapt a pino logger, whose methods take the fields before the message
+ */
+export function fromPino(pino: Record<LogMethod, (fields: LogFields, message: string) => void>): Logger {
+  return {
+    debug: (message, fields = {}) => pino.debug(fields, message),
+    info: (message, fields = {}) => pino.info(fields, message),
+    warn: (message, fields = {}) => pino.warn(fields, message),
+    error: (message, fields = {}) => pino.error(fields, message)
+  };
+}
+
+/**
+ * The logger for a configuration: `logger` (or the console) filtered by
+ * `logLevel`, with email addresses masked unless `redactEmails` is false
+ */
+export function createLogger(config: Pick<TrialAbuseConfig, 'logger' | 'logLevel' | 'redactEmails'> = {}): Logger {
+  const target = config.logger ?? consoleLogger;
+  const minimum = LOG_LEVELS.indexOf(config.logLevel ?? 'info');
+  const redact = config.redactEmails !== false;
+
+  const method = (level: LogMethod) => (message: string, fields?: LogFields) => {
+    if (LOG_LEVELS.indexOf(level) < minimum) {
+      return;
+    }
+    if (redact) {
+      target[level](redactEmail(message), fields && (redactValue(fields) as LogFields));
+    } else {
+      target[level](message, fields);
+    }
+  };
+
+  return { debug: method('debug'), info: method('info'), warn: method('warn'), error: method('error') };
+}
@@ -0,0 +1,186 @@
+import { TrialAbuseGuardEvents } from '../types';
+import { TrialAbuseGuard } from './TrialAbuseGuard';
+
+/** Content type of the Prometheus text exposition format */
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+/** Latency buckets in seconds, the same as prom-client's defaults */
+export const DEFAULT_LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+export interface MetricsOptions {
+  /** Prefix of every metric name (default 'trial_abuse_') */
+  prefix?: string;
+  /** Upper bounds (seconds) of the detector latency histogram buckets */
+  buckets?: number[];
+}
+
+type Labels = Record<string, string>;
+
+const escapeLabel = (value: string) => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabel(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function formatHeader(name: string, type: string, help: string): string[] {
+  return [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`];
+}
+
+// Counter keyed by its label values
+class Counter {
+  private name: string;
+  private help: string;
+  private values: Map<string, { labels: Labels; value: number }> = new Map();
+
+  constructor(name: string, help: string) {
+    this.name = name;
+    this.help = help;
+  }
+
+  inc(labels: Labels): void {
+    const key = formatLabels(labels);
+    const entry = this.values.get(key) ?? { labels, value: 0 };
+    entry.value++;
+    this.values.set(key, entry);
+  }
+
+  render(): string[] {
+    return [
+      ...formatHeader(this.name, 'counter', this.help),
+      ...Array.from(this.values.values()).map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`)
+    ];
+  }
+}
+
+// Histogram keyed by its label values, with cumulative buckets
+class Histogram {
+  private name: string;
+  private help: string;
+  private buckets: number[];
+  private series: Map<string, { labels: Labels; counts: number[]; sum: number; count: number }> = new Map();
+
+  constructor(name: string, help: string, buckets: number[]) {
+    this.name = name;
+    this.help = help;
+    this.buckets = buckets;
+  }
+
+  observe(labels: Labels, value: number): void {
+    const key = formatLabels(labels);
+    const entry = this.series.get(key) ?? { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) {
+        entry.counts[i]++;
+      }
+    });
+    entry.sum += value;
+    entry.count++;
+    this.series.set(key, entry);
+  }
+
+  render(): string[] {
+    const lines = formatHeader(this.name, 'histogram', this.help);
+    for (const { labels, counts, sum, count } of this.series.values()) {
+      this.buckets.forEach((bound, i) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${counts[i]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines;
+  }
+}
+
+/**
+ * Collects operational metrics from a guard's events and renders them in
+ * the Prometheus text exposition format: decisions by recommendation,
+ * detector latency and status, external provider requests by status, and
+ * the disposable domain list's size and age.
+ */
+export class TrialAbuseMetrics {
+  private guard: TrialAbuseGuard;
+  private prefix: string;
+  private decisions: Counter;
+  private detectorDuration: Histogram;
+  private detectorResults: Counter;
+  private providerRequests: Counter;
+  private detach: () => void;
+
+  constructor(guard: TrialAbuseGuard, options: MetricsOptions = {}) {
+    const buckets = [...(options.buckets ?? DEFAULT_LATENCY_BUCKETS)].sort((a, b) => a - b);
+    if (buckets.length === 0 || buckets.some(bound => !Number.isFinite(bound) || bound <= 0)) {
+      throw new Error('Metrics buckets must be positive numbers');
+    }
+
+    this.guard = guard;
+    this.prefix = options.prefix ?? 'trial_abuse_';
+    this.decisions = new Counter(`${this.prefix}decisions_total`, 'Assessments by recommendation');
+    this.detectorDuration = new Histogram(
+      `${this.prefix}detector_duration_seconds`,
+      'Time detectors took to analyze a user, excluding skipped ones',
+      buckets
+    );
+    this.detectorResults = new Counter(`${this.prefix}detector_results_total`, 'Detector runs by status');
+    this.providerRequests = new Counter(
+      `${this.prefix}provider_requests_total`,
+      'Requests to external IP and VPN lookup providers by status'
+    );
+
+    const onAssessment: TrialAbuseGuardEvents['assessment.completed'] = ({ result }) => {
+      this.decisions.inc({ recommendation: result.recommendation });
+    };
+    const onFactor: TrialAbuseGuardEvents['factor.completed'] = ({ factor, result, durationMs }) => {
+      const status = result.status ?? 'ok';
+      this.detectorResults.inc({ detector: factor, status });
+      if (status !== 'skipped') {
+        this.detectorDuration.observe({ detector: factor }, durationMs / 1000);
+      }
+    };
+    const onProvider: TrialAbuseGuardEvents['provider.completed'] = ({ provider, status }) => {
+      this.providerRequests.inc({ provider, status });
+    };
+
+    guard.on('assessment.completed', onAssessment);
+    guard.on('factor.completed', onFactor);
+    guard.on('provider.completed', onProvider);
+    this.detach = () => {
+      guard.off('assessment.completed', onAssessment);
+      guard.off('factor.completed', onFactor);
+      guard.off('provider.completed', onProvider);
+    };
+  }
+
+  /**
+   * Stop collecting; the values collected so far can still be rendered
+   */
+  stop(): void {
+    this.detach();
+  }
+
+  /**
+   * All metrics in the Prometheus text exposition format, served with
+   * `PROMETHEUS_CONTENT_TYPE`
+   */
+  render(): string {
+    const stats = this.guard.getTempEmailStats();
+    const domainCount = `${this.prefix}temp_domains`;
+    const domainAge = `${this.prefix}temp_domains_last_update_age_seconds`;
+
+    const lines = [
+      ...this.decisions.render(),
+      ...this.detectorDuration.render(),
+      ...this.detectorResults.render(),
+      ...this.providerRequests.render(),
+      ...formatHeader(domainCount, 'gauge', 'Domains on the disposable email domain list'),
+      `${domainCount} ${stats.totalDomains}`,
+      ...formatHeader(domainAge, 'gauge', 'Seconds since the disposable email domain list was last updated')
+    ];
+    if (stats.lastUpdate) {
+      lines.push(`${domainAge} ${(Date.now() - stats.lastUpdate.getTime()) / 1000}`);
+    }
+
+    return `${lines.join('\n')}\n`;
+  }
+}
@@ -0,0 +1,75 @@
+import { DetectionStats, OutcomeLabel, OutcomeRecord, OutcomeStats, RiskScore } from '../types';
+
+export const OUTCOME_LABELS: OutcomeLabel[] = ['fraud', 'legit'];
+
+/**
+ * The latest label of each email
+ */
+export function latestOutcomes(records: OutcomeRecord[]): OutcomeRecord[] {
+  const latest = new Map<string, OutcomeRecord>();
+  for (const record of records) {
+    const current = latest.get(record.email);
+    if (!current || record.reportedAt >= current.reportedAt) {
+      latest.set(record.email, record);
+    }
+  }
+  return Array.from(latest.values());
+}
+
+/**
+ * Compare labeled users with the assessment each of them received
+ */
+export function computeOutcomeStats(
+  labeled: number,
+  assessed: Array<{ label: OutcomeLabel; result: RiskScore }>
+): OutcomeStats {
+  const recommendation = createCounts();
+  const factors: Record<string, DetectionStats> = {};
+
+  for (const { label, result } of assessed) {
+    // In shadow mode the returned recommendation is always 'allow'
+    const decided = result.shadowRecommendation ?? result.recommendation;
+    count(recommendation, decided !== 'allow', label);
+
+    for (const [name, factor] of Object.entries(result.factors)) {
+      if (factor.status && factor.status !== 'ok') {
+        continue;
+      }
+      factors[name] = factors[name] || createCounts();
+      count(factors[name], factor.detected, label);
+    }
+  }
+
+  return {
+    labeled,
+    assessed: assessed.length,
+    recommendation: withRates(recommendation),
+    factors: Object.fromEntries(Object.entries(factors).map(([name, stats]) => [name, withRates(stats)]))
+  };
+}
+
+function createCounts(): DetectionStats {
+  return { truePositives: 0, falsePositives: 0, trueNegatives: 0, falseNegatives: 0 };
+}
+
+function count(stats: DetectionStats, detected: boolean, label: OutcomeLabel): void {
+  if (label === 'fraud') {
+    if (detected) stats.truePositives++;
+    else stats.falseNegatives++;
+  } else {
+    if (detected) stats.falsePositives++;
+    else stats.trueNegatives++;
+  }
+}
+
+function withRates(stats: DetectionStats): DetectionStats {
+  const ratio = (numerator: number, denominator: number) =>
+    denominator > 0 ? numerator / denominator : undefined;
+
+  return {
+    ...stats,
+    precision: ratio(stats.truePositives, stats.truePositives + stats.falsePositives),
+    recall: ratio(stats.truePositives, stats.truePositives + stats.falseNegatives),
+    falsePositiveRate: ratio(stats.falsePositives, stats.falsePositives + stats.trueNegatives)
+  };
+}
@@ -0,0 +1,77 @@
+import { RiskReason, BuiltInReasonCode, IPAnalysisResult } from '../types';
+
+type ReasonRenderer = (evidence: Record<string, unknown>) => string;
+
+const listEmails = (evidence: Record<string, unknown>) =>
+  ((evidence.matches || []) as Array<{ email: string }>).map(match => match.email).join(', ');
+
+/**
+ * English templates for the built-in reason codes
+ */
+const REASON_MESSAGES: Record<BuiltInReasonCode, ReasonRenderer> = {
+  EMAIL_SIMILAR: e => `Similar to existing emails: ${listEmails(e)}`,
+  EMAIL_SIMILAR_NUMBERED: e => `Numbered variant of existing emails: ${listEmails(e)}`,
+  EMAIL_SIMILAR_SEQUENTIAL: e => `Sequentially numbered variant of existing emails: ${listEmails(e)}`,
+  EMAIL_DISPOSABLE_LIST: e => `Temporary/disposable email domain: ${e.domain}`,
+  EMAIL_SUSPICIOUS_DOMAIN_PATTERN: e => `Email domain matches disposable pattern "${e.pattern}"`,
+  EMAIL_SUSPICIOUS_LOCAL_PATTERN: e => `Email address matches disposable pattern "${e.pattern}"`,
+  EMAIL_SUSPICIOUS_TLD: e => `Email domain uses a TLD common for disposable email: ${e.tld}`,
+  EMAIL_SHORT_DOMAIN: e => `Email domain is unusually short: ${e.domain}`,
+  EMAIL_DOMAIN_UNUSUAL_CHARS: e => `Email domain has ${e.digits} digits and ${e.hyphens} hyphens`,
+  EMAIL_DOMAIN_RANDOM: e => `Email domain looks randomly generated: ${e.domain}`,
+  IP_HIGH_RISK: e => `IP Risk Score: ${e.riskScore}, Country: ${e.country || 'Unknown'}`,
+  IP_VPN: () => 'VPN detected',
+  IP_PROXY: () => 'Proxy detected',
+  IP_TOR_EXIT: () => 'Tor exit node detected',
+  POLICY_RULE_MATCHED: e => `Policy rule "${e.ruleId}" applied: ${e.action}`,
+  VELOCITY_IP: e => `${e.count} accounts from IP ${e.ipAddress} in the last ${e.windowMinutes} minutes`,
+  VELOCITY_SUBNET: e => `${e.count} accounts from subnet ${e.cidr} in the last ${e.windowMinutes} minutes`,
+  VELOCITY_DOMAIN: e => `${e.count} accounts with domain ${e.emailDomain} in the last ${e.windowMinutes} minutes`,
+  UA_EMPTY: () => 'Empty user agent',
+  UA_HEADLESS: e => `Headless browser user agent: ${e.tool}`,
+  UA_AUTOMATION: e => `Automation library user agent: ${e.tool}`,
+  UA_OUTDATED_BROWSER: e => `Outdated browser: ${e.browser} ${e.version}`,
+  UA_IMPOSSIBLE_VERSION: e => `Browser version not yet released: ${e.browser} ${e.version}`,
+  UA_SHARED_DEVICE: e => `${e.count} accounts with the same user agent from IP ${e.ipAddress}`,
+  LIST_ALLOWED: e => `Allowlisted ${e.type}: ${e.value}`,
+  LIST_DENIED: e => `Denylisted ${e.type}: ${e.value}`,
+  CHALLENGE_PASSED: e => `Passed ${e.type} challenge`,
+  CHALLENGE_FAILED: e => `Failed ${e.type} challenge`,
+  DETECTOR_ERROR: e => `${e.detector} check failed`,
+  DETECTOR_TIMEOUT: e => `${e.detector} check timed out after ${e.timeoutMs}ms`,
+  DETECTOR_SKIPPED: e => `${e.detector} check skipped`
+};
+
+/**
+ * Render a reason as human-readable text. An explicit `message` wins over
+ * the built-in template; unknown codes render as the code itself.
+ */
+export function renderReason(reason: RiskReason): string {
+  if (reason.message) {
+    return reason.message;
+  }
+
+  const render = REASON_MESSAGES[reason.code as BuiltInReasonCode];
+  return render ? render(reason.evidence || {}) : reason.code;
+}
+
+/**
+ * Render a list of reasons as a single line
+ */
+export function renderReasons(reasons: RiskReason[]): string {
+  return reasons.map(renderReason).join('; ');
+}
+
+/**
+ * Reasons for the VPN/proxy/Tor flags of an IP analysis result
+ */
+export function getNetworkReasons(result: IPAnalysisResult): RiskReason[] {
+  const reasons: RiskReason[] = [];
+  const evidence = { riskScore: result.riskScore, asn: result.asn, isp: result.isp };
+
+  if (result.isVPN) reasons.push({ code: 'IP_VPN', evidence });
+  if (result.isProxy) reasons.push({ code: 'IP_PROXY', evidence });
+  if (result.isTor) reasons.push({ code: 'IP_TOR_EXIT', evidence });
+
+  return reasons;
+}
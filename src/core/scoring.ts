@@ -0,0 +1,153 @@
+import { createHash } from 'crypto';
+import { TrialAbuseConfig, TenantConfig, RiskThresholds, RiskLevelThresholds, DegradationMode } from '../types';
+
+export const DEFAULT_THRESHOLDS: RiskThresholds = {
+  flag: 50,
+  block: 80
+};
+
+export const DEFAULT_RISK_LEVELS: RiskLevelThresholds = {
+  medium: 30,
+  high: 60,
+  critical: 80
+};
+
+export const DEGRADATION_MODES: DegradationMode[] = ['ignore', 'flag', 'fail-closed'];
+
+export function resolveThresholds(config: TrialAbuseConfig): RiskThresholds {
+  return { ...DEFAULT_THRESHOLDS, ...config.thresholds };
+}
+
+export function resolveRiskLevels(config: TrialAbuseConfig): RiskLevelThresholds {
+  return { ...DEFAULT_RISK_LEVELS, ...config.riskLevels };
+}
+
+/**
+ * The scoring configuration of a tenant: its weights, thresholds and risk
+ * levels merged over the top-level ones, and its policies and scorer if it
+ * has any
+ */
+export function resolveTenantConfig(config: TrialAbuseConfig, tenant: TenantConfig = {}): TrialAbuseConfig {
+  return {
+    ...config,
+    weights: { ...config.weights, ...tenant.weights },
+    thresholds: { ...config.thresholds, ...tenant.thresholds },
+    riskLevels: { ...config.riskLevels, ...tenant.riskLevels },
+    policies: tenant.policies ?? config.policies,
+    scorer: tenant.scorer ?? config.scorer
+  };
+}
+
+/**
+ * Problems with weights, thresholds, timeouts and degradation modes,
+ * including each tenant's
+ */
+export function collectScoringConfigErrors(config: TrialAbuseConfig): string[] {
+  const baseErrors = collectScoringErrors(config);
+  const errors = [...baseErrors];
+  for (const [tenantId, tenant] of Object.entries(config.tenants || {})) {
+    // Problems inherited from the top-level settings are only reported once
+    collectScoringErrors(resolveTenantConfig(config, tenant))
+      .filter(error => !baseErrors.includes(error))
+      .forEach(error => errors.push(`tenants.${tenantId}.${error}`));
+  }
+
+  const isTimeout = (value: unknown) =>
+    typeof value === 'number' && Number.isFinite(value) && value > 0;
+  if (config.detectorTimeout !== undefined && !isTimeout(config.detectorTimeout)) {
+    errors.push('detectorTimeout must be a positive number of milliseconds');
+  }
+  for (const [name, timeout] of Object.entries(config.detectorTimeouts || {})) {
+    if (!isTimeout(timeout)) {
+      errors.push(`detectorTimeouts.${name} must be a positive number of milliseconds`);
+    }
+  }
+  if (config.assessmentTimeout !== undefined && !isTimeout(config.assessmentTimeout)) {
+    errors.push('assessmentTimeout must be a positive number of milliseconds');
+  }
+
+  const modes = DEGRADATION_MODES.join(', ');
+  for (const [name, mode] of Object.entries(config.degradation || {})) {
+    if (!DEGRADATION_MODES.includes(mode)) {
+      errors.push(`degradation.${name} must be one of ${modes}`);
+    }
+  }
+  if (config.defaultDegradation !== undefined && !DEGRADATION_MODES.includes(config.defaultDegradation)) {
+    errors.push(`defaultDegradation must be one of ${modes}`);
+  }
+
+  return errors;
+}
+
+function collectScoringErrors(config: TrialAbuseConfig): string[] {
+  const errors: string[] = [];
+  const isScore = (value: unknown) =>
+    typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 100;
+
+  for (const [name, weight] of Object.entries(config.weights || {})) {
+    if (typeof weight !== 'number' || !Number.isFinite(weight) || weight < 0) {
+      errors.push(`weights.${name} must be a non-negative number`);
+    }
+  }
+
+  const thresholds = resolveThresholds(config);
+  for (const key of Object.keys(thresholds) as Array<keyof RiskThresholds>) {
+    if (!isScore(thresholds[key])) {
+      errors.push(`thresholds.${key} must be a number between 0 and 100`);
+    }
+  }
+  if (thresholds.flag > thresholds.block) {
+    errors.push('thresholds.flag must not be greater than thresholds.block');
+  }
+  if (thresholds.challenge !== undefined && (thresholds.challenge < thresholds.flag || thresholds.challenge > thresholds.block)) {
+    errors.push('thresholds.challenge must be between thresholds.flag and thresholds.block');
+  }
+
+  const levels = resolveRiskLevels(config);
+  for (const key of Object.keys(levels) as Array<keyof RiskLevelThresholds>) {
+    if (!isScore(levels[key])) {
+      errors.push(`riskLevels.${key} must be a number between 0 and 100`);
+    }
+  }
+  if (levels.medium > levels.high || levels.high > levels.critical) {
+    errors.push('riskLevels must be ordered medium <= high <= critical');
+  }
+
+  return errors;
+}
+
+/**
+ * Fold the integration adapters' `blockThreshold`/`flagThreshold` options
+ * into `thresholds`, so the adapters and the core share one set of cutoffs.
+ */
+export function applyThresholdAliases<T extends TrialAbuseConfig & { blockThreshold?: number; flagThreshold?: number }>(
+  config: T
+): T {
+  const thresholds = { ...config.thresholds };
+  if (config.blockThreshold !== undefined) thresholds.block = config.blockThreshold;
+  if (config.flagThreshold !== undefined) thresholds.flag = config.flagThreshold;
+
+  return { ...config, thresholds };
+}
+
+// JSON with object keys sorted, so equal values always serialize the same way
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Short stable hash of the scoring inputs that determine a decision
+ */
+export function fingerprintConfig(scoring: Record<string, unknown>): string {
+  return createHash('sha256').update(stableStringify(scoring)).digest('hex').slice(0, 12);
+}
@@ -0,0 +1,99 @@
+import type { SpanStatusCode, Tracer } from '@opentelemetry/api';
+import { RiskFactor, RiskScore, SpanAttributes, SpanLike, StorageAdapter, TracerLike } from '../types';
+import { STORAGE_METHODS } from './validation';
+
+// SpanStatusCode.ERROR. The enum isn't imported so that @opentelemetry/api
+// is only needed by applications that pass a tracer.
+const STATUS_ERROR: SpanStatusCode = 2;
+
+// Resolves to never, failing every caller, if an OpenTelemetry tracer stops
+// fitting the TracerLike the public types declare
+type CheckedTracer = Tracer extends TracerLike ? TracerLike : never;
+
+/**
+ * Run `fn` in a span that is active while it runs (so spans started inside
+ * become its children) and ends when it settles. A rejection marks the span
+ * as failed and records the error's name only, as messages from providers
+ * and adapters may contain emails or IPs. Without a tracer, `fn` runs as is.
+ */
+export async function withSpan<T>(
+  tracer: CheckedTracer | undefined,
+  name: string,
+  fn: (span?: SpanLike) => Promise<T>,
+  attributes: SpanAttributes = {}
+): Promise<T> {
+  if (!tracer) {
+    return fn();
+  }
+
+  return tracer.startActiveSpan(name, { attributes }, async span => {
+    try {
+      return await fn(span);
+    } catch (error) {
+      const errorName = error instanceof Error ? error.name : 'Error';
+      span.recordException({ name: errorName });
+      span.setStatus({ code: STATUS_ERROR, message: errorName });
+      throw error;
+    } finally {
+      span.end();
+    }
+  });
+}
+
+/**
+ * Record an assessment's outcome on a span. Only scores, decisions and
+ * reason codes are recorded, never the user's email, IP or user agent.
+ */
+export function setResultAttributes(span: SpanLike | undefined, result: RiskScore): void {
+  span?.setAttributes({
+    'trial_abuse.score': result.overall,
+    'trial_abuse.recommendation': result.recommendation,
+    'trial_abuse.reason_codes': result.reasons.map(reason => reason.code),
+    ...(result.shadowRecommendation && { 'trial_abuse.shadow_recommendation': result.shadowRecommendation }),
+    ...(result.appliedRule && { 'trial_abuse.applied_rule': result.appliedRule }),
+    ...(result.challenge && { 'trial_abuse.challenge_type': result.challenge.type }),
+    ...(result.modelVersion && { 'trial_abuse.model_version': result.modelVersion })
+  });
+}
+
+/**
+ * Record a detector's factor on its span, marking errors and timeouts
+ */
+export function setFactorAttributes(span: SpanLike | undefined, factor: RiskFactor): void {
+  const status = factor.status ?? 'ok';
+  span?.setAttributes({
+    'trial_abuse.factor.status': status,
+    'trial_abuse.factor.score': factor.score,
+    'trial_abuse.factor.detected': factor.detected,
+    'trial_abuse.factor.reason_codes': (factor.reasons || []).map(reason => reason.code)
+  });
+  if (status === 'error' || status === 'timeout') {
+    span?.setStatus({ code: STATUS_ERROR, message: `Detector ${status === 'error' ? 'failed' : 'timed out'}` });
+  }
+}
+
+/**
+ * Wrap a storage adapter so that each storage method call runs in a
+ * `trial_abuse.storage.<method>` span. Arguments aren't recorded; array
+ * and count results are recorded by size.
+ */
+export function traceStorageAdapter(adapter: StorageAdapter, tracer: CheckedTracer): StorageAdapter {
+  return new Proxy(adapter, {
+    get(target, property, receiver) {
+      const value = Reflect.get(target, property, receiver);
+      if (typeof value !== 'function' || typeof property !== 'string' || !STORAGE_METHODS.includes(property)) {
+        return value;
+      }
+
+      return (...args: unknown[]) => withSpan(tracer, `trial_abuse.storage.${property}`, async span => {
+        const result = await value.apply(target, args);
+        if (Array.isArray(result)) {
+          span?.setAttribute('trial_abuse.storage.results', result.length);
+        } else if (typeof result === 'number') {
+          span?.setAttribute('trial_abuse.storage.count', result);
+        }
+        return result;
+      });
+    }
+  });
+}
@@ -0,0 +1,300 @@
+import { TrialAbuseConfig } from '../types';
+import { ConfigValidationError } from './errors';
+import { collectScoringConfigErrors } from './scoring';
+import { PolicyEngine } from './PolicyEngine';
+import { VelocityDetector } from '../detectors/VelocityDetector';
+import { UserAgentDetector } from '../detectors/UserAgentDetector';
+import { AccessListService } from '../services/AccessListService';
+import { levenshtein } from '../utils/string';
+import { LOG_LEVELS } from './logger';
+import { CHALLENGE_TYPES } from './challenges';
+
+/**
+ * Checks the value of one option, returning what is wrong with it
+ */
+export type OptionCheck = (value: unknown) => string | undefined;
+
+/** Checks keyed by option name; options not listed are reported as unknown */
+export type OptionSchema = Record<string, OptionCheck>;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const checks = {
+  // For options whose value is validated elsewhere
+  any: () => undefined,
+  boolean: (value: unknown) => (typeof value === 'boolean' ? undefined : 'must be a boolean'),
+  string: (value: unknown) => (typeof value === 'string' ? undefined : 'must be a string'),
+  nonEmptyString: (value: unknown) => (typeof value === 'string' && value ? undefined : 'must be a non-empty string'),
+  function: (value: unknown) => (typeof value === 'function' ? undefined : 'must be a function'),
+  oneOf: (values: readonly string[]): OptionCheck => value =>
+    values.includes(value as string) ? undefined : `must be one of ${values.join(', ')}`,
+  object: (value: unknown) => (isObject(value) ? undefined : 'must be an object'),
+  array: (value: unknown) => (Array.isArray(value) ? undefined : 'must be an array'),
+  stringArray: (value: unknown) =>
+    Array.isArray(value) && value.every(item => typeof item === 'string') ? undefined : 'must be an array of strings',
+  positiveNumber: (value: unknown) =>
+    typeof value === 'number' && Number.isFinite(value) && value > 0 ? undefined : 'must be a positive number',
+  integerBetween: (min: number, max: number): OptionCheck => value =>
+    Number.isInteger(value) && (value as number) >= min && (value as number) <= max
+      ? undefined
+      : `must be an integer between ${min} and ${max}`,
+  numberBetween: (min: number, max: number): OptionCheck => value =>
+    typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max
+      ? undefined
+      : `must be a number between ${min} and ${max}`
+};
+
+// Nested options are only checked for their shape here; collectConfigErrors()
+// validates their contents
+const CONFIG_SCHEMA: OptionSchema = {
+  emailSimilarityCheck: checks.boolean,
+  emailSimilarityThreshold: checks.numberBetween(0, 1),
+  tempEmailCheck: checks.boolean,
+  ipCheck: checks.boolean,
+  vpnCheck: checks.boolean,
+  velocityCheck: checks.boolean,
+  velocity: checks.object,
+  userAgentCheck: checks.boolean,
+  userAgent: checks.object,
+  customDisposableDomains: checks.stringArray,
+  tempEmailAutoUpdate: checks.boolean,
+  tempEmailUpdateInterval: checks.positiveNumber,
+  tempEmailStoragePath: checks.nonEmptyString,
+  apiKeys: checks.object,
+  storageAdapter: checks.object,
+  detectors: checks.array,
+  weights: checks.object,
+  thresholds: checks.object,
+  riskLevels: checks.object,
+  policies: checks.array,
+  scorer: checks.object,
+  challengeType: checks.oneOf(CHALLENGE_TYPES),
+  challenges: checks.object,
+  shadowMode: checks.boolean,
+  detectorTimeout: checks.any,
+  detectorTimeouts: checks.object,
+  assessmentTimeout: checks.any,
+  degradation: checks.object,
+  defaultDegradation: checks.any,
+  allowlist: checks.object,
+  denylist: checks.object,
+  tenants: checks.object,
+  logger: value =>
+    isObject(value) && ['debug', 'info', 'warn', 'error'].every(level => typeof value[level] === 'function')
+      ? undefined
+      : 'must have debug, info, warn and error methods',
+  logLevel: checks.oneOf(LOG_LEVELS),
+  redactEmails: checks.boolean,
+  tracer: value =>
+    isObject(value) && typeof value.startActiveSpan === 'function' ? undefined : 'must be an OpenTelemetry tracer'
+};
+
+const TENANT_OPTIONS = [
+  'weights', 'thresholds', 'riskLevels', 'policies', 'scorer', 'allowlist', 'denylist', 'customDisposableDomains'
+];
+
+const keysOf = (...keys: string[]): OptionSchema => Object.fromEntries(keys.map(key => [key, checks.any]));
+
+const API_KEY_SCHEMA: OptionSchema = {
+  ipQualityScore: checks.string,
+  vpnapi: checks.string,
+  proxyCheck: checks.string
+};
+
+const REQUIRED_STORAGE_METHODS = ['getExistingEmails', 'getExistingIPs', 'storeUserData'];
+const OPTIONAL_STORAGE_METHODS = [
+  'countSignups', 'listUsers', 'storeAssessment', 'queryAssessments', 'getAccessListEntries',
+  'storeAccessListEntries', 'removeAccessListEntries', 'storeOutcome', 'getOutcomes',
+  'storeChallenge', 'getChallenge', 'getChallenges', 'completeChallenge', 'connect', 'disconnect'
+];
+
+/** Every method of the `StorageAdapter` interface */
+export const STORAGE_METHODS = [...REQUIRED_STORAGE_METHODS, ...OPTIONAL_STORAGE_METHODS];
+
+/**
+ * Check options against a schema: unknown options (with a suggestion for
+ * likely typos), missing required options and values that fail their check.
+ * Errors are prefixed with `path`.
+ */
+export function checkOptions(options: unknown, schema: OptionSchema, path = '', required: string[] = []): string[] {
+  if (!isObject(options)) {
+    return [`${path ? path.slice(0, -1) : 'configuration'} must be an object`];
+  }
+
+  const errors: string[] = [];
+  for (const [key, value] of Object.entries(options)) {
+    const check = schema[key];
+    if (!check) {
+      const suggestion = suggestOption(key, Object.keys(schema));
+      errors.push(`${path}${key} is not a valid option${suggestion ? ` (did you mean ${path}${suggestion}?)` : ''}`);
+    } else if (value !== undefined) {
+      const problem = check(value);
+      if (problem) {
+        errors.push(`${path}${key} ${problem}`);
+      }
+    }
+  }
+
+  required
+    .filter(key => options[key] === undefined)
+    .forEach(key => errors.push(`${path}${key} is required`));
+
+  return errors;
+}
+
+function suggestOption(key: string, known: string[]): string | undefined {
+  const lower = key.toLowerCase();
+  let best: string | undefined;
+  let bestDistance = Infinity;
+  for (const option of known) {
+    const distance = levenshtein(lower, option.toLowerCase());
+    if (distance < bestDistance) {
+      best = option;
+      bestDistance = distance;
+    }
+  }
+  return bestDistance <= Math.max(2, Math.floor(key.length / 4)) ? best : undefined;
+}
+
+/**
+ * Every problem with a guard configuration, one per invalid field.
+ * `extraSchema` lists options that wrappers such as the integration
+ * adapters accept on top of the guard's own.
+ */
+export function collectConfigErrors(config: unknown, extraSchema: OptionSchema = {}): string[] {
+  const errors = checkOptions(config, { ...CONFIG_SCHEMA, ...extraSchema });
+  if (!isObject(config)) {
+    return errors;
+  }
+
+  // Only descend into options whose shape is valid
+  const valid = (key: string) => config[key] !== undefined && !errors.some(error => error.startsWith(`${key} `));
+  const typed = config as TrialAbuseConfig;
+
+  if (valid('apiKeys')) {
+    errors.push(...checkOptions(typed.apiKeys, API_KEY_SCHEMA, 'apiKeys.'));
+  }
+  if (valid('storageAdapter')) {
+    errors.push(...collectStorageAdapterErrors(typed.storageAdapter as unknown as Record<string, unknown>));
+  }
+  if (valid('detectors')) {
+    errors.push(...collectDetectorErrors(typed.detectors as unknown[]));
+  }
+  if (valid('scorer')) {
+    const scorer = typed.scorer as unknown as Record<string, unknown>;
+    if (typeof scorer.score !== 'function') errors.push('scorer.score must be a function');
+    if (typeof scorer.version !== 'string' || !scorer.version) errors.push('scorer.version must be a non-empty string');
+  }
+  if (valid('velocity')) {
+    const shapeErrors = checkOptions(typed.velocity, { rules: checks.array, ignoredDomains: checks.any }, 'velocity.');
+    errors.push(...shapeErrors);
+    if (!shapeErrors.some(error => error.startsWith('velocity.rules '))) {
+      errors.push(...VelocityDetector.collectErrors(typed.velocity));
+    }
+  }
+  if (valid('userAgent')) {
+    errors.push(...checkOptions(typed.userAgent, keysOf('maxBrowserAgeDays', 'maxAccountsPerDevice', 'deviceWindowDays'), 'userAgent.'));
+    errors.push(...UserAgentDetector.collectErrors(typed.userAgent));
+  }
+  if (valid('challenges')) {
+    errors.push(...checkOptions(
+      typed.challenges,
+      { passTtlHours: checks.positiveNumber, failureWindowHours: checks.positiveNumber },
+      'challenges.'
+    ));
+  }
+  if (valid('policies')) {
+    errors.push(...PolicyEngine.collectErrors(typed.policies as []));
+  }
+
+  const tenantsValid = valid('tenants');
+  const tenantSchema = Object.fromEntries(TENANT_OPTIONS.map(key => [key, CONFIG_SCHEMA[key]]));
+  const tenantErrors = tenantsValid
+    ? Object.entries(typed.tenants || {}).flatMap(([id, tenant]) => checkOptions(tenant, tenantSchema, `tenants.${id}.`))
+    : [];
+  errors.push(...tenantErrors);
+
+  // Unknown threshold keys would otherwise be ignored
+  const scopes: Array<[string, Record<string, unknown>]> = [['', config]];
+  if (tenantErrors.length === 0) {
+    Object.entries(typed.tenants || {}).forEach(([id, tenant]) => scopes.push([`tenants.${id}.`, tenant as Record<string, unknown>]));
+  }
+  for (const [path, scope] of scopes) {
+    if (isObject(scope.thresholds)) errors.push(...checkOptions(scope.thresholds, keysOf('flag', 'challenge', 'block'), `${path}thresholds.`));
+    if (isObject(scope.riskLevels)) {
+      errors.push(...checkOptions(scope.riskLevels, keysOf('medium', 'high', 'critical'), `${path}riskLevels.`));
+    }
+  }
+
+  // The scoring and list validators expect the nested options to have the right shape
+  const scoringKeys = ['weights', 'thresholds', 'riskLevels', 'detectorTimeouts', 'degradation'];
+  if (tenantErrors.length === 0 && !scoringKeys.some(key => config[key] !== undefined && !valid(key))) {
+    errors.push(...collectScoringConfigErrors(typed));
+    for (const [id, tenant] of Object.entries(typed.tenants || {})) {
+      if (tenant.policies) {
+        errors.push(...PolicyEngine.collectErrors(tenant.policies).map(error => `tenants.${id}.${error}`));
+      }
+    }
+  }
+  if (tenantErrors.length === 0 && !['allowlist', 'denylist'].some(key => config[key] !== undefined && !valid(key))) {
+    errors.push(...AccessListService.collectErrors(typed));
+  }
+
+  return errors;
+}
+
+function collectStorageAdapterErrors(adapter: Record<string, unknown>): string[] {
+  const errors: string[] = [];
+  for (const method of REQUIRED_STORAGE_METHODS) {
+    if (typeof adapter[method] !== 'function') {
+      errors.push(`storageAdapter.${method} must be a function`);
+    }
+  }
+  for (const method of OPTIONAL_STORAGE_METHODS) {
+    if (adapter[method] !== undefined && typeof adapter[method] !== 'function') {
+      errors.push(`storageAdapter.${method} must be a function`);
+    }
+  }
+  return errors;
+}
+
+function collectDetectorErrors(detectors: unknown[]): string[] {
+  const errors: string[] = [];
+  detectors.forEach((detector, index) => {
+    const label = `detectors[${index}]`;
+    if (!isObject(detector)) {
+      errors.push(`${label} must be an object`);
+      return;
+    }
+    if (typeof detector.name !== 'string' || !detector.name) {
+      errors.push(`${label}.name must be a non-empty string`);
+    }
+    if (typeof detector.weight !== 'number' || !Number.isFinite(detector.weight) || detector.weight < 0) {
+      errors.push(`${label}.weight must be a non-negative number`);
+    }
+    if (typeof detector.analyze !== 'function') {
+      errors.push(`${label}.analyze must be a function`);
+    }
+  });
+  return errors;
+}
+
+/**
+ * The configuration without the options of `schema`, e.g. to pass a
+ * wrapper's configuration on to the guard
+ */
+export function withoutOptions<T extends TrialAbuseConfig>(config: T, schema: OptionSchema): TrialAbuseConfig {
+  return Object.fromEntries(Object.entries(config).filter(([key]) => !(key in schema)));
+}
+
+/**
+ * Validate a guard configuration without creating a guard, e.g. in CI.
+ * Throws a `ConfigValidationError` listing every problem found.
+ */
+export function validateConfig(config: unknown, extraSchema: OptionSchema = {}): void {
+  const errors = collectConfigErrors(config, extraSchema);
+  if (errors.length > 0) {
+    throw new ConfigValidationError(errors);
+  }
+}
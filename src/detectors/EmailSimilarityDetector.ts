@@ -1,38 +1,60 @@
-// Simple levenshtein distance implementation
-function levenshtein(a: string, b: string): number {
-  const matrix = Array(b.length + 1).fill(null).map(() => Array(a.length + 1).fill(null));
-  
-  for (let i = 0; i <= a.length; i += 1) {
-    matrix[0][i] = i;
+import { TrialAbuseConfig, EmailSimilarityResult, Detector, DetectionContext, RiskFactor, RiskReason, UserData } from '../types';
+import { renderReasons } from '../core/reasons';
+import { isSameTenant } from '../utils/tenant';
+import { levenshtein } from '../utils/string';
+
+export class EmailSimilarityDetector implements Detector {
+  readonly name = 'emailSimilarity';
+  readonly weight = 0.3;
+  private config: TrialAbuseConfig;
+
+  constructor(config: TrialAbuseConfig) {
+    this.config = config;
   }
-  
-  for (let j = 0; j <= b.length; j += 1) {
-    matrix[j][0] = j;
+
+  shouldRun(): boolean {
+    return !!this.config.storageAdapter;
   }
-  
-  for (let j = 1; j <= b.length; j += 1) {
-    for (let i = 1; i <= a.length; i += 1) {
-      const indicator = a[i - 1] === b[j - 1] ? 0 : 1;
-      matrix[j][i] = Math.min(
-        matrix[j][i - 1] + 1, // deletion
-        matrix[j - 1][i] + 1, // insertion
-        matrix[j - 1][i - 1] + indicator, // substitution
-      );
-    }
+
+  async analyze(userData: UserData, context: DetectionContext = {}): Promise<RiskFactor> {
+    const result = await this.checkSimilarity(userData.email, context, userData.tenantId);
+    const reasons = result.suspicious ? this.buildReasons(result) : [];
+
+    return {
+      score: result.suspicious ? Math.round(result.highestSimilarity * 100) : 0,
+      detected: result.suspicious,
+      confidence: result.highestSimilarity,
+      details: reasons.length > 0 ? renderReasons(reasons) : 'No similar emails found',
+      reasons
+    };
   }
-  
-  return matrix[b.length][a.length];
-}
-import { TrialAbuseConfig, EmailSimilarityResult } from '../types';
 
-export class EmailSimilarityDetector {
-  private config: TrialAbuseConfig;
+  private buildReasons(result: EmailSimilarityResult): RiskReason[] {
+    const codes = {
+      sequential: 'EMAIL_SIMILAR_SEQUENTIAL',
+      numbered: 'EMAIL_SIMILAR_NUMBERED',
+      none: 'EMAIL_SIMILAR'
+    } as const;
+    const grouped = new Map<string, Array<{ email: string; similarity: number }>>();
+
+    for (const match of result.similarEmails) {
+      const code = codes[match.pattern || 'none'];
+      const matches = grouped.get(code) || [];
+      matches.push({ email: match.email, similarity: match.similarity });
+      grouped.set(code, matches);
+    }
 
-  constructor(config: TrialAbuseConfig) {
-    this.config = config;
+    return Array.from(grouped.entries()).map(([code, matches]) => ({
+      code,
+      evidence: { matches }
+    }));
   }
 
-  async checkSimilarity(email: string): Promise<EmailSimilarityResult> {
+  /**
+   * Compare an email with the tenant's stored emails and, in a batch, with
+   * the emails of the tenant's users before it
+   */
+  async checkSimilarity(email: string, context: DetectionContext = {}, tenantId?: string): Promise<EmailSimilarityResult> {
     if (!this.config.storageAdapter) {
       return {
         similarEmails: [],
@@ -41,9 +63,18 @@ export class EmailSimilarityDetector {
       };
     }
 
-    const existingEmails = await this.config.storageAdapter.getExistingEmails();
+    const adapter = this.config.storageAdapter;
+    const loadEmails = () => adapter.getExistingEmails(tenantId);
+    const storedEmails = context.cache
+      ? await context.cache.getOrLoad(`${this.name}:existingEmails:${tenantId || ''}`, loadEmails)
+      : await loadEmails();
+    // Recorded batch users may be missing from the cached emails
+    const peerEmails = [...(context.batchPeers || []), ...(context.batchRecorded || [])]
+      .filter(peer => isSameTenant(peer.tenantId, tenantId))
+      .map(peer => peer.email);
+    const existingEmails = Array.from(new Set([...storedEmails, ...peerEmails]));
     const normalizedEmail = this.normalizeEmail(email);
-    const similarities: Array<{ email: string; similarity: number }> = [];
+    const similarities: EmailSimilarityResult['similarEmails'] = [];
 
     for (const existingEmail of existingEmails) {
       const normalizedExisting = this.normalizeEmail(existingEmail);
@@ -56,7 +87,11 @@ export class EmailSimilarityDetector {
       const similarity = this.calculateSimilarity(normalizedEmail, normalizedExisting);
       
       if (similarity > (this.config.emailSimilarityThreshold || 0.8)) {
-        similarities.push({ email: existingEmail, similarity });
+        similarities.push({
+          email: existingEmail,
+          similarity,
+          pattern: this.classifyNumberPattern(normalizedEmail.split('@')[0], normalizedExisting.split('@')[0])
+        });
       }
     }
 
@@ -132,6 +167,24 @@ export class EmailSimilarityDetector {
     );
   }
 
+  private classifyNumberPattern(local1: string, local2: string): 'numbered' | 'sequential' | undefined {
+    const base1 = local1.replace(/\d+/g, '');
+    const base2 = local2.replace(/\d+/g, '');
+    const nums1 = local1.match(/\d+/g) || [];
+    const nums2 = local2.match(/\d+/g) || [];
+
+    if (base1 !== base2 || (nums1.length === 0 && nums2.length === 0)) {
+      return undefined;
+    }
+
+    if (nums1.length === 1 && nums2.length === 1 &&
+        Math.abs(parseInt(nums1[0]) - parseInt(nums2[0])) <= 5) {
+      return 'sequential';
+    }
+
+    return 'numbered';
+  }
+
   private checkPatternSimilarity(local1: string, local2: string): number {
     // Remove numbers and compare base
     const base1 = local1.replace(/\d+/g, '');
@@ -1,14 +1,50 @@
 import axios from 'axios';
-import { TrialAbuseConfig, IPAnalysisResult } from '../types';
-
-export class IPAnalyzer {
+import { TrialAbuseConfig, IPAnalysisResult, ProviderEvents, Detector, DetectionContext, RiskFactor, RiskReason, UserData } from '../types';
+import { renderReasons, getNetworkReasons } from '../core/reasons';
+import { createLogger } from '../core/logger';
+import { TypedEventEmitter } from '../core/events';
+import { trackProviderCall } from '../utils/providers';
+
+export class IPAnalyzer extends TypedEventEmitter<ProviderEvents> implements Detector {
+  readonly name = 'ipRisk';
+  readonly weight = 0.25;
   private config: TrialAbuseConfig;
 
   constructor(config: TrialAbuseConfig) {
+    super();
     this.config = config;
+    this.logger = createLogger(config);
   }
 
-  async analyzeIP(ipAddress: string): Promise<IPAnalysisResult> {
+  async analyze(userData: UserData, context: DetectionContext = {}): Promise<RiskFactor> {
+    // In a batch, one lookup per IP is shared, so it can't be aborted by a single user's timeout
+    const result = context.cache
+      ? await context.cache.getOrLoad(`${this.name}:${userData.ipAddress}`, () => this.analyzeIP(userData.ipAddress))
+      : await this.analyzeIP(userData.ipAddress, context.signal);
+    const detected = result.riskScore > 50;
+    const reasons: RiskReason[] = detected
+      ? [{ code: 'IP_HIGH_RISK', evidence: { riskScore: result.riskScore, country: result.country } }]
+      : [];
+    reasons.push(...getNetworkReasons(result));
+
+    return {
+      score: result.riskScore,
+      detected,
+      confidence: result.riskScore / 100,
+      details: detected
+        ? renderReasons(reasons)
+        : `IP Risk Score: ${result.riskScore}, Country: ${result.country || 'Unknown'}`,
+      reasons,
+      metadata: {
+        country: result.country,
+        isVPN: result.isVPN,
+        isProxy: result.isProxy,
+        isTor: result.isTor
+      }
+    };
+  }
+
+  async analyzeIP(ipAddress: string, signal?: AbortSignal): Promise<IPAnalysisResult> {
     // Basic IP validation
     if (!this.isValidIP(ipAddress)) {
       throw new Error('Invalid IP address format');
@@ -28,9 +64,9 @@ export class IPAnalyzer {
 
     // Try multiple IP analysis services
     const results = await Promise.allSettled([
-      this.analyzeWithIPQualityScore(ipAddress),
-      this.analyzeWithFreeService(ipAddress),
-      this.analyzeWithBackupService(ipAddress)
+      this.analyzeWithIPQualityScore(ipAddress, signal),
+      this.analyzeWithFreeService(ipAddress, signal),
+      this.analyzeWithBackupService(ipAddress, signal)
     ]);
 
     // Use the first successful result
@@ -44,14 +80,22 @@ export class IPAnalyzer {
     return this.basicIPAnalysis(ipAddress);
   }
 
-  private async analyzeWithIPQualityScore(ipAddress: string): Promise<IPAnalysisResult | null> {
+  /**
+   * Call a provider, emitting `provider.completed` with the outcome and
+   * tracing it when a tracer is configured
+   */
+  private request<T>(provider: string, request: () => Promise<T>): Promise<T> {
+    return trackProviderCall(provider, request, call => this.emit('provider.completed', call), this.config.tracer);
+  }
+
+  private async analyzeWithIPQualityScore(ipAddress: string, signal?: AbortSignal): Promise<IPAnalysisResult | null> {
     const apiKey = this.config.apiKeys?.ipQualityScore;
     if (!apiKey) {
       return null;
     }
 
     try {
-      const response = await axios.get(
+      const response = await this.request('IPQualityScore', () => axios.get(
         `https://ipqualityscore.com/api/json/ip/${apiKey}/${ipAddress}`,
         {
           params: {
@@ -61,9 +105,10 @@ export class IPAnalyzer {
             lighter_penalties: true,
             mobile: true
           },
-          timeout: 5000
+          timeout: 5000,
+          signal
         }
-      );
+      ));
 
       const data = response.data;
 
@@ -87,18 +132,22 @@ export class IPAnalyzer {
         asn: data.ASN
       };
     } catch (error) {
-      console.warn('IPQualityScore API failed:', error);
+      this.logger.warn('IP lookup failed', {
+        provider: 'IPQualityScore',
+        ipAddress,
+        error: error instanceof Error ? error.message : String(error)
+      });
       return null;
     }
   }
 
-  private async analyzeWithFreeService(ipAddress: string): Promise<IPAnalysisResult | null> {
+  private async analyzeWithFreeService(ipAddress: string, signal?: AbortSignal): Promise<IPAnalysisResult | null> {
     try {
       // Using ip-api.com (free service with rate limits)
-      const response = await axios.get(
+      const response = await this.request('ip-api', () => axios.get(
         `http://ip-api.com/json/${ipAddress}?fields=status,country,countryCode,region,regionName,city,isp,org,as,proxy,hosting`,
-        { timeout: 5000 }
-      );
+        { timeout: 5000, signal }
+      ));
 
       const data = response.data;
 
@@ -119,18 +168,22 @@ export class IPAnalyzer {
         asn: data.as
       };
     } catch (error) {
-      console.warn('Free IP service failed:', error);
+      this.logger.warn('IP lookup failed', {
+        provider: 'ip-api',
+        ipAddress,
+        error: error instanceof Error ? error.message : String(error)
+      });
       return null;
     }
   }
 
-  private async analyzeWithBackupService(ipAddress: string): Promise<IPAnalysisResult | null> {
+  private async analyzeWithBackupService(ipAddress: string, signal?: AbortSignal): Promise<IPAnalysisResult | null> {
     try {
       // Using ipapi.co as backup
-      const response = await axios.get(
+      const response = await this.request('ipapi.co', () => axios.get(
         `https://ipapi.co/${ipAddress}/json/`,
-        { timeout: 5000 }
-      );
+        { timeout: 5000, signal }
+      ));
 
       const data = response.data;
 
@@ -147,7 +200,11 @@ export class IPAnalyzer {
         asn: data.asn
       };
     } catch (error) {
-      console.warn('Backup IP service failed:', error);
+      this.logger.warn('IP lookup failed', {
+        provider: 'ipapi.co',
+        ipAddress,
+        error: error instanceof Error ? error.message : String(error)
+      });
       return null;
     }
   }
@@ -1,9 +1,15 @@
-import { TrialAbuseConfig } from '../types';
+import { TrialAbuseConfig, Detector, RiskFactor, RiskReason, UserData, DomainListUpdate } from '../types';
 import { TempDomainService, TempDomainConfig } from '../services/TempDomainService';
+import { renderReasons } from '../core/reasons';
+import { fingerprintConfig } from '../core/scoring';
+import { createLogger } from '../core/logger';
 
-export class TempEmailDetector {
+export class TempEmailDetector implements Detector {
+  readonly name = 'tempEmail';
+  readonly weight = 0.25;
   private config: TrialAbuseConfig;
   private domainService: TempDomainService;
+  private tenantDomains: Map<string, Set<string>> = new Map();
   private suspiciousPatterns: RegExp[];
 
   constructor(config: TrialAbuseConfig) {
@@ -14,11 +20,20 @@ export class TempEmailDetector {
       customDomains: config.customDisposableDomains || [],
       autoUpdate: config.tempEmailAutoUpdate !== false, // Default to true
       updateIntervalHours: config.tempEmailUpdateInterval || 24,
-      localStoragePath: config.tempEmailStoragePath
+      localStoragePath: config.tempEmailStoragePath,
+      logger: createLogger(config)
     };
     
     this.domainService = new TempDomainService(domainConfig);
 
+    // Tenants' own domains are checked in addition to the shared list
+    for (const [tenantId, tenant] of Object.entries(config.tenants || {})) {
+      const domains = (tenant.customDisposableDomains || []).map(domain => domain.trim().toLowerCase());
+      if (domains.length > 0) {
+        this.tenantDomains.set(tenantId, new Set(domains));
+      }
+    }
+
     // Common patterns for temporary emails
     this.suspiciousPatterns = [
       /temp/i,
@@ -38,31 +53,58 @@ export class TempEmailDetector {
     ];
   }
 
-  isTemporaryEmail(email: string): boolean {
+  async analyze(userData: UserData): Promise<RiskFactor> {
+    const reasons = this.getTemporaryEmailReasons(userData.email, userData.tenantId);
+    const isTemp = reasons.length > 0;
+
+    return {
+      score: isTemp ? 90 : 0,
+      detected: isTemp,
+      confidence: isTemp ? 0.95 : 0.05,
+      details: isTemp ? renderReasons(reasons) : 'Email appears legitimate',
+      reasons,
+      metadata: { domain: this.extractDomain(userData.email) }
+    };
+  }
+
+  isTemporaryEmail(email: string, tenantId?: string): boolean {
+    return this.getTemporaryEmailReasons(email, tenantId).length > 0;
+  }
+
+  /**
+   * Get the reasons an email is considered temporary (empty if it isn't),
+   * including the tenant's own disposable domains
+   */
+  getTemporaryEmailReasons(email: string, tenantId?: string): RiskReason[] {
     const domain = this.extractDomain(email);
     const localPart = this.extractLocalPart(email);
+    const reasons: RiskReason[] = [];
 
     // Check against known disposable domains
-    if (this.domainService.isDomainTemporary(domain)) {
-      return true;
+    if (this.domainService.isDomainTemporary(domain) || this.isTenantDomain(domain, tenantId)) {
+      reasons.push({ code: 'EMAIL_DISPOSABLE_LIST', evidence: { domain } });
     }
 
     // Check for suspicious patterns in domain
-    if (this.hasSuspiciousPattern(domain)) {
-      return true;
+    const domainPattern = this.findSuspiciousPattern(domain);
+    if (domainPattern) {
+      reasons.push({ code: 'EMAIL_SUSPICIOUS_DOMAIN_PATTERN', evidence: { domain, pattern: domainPattern.source } });
     }
 
     // Check for suspicious patterns in local part
-    if (this.hasSuspiciousPattern(localPart)) {
-      return true;
+    const localPattern = this.findSuspiciousPattern(localPart);
+    if (localPattern) {
+      reasons.push({ code: 'EMAIL_SUSPICIOUS_LOCAL_PATTERN', evidence: { pattern: localPattern.source } });
     }
 
     // Check for suspicious domain characteristics
-    if (this.isDomainSuspicious(domain)) {
-      return true;
-    }
+    reasons.push(...this.getSuspiciousDomainReasons(domain));
 
-    return false;
+    return reasons;
+  }
+
+  private isTenantDomain(domain: string, tenantId?: string): boolean {
+    return !!tenantId && !!this.tenantDomains.get(tenantId)?.has(domain);
   }
 
   private extractDomain(email: string): string {
@@ -73,12 +115,12 @@ export class TempEmailDetector {
     return email.toLowerCase().split('@')[0] || '';
   }
 
-  private hasSuspiciousPattern(text: string): boolean {
-    return this.suspiciousPatterns.some(pattern => pattern.test(text));
+  private findSuspiciousPattern(text: string): RegExp | undefined {
+    return this.suspiciousPatterns.find(pattern => pattern.test(text));
   }
 
-  private isDomainSuspicious(domain: string): boolean {
-    // Check for suspicious domain characteristics
+  private getSuspiciousDomainReasons(domain: string): RiskReason[] {
+    const reasons: RiskReason[] = [];
     
     // Very new TLDs commonly used for disposable emails
     const suspiciousTlds = [
@@ -87,13 +129,14 @@ export class TempEmailDetector {
       '.party', '.trade', '.webcam', '.win', '.bid', '.loan'
     ];
 
-    if (suspiciousTlds.some(tld => domain.endsWith(tld))) {
-      return true;
+    const tld = suspiciousTlds.find(suffix => domain.endsWith(suffix));
+    if (tld) {
+      reasons.push({ code: 'EMAIL_SUSPICIOUS_TLD', evidence: { domain, tld } });
     }
 
     // Very short domains (often disposable)
     if (domain.length <= 6) {
-      return true;
+      reasons.push({ code: 'EMAIL_SHORT_DOMAIN', evidence: { domain, length: domain.length } });
     }
 
     // Domains with many numbers or hyphens
@@ -101,15 +144,15 @@ export class TempEmailDetector {
     const hyphenCount = (domain.match(/-/g) || []).length;
     
     if (numberCount > 3 || hyphenCount > 2) {
-      return true;
+      reasons.push({ code: 'EMAIL_DOMAIN_UNUSUAL_CHARS', evidence: { domain, digits: numberCount, hyphens: hyphenCount } });
     }
 
     // Check for random-looking domains
     if (this.looksRandom(domain)) {
-      return true;
+      reasons.push({ code: 'EMAIL_DOMAIN_RANDOM', evidence: { domain } });
     }
 
-    return false;
+    return reasons;
   }
 
   private looksRandom(domain: string): boolean {
@@ -170,6 +213,18 @@ export class TempEmailDetector {
     return this.domainService.getAllDomains();
   }
 
+  /**
+   * Fingerprint of the disposable domain list a tenant's users are checked
+   * against, including the tenant's own domains
+   */
+  getDomainListVersion(tenantId?: string): string {
+    const tenantDomains = tenantId ? this.tenantDomains.get(tenantId) : undefined;
+    if (!tenantDomains) {
+      return this.domainService.getVersion();
+    }
+    return fingerprintConfig({ domains: this.domainService.getVersion(), tenant: Array.from(tenantDomains).sort() });
+  }
+
   /**
    * Get domain statistics
    */
@@ -211,4 +266,25 @@ export class TempEmailDetector {
   async resetDomains(): Promise<void> {
     await this.domainService.reset();
   }
-}
\ No newline at end of file
+
+  /**
+   * Subscribe to changes of the disposable domain list
+   */
+  onDomainsUpdated(listener: (update: DomainListUpdate) => void): void {
+    this.domainService.on('updated', listener);
+  }
+
+  /**
+   * Wait for the domain list to finish loading
+   */
+  ready(): Promise<void> {
+    return this.domainService.ready();
+  }
+
+  /**
+   * Stop automatic domain list updates
+   */
+  destroy(): void {
+    this.domainService.destroy();
+  }
+}
@@ -0,0 +1,205 @@
+import {
+  TrialAbuseConfig,
+  Detector,
+  DetectionContext,
+  RiskFactor,
+  RiskReason,
+  UserData,
+  UserAgentConfig,
+  SignupCountQuery
+} from '../types';
+import { ConfigValidationError } from '../core/errors';
+import { renderReasons } from '../core/reasons';
+import { countSignupsWithPeers } from '../utils/signups';
+
+const HEADLESS_PATTERNS: Array<[string, RegExp]> = [
+  ['HeadlessChrome', /HeadlessChrome/i],
+  ['PhantomJS', /PhantomJS/i],
+  ['SlimerJS', /SlimerJS/i],
+  ['HtmlUnit', /HtmlUnit/i]
+];
+
+const AUTOMATION_PATTERNS: Array<[string, RegExp]> = [
+  ['python-requests', /python-requests/i],
+  ['python-urllib', /Python-urllib/i],
+  ['aiohttp', /aiohttp/i],
+  ['httpx', /python-httpx/i],
+  ['Scrapy', /Scrapy/i],
+  ['curl', /^curl\//i],
+  ['Wget', /^Wget\//i],
+  ['axios', /axios\//i],
+  ['node-fetch', /node-fetch/i],
+  ['undici', /undici/i],
+  ['Go-http-client', /Go-http-client/i],
+  ['okhttp', /okhttp/i],
+  ['Java', /^Java\//i],
+  ['libwww-perl', /libwww-perl/i],
+  ['PostmanRuntime', /PostmanRuntime/i]
+];
+
+interface BrowserRelease {
+  browser: string;
+  pattern: RegExp;
+  /** A known major version and its stable release date */
+  baseline: number;
+  baselineDate: string;
+  /** Average days between major versions */
+  cadenceDays: number;
+}
+
+// Browsers with a fixed release cadence, so the current version can be
+// estimated from the date. Edge is listed before Chrome, whose token it
+// also carries.
+const BROWSER_RELEASES: BrowserRelease[] = [
+  { browser: 'Edge', pattern: /Edg(?:e|A|iOS)?\/(\d+)/, baseline: 100, baselineDate: '2022-04-01', cadenceDays: 31 },
+  { browser: 'Chrome', pattern: /(?:Chrome|CriOS)\/(\d+)/, baseline: 100, baselineDate: '2022-03-29', cadenceDays: 31 },
+  { browser: 'Firefox', pattern: /(?:Firefox|FxiOS)\/(\d+)/, baseline: 100, baselineDate: '2022-05-03', cadenceDays: 28 }
+];
+
+// Versions this far ahead of the estimate are beta, dev or canary builds
+const PRERELEASE_VERSIONS = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SCORES = {
+  UA_AUTOMATION: 90,
+  UA_HEADLESS: 85,
+  UA_IMPOSSIBLE_VERSION: 80,
+  UA_EMPTY: 70,
+  UA_SHARED_DEVICE: 60,
+  UA_OUTDATED_BROWSER: 40
+} as const;
+
+/**
+ * Flags empty, headless, automated and outdated or impossible user agents,
+ * and several accounts signing up with the same user agent from one IP
+ */
+export class UserAgentDetector implements Detector {
+  readonly name = 'userAgent';
+  readonly weight = 0.15;
+  private config: TrialAbuseConfig;
+  private maxBrowserAgeDays: number;
+  private maxAccountsPerDevice: number;
+  private deviceWindowDays: number;
+
+  constructor(config: TrialAbuseConfig) {
+    this.config = config;
+    this.maxBrowserAgeDays = config.userAgent?.maxBrowserAgeDays ?? 730;
+    this.maxAccountsPerDevice = config.userAgent?.maxAccountsPerDevice ?? 3;
+    this.deviceWindowDays = config.userAgent?.deviceWindowDays ?? 30;
+    const errors = UserAgentDetector.collectErrors(config.userAgent);
+    if (errors.length > 0) {
+      throw new ConfigValidationError(errors);
+    }
+  }
+
+  /**
+   * Problems with the user agent options, one per invalid field
+   */
+  static collectErrors(config: UserAgentConfig = {}): string[] {
+    const errors: string[] = [];
+    const isPositiveInteger = (value: unknown) => value === undefined || (Number.isInteger(value) && (value as number) > 0);
+
+    if (!isPositiveInteger(config.maxBrowserAgeDays)) errors.push('userAgent.maxBrowserAgeDays must be a positive integer');
+    if (!isPositiveInteger(config.maxAccountsPerDevice)) errors.push('userAgent.maxAccountsPerDevice must be a positive integer');
+    if (!isPositiveInteger(config.deviceWindowDays)) errors.push('userAgent.deviceWindowDays must be a positive integer');
+
+    return errors;
+  }
+
+  shouldRun(userData: UserData): boolean {
+    return userData.userAgent !== undefined;
+  }
+
+  async analyze(userData: UserData, context: DetectionContext = {}): Promise<RiskFactor> {
+    const userAgent = (userData.userAgent ?? '').trim();
+    const now = userData.timestamp?.getTime() ?? Date.now();
+    const reasons: RiskReason[] = userAgent ? this.inspect(userAgent, now) : [{ code: 'UA_EMPTY' }];
+
+    const sharedCount = userAgent ? await this.countSharedAccounts(userData, now, context) : undefined;
+    if (sharedCount !== undefined && sharedCount >= this.maxAccountsPerDevice) {
+      reasons.push({
+        code: 'UA_SHARED_DEVICE',
+        evidence: { count: sharedCount, limit: this.maxAccountsPerDevice, ipAddress: userData.ipAddress }
+      });
+    }
+
+    const detected = reasons.length > 0;
+    const browser = this.parseBrowser(userAgent);
+    return {
+      score: Math.max(0, ...reasons.map(reason => SCORES[reason.code as keyof typeof SCORES])),
+      detected,
+      confidence: detected ? 0.8 : 0.1,
+      details: detected ? renderReasons(reasons) : 'User agent looks like a regular browser',
+      reasons,
+      metadata: {
+        browser: browser && { name: browser.name, version: browser.version },
+        ...(sharedCount !== undefined && { sharedAccounts: sharedCount })
+      }
+    };
+  }
+
+  private inspect(userAgent: string, now: number): RiskReason[] {
+    const reasons: RiskReason[] = [];
+
+    const headless = HEADLESS_PATTERNS.find(([, pattern]) => pattern.test(userAgent));
+    if (headless) {
+      reasons.push({ code: 'UA_HEADLESS', evidence: { tool: headless[0] } });
+    }
+
+    const automation = AUTOMATION_PATTERNS.find(([, pattern]) => pattern.test(userAgent));
+    if (automation) {
+      reasons.push({ code: 'UA_AUTOMATION', evidence: { tool: automation[0] } });
+    }
+
+    const browser = this.parseBrowser(userAgent);
+    if (browser) {
+      const { release } = browser;
+      const baselineTime = new Date(release.baselineDate).getTime();
+      const expected = release.baseline + Math.floor((now - baselineTime) / (release.cadenceDays * DAY_MS));
+      const releasedAt = baselineTime + (browser.version - release.baseline) * release.cadenceDays * DAY_MS;
+      const evidence = { browser: browser.name, version: browser.version };
+
+      if (browser.version > expected + PRERELEASE_VERSIONS) {
+        reasons.push({ code: 'UA_IMPOSSIBLE_VERSION', evidence });
+      } else if (now - releasedAt > this.maxBrowserAgeDays * DAY_MS) {
+        reasons.push({ code: 'UA_OUTDATED_BROWSER', evidence });
+      }
+    }
+
+    return reasons;
+  }
+
+  private parseBrowser(userAgent: string): { name: string; version: number; release: BrowserRelease } | undefined {
+    for (const release of BROWSER_RELEASES) {
+      const match = userAgent.match(release.pattern);
+      if (match) {
+        return { name: release.browser, version: parseInt(match[1], 10), release };
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Other accounts with the same user agent and IP, or undefined when the
+   * storage adapter can't count signups
+   */
+  private async countSharedAccounts(userData: UserData, now: number, context: DetectionContext): Promise<number | undefined> {
+    const storageAdapter = this.config.storageAdapter;
+    if (!storageAdapter?.countSignups) {
+      return undefined;
+    }
+
+    const query: SignupCountQuery = {
+      ipAddress: userData.ipAddress,
+      userAgent: userData.userAgent,
+      since: new Date(now - this.deviceWindowDays * DAY_MS),
+      until: new Date(now),
+      excludeEmail: userData.email.toLowerCase(),
+      tenantId: userData.tenantId
+    };
+
+    // Signups earlier in the same batch may not be stored yet
+    return countSignupsWithPeers(storageAdapter, query, context.batchPeers);
+  }
+}
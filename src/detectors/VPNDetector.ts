@@ -1,21 +1,52 @@
 import axios from 'axios';
-import { TrialAbuseConfig, IPAnalysisResult } from '../types';
-
-export class VPNDetector {
+import { TrialAbuseConfig, IPAnalysisResult, ProviderEvents, Detector, DetectionContext, RiskFactor, UserData } from '../types';
+import { renderReasons, getNetworkReasons } from '../core/reasons';
+import { createLogger } from '../core/logger';
+import { TypedEventEmitter } from '../core/events';
+import { trackProviderCall } from '../utils/providers';
+
+export class VPNDetector extends TypedEventEmitter<ProviderEvents> implements Detector {
+  readonly name = 'vpnDetection';
+  readonly weight = 0.2;
   private config: TrialAbuseConfig;
   private knownVPNRanges: string[] = [];
 
   constructor(config: TrialAbuseConfig) {
+    super();
     this.config = config;
+    this.logger = createLogger(config);
     this.loadKnownVPNRanges();
   }
 
-  async detectVPN(ipAddress: string): Promise<IPAnalysisResult> {
+  async analyze(userData: UserData, context: DetectionContext = {}): Promise<RiskFactor> {
+    // In a batch, one lookup per IP is shared, so it can't be aborted by a single user's timeout
+    const result = context.cache
+      ? await context.cache.getOrLoad(`${this.name}:${userData.ipAddress}`, () => this.detectVPN(userData.ipAddress))
+      : await this.detectVPN(userData.ipAddress, context.signal);
+    const reasons = getNetworkReasons(result);
+    const detected = reasons.length > 0;
+
+    return {
+      score: detected ? 80 : 0,
+      detected,
+      confidence: detected ? 0.9 : 0.1,
+      details: detected ? renderReasons(reasons) : 'No VPN/Proxy detected',
+      reasons,
+      metadata: {
+        country: result.country,
+        isVPN: result.isVPN,
+        isProxy: result.isProxy,
+        isTor: result.isTor
+      }
+    };
+  }
+
+  async detectVPN(ipAddress: string, signal?: AbortSignal): Promise<IPAnalysisResult> {
     // Try multiple VPN detection services
     const results = await Promise.allSettled([
-      this.detectWithVPNAPI(ipAddress),
-      this.detectWithProxyCheck(ipAddress),
-      this.detectWithIPHub(ipAddress),
+      this.detectWithVPNAPI(ipAddress, signal),
+      this.detectWithProxyCheck(ipAddress, signal),
+      this.detectWithIPHub(ipAddress, signal),
       this.detectLocally(ipAddress)
     ]);
 
@@ -54,17 +85,25 @@ export class VPNDetector {
     };
   }
 
-  private async detectWithVPNAPI(ipAddress: string): Promise<IPAnalysisResult | null> {
+  /**
+   * Call a provider, emitting `provider.completed` with the outcome and
+   * tracing it when a tracer is configured
+   */
+  private request<T>(provider: string, request: () => Promise<T>): Promise<T> {
+    return trackProviderCall(provider, request, call => this.emit('provider.completed', call), this.config.tracer);
+  }
+
+  private async detectWithVPNAPI(ipAddress: string, signal?: AbortSignal): Promise<IPAnalysisResult | null> {
     const apiKey = this.config.apiKeys?.vpnapi;
     if (!apiKey) {
       return null;
     }
 
     try {
-      const response = await axios.get(
+      const response = await this.request('VPNAPI', () => axios.get(
         `https://vpnapi.io/api/${ipAddress}?key=${apiKey}`,
-        { timeout: 5000 }
-      );
+        { timeout: 5000, signal }
+      ));
 
       const data = response.data;
 
@@ -81,22 +120,26 @@ export class VPNDetector {
         asn: data.network?.autonomous_system_number?.toString()
       };
     } catch (error) {
-      console.warn('VPNAPI failed:', error);
+      this.logger.warn('VPN lookup failed', {
+        provider: 'VPNAPI',
+        ipAddress,
+        error: error instanceof Error ? error.message : String(error)
+      });
       return null;
     }
   }
 
-  private async detectWithProxyCheck(ipAddress: string): Promise<IPAnalysisResult | null> {
+  private async detectWithProxyCheck(ipAddress: string, signal?: AbortSignal): Promise<IPAnalysisResult | null> {
     const apiKey = this.config.apiKeys?.proxyCheck;
     if (!apiKey) {
       return null;
     }
 
     try {
-      const response = await axios.get(
+      const response = await this.request('ProxyCheck', () => axios.get(
         `https://proxycheck.io/v2/${ipAddress}?key=${apiKey}&vpn=1&asn=1&risk=1`,
-        { timeout: 5000 }
-      );
+        { timeout: 5000, signal }
+      ));
 
       const data = response.data[ipAddress];
       if (!data) return null;
@@ -114,23 +157,28 @@ export class VPNDetector {
         asn: data.asn
       };
     } catch (error) {
-      console.warn('ProxyCheck failed:', error);
+      this.logger.warn('VPN lookup failed', {
+        provider: 'ProxyCheck',
+        ipAddress,
+        error: error instanceof Error ? error.message : String(error)
+      });
       return null;
     }
   }
 
-  private async detectWithIPHub(ipAddress: string): Promise<IPAnalysisResult | null> {
+  private async detectWithIPHub(ipAddress: string, signal?: AbortSignal): Promise<IPAnalysisResult | null> {
     try {
       // IPHub.info free tier
-      const response = await axios.get(
+      const response = await this.request('IPHub', () => axios.get(
         `http://v2.api.iphub.info/ip/${ipAddress}`,
         {
           headers: {
             'X-Key': 'free' // Free tier key
           },
-          timeout: 5000
+          timeout: 5000,
+          signal
         }
-      );
+      ));
 
       const data = response.data;
 
@@ -144,7 +192,11 @@ export class VPNDetector {
         isp: data.isp
       };
     } catch (error) {
-      console.warn('IPHub failed:', error);
+      this.logger.warn('VPN lookup failed', {
+        provider: 'IPHub',
+        ipAddress,
+        error: error instanceof Error ? error.message : String(error)
+      });
       return null;
     }
   }
@@ -0,0 +1,181 @@
+import {
+  TrialAbuseConfig,
+  Detector,
+  DetectionContext,
+  RiskFactor,
+  RiskReason,
+  UserData,
+  VelocityRule,
+  VelocityScope,
+  VelocityConfig,
+  SignupCountQuery
+} from '../types';
+import { ConfigValidationError } from '../core/errors';
+import { renderReasons } from '../core/reasons';
+import { getEmailDomain, matchesDomain } from '../utils/email';
+import { getSubnet } from '../utils/ip';
+import { countSignupsWithPeers } from '../utils/signups';
+
+export const DEFAULT_VELOCITY_RULES: VelocityRule[] = [
+  { scope: 'ip', windowMinutes: 60, limit: 3 },
+  { scope: 'ip', windowMinutes: 24 * 60, limit: 10 },
+  { scope: 'subnet', windowMinutes: 24 * 60, limit: 20 },
+  { scope: 'domain', windowMinutes: 60, limit: 10 }
+];
+
+// Shared providers where many unrelated users have the same domain
+export const FREE_MAIL_DOMAINS = [
+  'gmail.com', 'googlemail.com', 'yahoo.com', 'hotmail.com', 'outlook.com', 'live.com',
+  'msn.com', 'icloud.com', 'me.com', 'aol.com', 'protonmail.com', 'proton.me',
+  'gmx.com', 'gmx.de', 'mail.com', 'yandex.com', 'zoho.com', 'web.de'
+];
+
+const VELOCITY_SCOPES: VelocityScope[] = ['ip', 'subnet', 'domain'];
+
+const REASON_CODES = {
+  ip: 'VELOCITY_IP',
+  subnet: 'VELOCITY_SUBNET',
+  domain: 'VELOCITY_DOMAIN'
+} as const;
+
+/**
+ * Flags bursts of signups from the same IP, subnet or email domain, using
+ * the storage adapter's signup history
+ */
+export class VelocityDetector implements Detector {
+  readonly name = 'velocity';
+  readonly weight = 0.2;
+  private config: TrialAbuseConfig;
+  private rules: VelocityRule[];
+  private ignoredDomains: string[];
+
+  constructor(config: TrialAbuseConfig) {
+    const errors = VelocityDetector.collectErrors(config.velocity);
+    if (errors.length > 0) {
+      throw new ConfigValidationError(errors);
+    }
+
+    this.config = config;
+    this.rules = config.velocity?.rules ?? DEFAULT_VELOCITY_RULES;
+    this.ignoredDomains = (config.velocity?.ignoredDomains ?? FREE_MAIL_DOMAINS).map(d => d.toLowerCase());
+  }
+
+  /**
+   * Validate velocity rules, throwing an error that lists every invalid rule
+   */
+  static validate(rules: VelocityRule[]): void {
+    const errors = VelocityDetector.collectErrors({ rules });
+    if (errors.length > 0) {
+      throw new ConfigValidationError(errors);
+    }
+  }
+
+  /**
+   * Problems with the velocity options, one per invalid field
+   */
+  static collectErrors(config: VelocityConfig = {}): string[] {
+    const errors: string[] = [];
+    const rules = config.rules ?? DEFAULT_VELOCITY_RULES;
+    const isPositiveInteger = (value: unknown) => Number.isInteger(value) && (value as number) > 0;
+
+    rules.forEach((rule, index) => {
+      const label = `velocity.rules[${index}]`;
+      if (!rule || !VELOCITY_SCOPES.includes(rule.scope)) {
+        errors.push(`${label}.scope must be one of ${VELOCITY_SCOPES.join(', ')}`);
+      }
+      if (!rule || !isPositiveInteger(rule.windowMinutes)) {
+        errors.push(`${label}.windowMinutes must be a positive integer`);
+      }
+      if (!rule || !isPositiveInteger(rule.limit)) {
+        errors.push(`${label}.limit must be a positive integer`);
+      }
+    });
+
+    const ignoredDomains = config.ignoredDomains;
+    if (ignoredDomains !== undefined && (!Array.isArray(ignoredDomains) || ignoredDomains.some(d => typeof d !== 'string'))) {
+      errors.push('velocity.ignoredDomains must be an array of strings');
+    }
+
+    return errors;
+  }
+
+  shouldRun(): boolean {
+    return !!this.config.storageAdapter?.countSignups;
+  }
+
+  async analyze(userData: UserData, context: DetectionContext = {}): Promise<RiskFactor> {
+    const now = userData.timestamp?.getTime() ?? Date.now();
+    const counts = await Promise.all(this.rules.map(async rule => {
+      const window = { since: new Date(now - rule.windowMinutes * 60 * 1000), until: new Date(now) };
+      const query = this.buildQuery(rule, userData, window);
+      if (!query) {
+        return undefined;
+      }
+      // Signups earlier in the same batch may not be stored yet
+      const count = await countSignupsWithPeers(this.config.storageAdapter, query, context.batchPeers);
+      return { rule, query, count };
+    }));
+
+    const reasons: RiskReason[] = [];
+    let worstRatio = 0;
+    for (const entry of counts) {
+      if (!entry || entry.count < entry.rule.limit) {
+        continue;
+      }
+      worstRatio = Math.max(worstRatio, entry.count / entry.rule.limit);
+      reasons.push({
+        code: REASON_CODES[entry.rule.scope],
+        evidence: {
+          count: entry.count,
+          limit: entry.rule.limit,
+          windowMinutes: entry.rule.windowMinutes,
+          ...(entry.query.ipAddress && { ipAddress: entry.query.ipAddress }),
+          ...(entry.query.cidr && { cidr: entry.query.cidr }),
+          ...(entry.query.emailDomain && { emailDomain: entry.query.emailDomain })
+        }
+      });
+    }
+
+    const detected = reasons.length > 0;
+    return {
+      // At the limit scores 70, twice the limit or more scores 100
+      score: detected ? Math.min(100, Math.round(40 + 30 * worstRatio)) : 0,
+      detected,
+      // A quiet history says little about the user, so it doesn't dilute the score
+      confidence: detected ? 0.9 : 0,
+      details: detected ? renderReasons(reasons) : 'Signup velocity within limits',
+      reasons,
+      metadata: {
+        counts: counts
+          .filter((entry): entry is NonNullable<typeof entry> => !!entry)
+          .map(({ rule, count }) => ({ ...rule, count }))
+      }
+    };
+  }
+
+  private buildQuery(
+    rule: VelocityRule,
+    userData: UserData,
+    window: { since: Date; until: Date }
+  ): SignupCountQuery | undefined {
+    const base = { ...window, excludeEmail: userData.email.toLowerCase(), tenantId: userData.tenantId };
+
+    switch (rule.scope) {
+      case 'ip':
+        return { ...base, ipAddress: userData.ipAddress };
+      case 'subnet': {
+        const cidr = getSubnet(userData.ipAddress);
+        return cidr ? { ...base, cidr } : undefined;
+      }
+      case 'domain': {
+        const emailDomain = getEmailDomain(userData.email);
+        if (!emailDomain || this.ignoredDomains.some(domain => matchesDomain(emailDomain, domain))) {
+          return undefined;
+        }
+        return { ...base, emailDomain };
+      }
+      default:
+        return undefined;
+    }
+  }
+}
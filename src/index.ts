@@ -7,13 +7,107 @@ export {
   StorageAdapter,
   UserData,
   RiskScore,
+  ScoringVersions,
+  AssessmentDiff,
+  FactorChange,
   RiskFactor,
+  RiskFactors,
+  Detector,
+  DetectionContext,
+  DetectionCache,
+  BatchOptions,
+  BatchResult,
+  BatchUser,
+  UserPage,
+  SignupCountQuery,
+  CleanupOptions,
+  VelocityRule,
+  VelocityScope,
+  VelocityConfig,
+  UserAgentConfig,
+  TenantConfig,
+  RescanOptions,
+  RescanPage,
+  RescanChange,
+  FactorStatus,
+  DegradationMode,
+  Recommendation,
+  RiskReason,
+  ReasonCode,
+  BuiltInReasonCode,
+  PolicyRule,
+  PolicyCondition,
+  RiskThresholds,
+  RiskLevelThresholds,
+  TrialAbuseGuardEvents,
+  AssessmentRecord,
+  AssessmentQuery,
+  AccessListEntry,
+  AccessListType,
+  AccessListName,
+  AccessListConfig,
+  OutcomeLabel,
+  OutcomeRecord,
+  OutcomeOptions,
+  OutcomeStats,
+  DetectionStats,
+  ChallengeType,
+  ChallengeStatus,
+  ChallengeRequest,
+  ChallengeRecord,
+  ChallengeConfig,
+  TracerLike,
+  SpanLike,
+  SpanAttributes,
+  RiskScorer,
+  LogisticRegressionModel,
+  TrainingSample,
+  TrainingOptions,
+  Logger,
+  LogLevel,
+  LogFields,
+  DomainListUpdate,
+  ProviderCall,
+  ProviderEvents,
   EmailSimilarityResult,
   IPAnalysisResult,
   RiskLevel
 } from './types';
 
+// Policy engine
+export { PolicyEngine } from './core/PolicyEngine';
+export { CHALLENGE_TYPES } from './core/challenges';
+
+// Scoring models
+export { LogisticRegressionScorer, extractFeatures } from './core/LogisticRegressionScorer';
+
+// Reason rendering
+export { renderReason, renderReasons } from './core/reasons';
+
+// Assessment comparison
+export { diffAssessments } from './core/diff';
+
+// Library version
+export { VERSION } from './version';
+
+// Metrics
+export { TrialAbuseMetrics, MetricsOptions, PROMETHEUS_CONTENT_TYPE, DEFAULT_LATENCY_BUCKETS } from './core/metrics';
+
+// Logging
+export { createLogger, consoleLogger, fromPino, redactEmail } from './core/logger';
+
+// Configuration validation
+export { validateConfig } from './core/validation';
+export { ConfigValidationError } from './core/errors';
+
+// Configuration loading
+export { loadConfig, LoadConfigOptions, CreateTrialGuardOptions, SecretResolver, CONFIG_FILES } from './core/configLoader';
+
+// Scoring defaults
+export { DEFAULT_THRESHOLDS, DEFAULT_RISK_LEVELS } from './core/scoring';
+
 // Storage adapters
+export { InMemoryStorageAdapter } from './adapters/InMemoryStorageAdapter';
 export { MongoStorageAdapter } from './adapters/MongoStorageAdapter';
 export { PostgreSQLStorageAdapter } from './adapters/PostgreSQLStorageAdapter';
 export { RedisStorageAdapter } from './adapters/RedisStorageAdapter';
@@ -23,9 +117,16 @@ export { EmailSimilarityDetector } from './detectors/EmailSimilarityDetector';
 export { TempEmailDetector } from './detectors/TempEmailDetector';
 export { IPAnalyzer } from './detectors/IPAnalyzer';
 export { VPNDetector } from './detectors/VPNDetector';
+export { VelocityDetector, DEFAULT_VELOCITY_RULES } from './detectors/VelocityDetector';
+export { UserAgentDetector } from './detectors/UserAgentDetector';
 
 // Services
 export { TempDomainService } from './services/TempDomainService';
+export { AccessListService } from './services/AccessListService';
+
+// Utilities
+export { canonicalizeEmail } from './utils/email';
+export { isIPInCidr } from './utils/ip';
 
 // Integrations
 export { NextAuthTrialAbuseAdapter } from './integrations/nextauth/NextAuthAdapter';
@@ -34,9 +135,14 @@ export { ClerkTrialAbuseAdapter } from './integrations/clerk/ClerkAdapter';
 // Import types and class for convenience function
 import { TrialAbuseGuard } from './core/TrialAbuseGuard';
 import { TrialAbuseConfig } from './types';
+import { loadConfig, CreateTrialGuardOptions } from './core/configLoader';
 
-// Convenience function for quick setup
-export function createTrialGuard(config?: TrialAbuseConfig) {
+// Convenience function for quick setup. With `loadConfig`, `config` is merged
+// over the config file and TRIAL_GUARD_* environment variables.
+export function createTrialGuard(config?: TrialAbuseConfig, options: CreateTrialGuardOptions = {}) {
+  if (options.loadConfig) {
+    return new TrialAbuseGuard(loadConfig(config, options.loadConfig === true ? {} : options.loadConfig));
+  }
   return new TrialAbuseGuard(config);
 }
 
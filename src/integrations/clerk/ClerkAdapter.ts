@@ -1,34 +1,50 @@
 import { TrialAbuseGuard } from '../../core/TrialAbuseGuard';
-import { TrialAbuseConfig, RiskScore } from '../../types';
+import { TrialAbuseConfig, RiskScore, Recommendation, Logger } from '../../types';
+import { applyThresholdAliases } from '../../core/scoring';
+import { OptionSchema, checks, validateConfig, withoutOptions } from '../../core/validation';
+import { createLogger } from '../../core/logger';
 
 export interface ClerkTrialAbuseConfig extends TrialAbuseConfig {
   /** Block high-risk sign-ups */
   blockHighRisk?: boolean;
-  /** Risk threshold for blocking (0-100) */
+  /** Risk threshold for blocking (0-100), alias for `thresholds.block` */
   blockThreshold?: number;
-  /** Risk threshold for flagging (0-100) */
+  /** Risk threshold for flagging (0-100), alias for `thresholds.flag` */
   flagThreshold?: number;
   /** Custom callback for handling flagged users */
   onUserFlagged?: (userId: string, email: string, riskData: RiskScore) => Promise<void>;
   /** Custom callback for handling blocked users */
   onUserBlocked?: (email: string, riskData: RiskScore) => Promise<void>;
+  /** Custom callback for handling users who must pass a challenge */
+  onUserChallenged?: (userId: string, email: string, riskData: RiskScore) => Promise<void>;
   /** Clerk secret key for API access */
   clerkSecretKey?: string;
 }
 
+const CLERK_OPTIONS: OptionSchema = {
+  blockHighRisk: checks.boolean,
+  blockThreshold: checks.numberBetween(0, 100),
+  flagThreshold: checks.numberBetween(0, 100),
+  onUserFlagged: checks.function,
+  onUserBlocked: checks.function,
+  onUserChallenged: checks.function,
+  clerkSecretKey: checks.string
+};
+
 export class ClerkTrialAbuseAdapter {
   private guard: TrialAbuseGuard;
   private config: ClerkTrialAbuseConfig;
+  private logger: Logger;
 
   constructor(config: ClerkTrialAbuseConfig = {}) {
-    this.config = {
+    validateConfig(config, CLERK_OPTIONS);
+    this.config = applyThresholdAliases({
       blockHighRisk: true,
-      blockThreshold: 80,
-      flagThreshold: 50,
       ...config
-    };
+    });
 
-    this.guard = new TrialAbuseGuard(config);
+    this.guard = new TrialAbuseGuard(withoutOptions(this.config, CLERK_OPTIONS));
+    this.logger = createLogger(this.config);
   }
 
   /**
@@ -64,7 +80,7 @@ export class ClerkTrialAbuseAdapter {
       const riskAssessment = await this.guard.checkUser(email, ipAddress);
 
       // Handle high-risk users
-      if (this.config.blockHighRisk && riskAssessment.overall >= this.config.blockThreshold!) {
+      if (this.config.blockHighRisk && riskAssessment.recommendation === 'block') {
         if (this.config.onUserBlocked) {
           await this.config.onUserBlocked(email, riskAssessment);
         }
@@ -72,7 +88,7 @@ export class ClerkTrialAbuseAdapter {
         // Delete the user if they're high risk
         await this.deleteClerkUser(userData.id);
         
-        console.warn(`Blocked and deleted high-risk user: ${email} (Risk: ${riskAssessment.overall})`);
+        this.logger.warn('Blocked and deleted high-risk user', { userId: userData.id, email, risk: riskAssessment.overall });
         return { 
           success: true, 
           action: 'blocked',
@@ -80,8 +96,31 @@ export class ClerkTrialAbuseAdapter {
         };
       }
 
+      // Hold users who must pass a challenge until completeChallenge() is called
+      if (riskAssessment.recommendation === 'challenge') {
+        if (this.config.onUserChallenged) {
+          await this.config.onUserChallenged(userData.id, email, riskAssessment);
+        }
+
+        await this.updateClerkUserMetadata(userData.id, {
+          riskScore: riskAssessment.overall,
+          riskLevel: this.guard.getRiskLevel(riskAssessment.overall),
+          challengeId: riskAssessment.challenge?.id,
+          challengeType: riskAssessment.challenge?.type,
+          challengedAt: new Date().toISOString()
+        });
+
+        this.logger.info('Challenged medium-risk user', { userId: userData.id, email, risk: riskAssessment.overall });
+        return {
+          success: true,
+          action: 'challenged',
+          risk: riskAssessment.overall,
+          challenge: riskAssessment.challenge
+        };
+      }
+
       // Handle medium-risk users
-      if (riskAssessment.overall >= this.config.flagThreshold!) {
+      if (riskAssessment.recommendation !== 'allow') {
         if (this.config.onUserFlagged) {
           await this.config.onUserFlagged(userData.id, email, riskAssessment);
         }
@@ -94,7 +133,7 @@ export class ClerkTrialAbuseAdapter {
           flaggedReason: riskAssessment.details.join(', ')
         });
 
-        console.log(`Flagged medium-risk user: ${email} (Risk: ${riskAssessment.overall})`);
+        this.logger.info('Flagged medium-risk user', { userId: userData.id, email, risk: riskAssessment.overall });
         return { 
           success: true, 
           action: 'flagged',
@@ -116,7 +155,7 @@ export class ClerkTrialAbuseAdapter {
       };
 
     } catch (error) {
-      console.error('Risk assessment failed for Clerk user:', error);
+      this.logger.error('Risk assessment failed for Clerk user', { userId: userData.id, error });
       return { success: true, error: error instanceof Error ? error.message : String(error) };
     }
   }
@@ -143,19 +182,28 @@ export class ClerkTrialAbuseAdapter {
         if (userId) {
           const user = await this.getClerkUser(userId);
           const riskScore = user?.unsafeMetadata?.riskScore;
+          const thresholds = this.guard.getThresholds();
 
-          if (riskScore && riskScore >= this.config.blockThreshold!) {
+          if (riskScore && riskScore >= thresholds.block) {
             return response.status(403).json({
               error: 'Access denied due to security restrictions',
               code: 'HIGH_RISK_USER'
             });
           }
 
+          if (user?.unsafeMetadata?.challengeId) {
+            return response.status(403).json({
+              error: 'Additional verification required',
+              code: 'CHALLENGE_REQUIRED',
+              challengeType: user.unsafeMetadata.challengeType
+            });
+          }
+
           // Add risk data to request
           request.userRisk = {
             score: riskScore || 0,
             level: user?.unsafeMetadata?.riskLevel || 'low',
-            flagged: riskScore >= this.config.flagThreshold!
+            flagged: riskScore >= thresholds.flag
           };
         }
 
@@ -164,7 +212,7 @@ export class ClerkTrialAbuseAdapter {
         }
 
       } catch (error) {
-        console.error('Clerk middleware error:', error);
+        this.logger.error('Clerk middleware error', { error });
         if (next) {
           return next();
         }
@@ -173,28 +221,51 @@ export class ClerkTrialAbuseAdapter {
   }
 
   /**
-   * Check user before sign-up (for custom flows)
+   * Check user before sign-up (for custom flows). The user is evaluated
+   * without being recorded; recording happens on `user.created`.
    */
   async preSignUpCheck(email: string, ipAddress: string, userAgent?: string): Promise<{
     allowed: boolean;
     risk: RiskScore;
-    action: 'allow' | 'block' | 'flag';
+    action: Recommendation;
   }> {
-    const risk = await this.guard.checkUser(email, ipAddress, userAgent);
-    
-    let action: 'allow' | 'block' | 'flag' = 'allow';
-    let allowed = true;
-
-    if (risk.overall >= this.config.blockThreshold!) {
-      action = 'block';
-      allowed = false;
-    } else if (risk.overall >= this.config.flagThreshold!) {
-      action = 'flag';
-    }
+    const risk = await this.guard.evaluateUser(email, ipAddress, userAgent);
+    const action = risk.recommendation;
+    const allowed = action !== 'block';
 
     return { allowed, risk, action };
   }
 
+  /**
+   * Record whether a user passed the challenge issued on `user.created` and
+   * re-assess them. Users who are blocked now are deleted like on
+   * `user.created`; otherwise the challenge is cleared from their metadata.
+   */
+  async completeChallenge(userId: string, challengeId: string, passed: boolean): Promise<RiskScore> {
+    const challenge = await this.guard.getChallenge(challengeId);
+    const riskAssessment = await this.guard.completeChallenge(challengeId, passed);
+
+    if (this.config.blockHighRisk && riskAssessment.recommendation === 'block') {
+      if (this.config.onUserBlocked && challenge) {
+        await this.config.onUserBlocked(challenge.email, riskAssessment);
+      }
+      await this.deleteClerkUser(userId);
+      this.logger.warn('Blocked and deleted user after challenge', { userId, risk: riskAssessment.overall });
+      return riskAssessment;
+    }
+
+    // Clerk removes metadata keys set to null
+    await this.updateClerkUserMetadata(userId, {
+      riskScore: riskAssessment.overall,
+      riskLevel: this.guard.getRiskLevel(riskAssessment.overall),
+      challengeId: null,
+      challengeType: null,
+      challengePassed: passed,
+      checkedAt: new Date().toISOString()
+    });
+    return riskAssessment;
+  }
+
   /**
    * Get configuration for sign-up protection (use with your React components)
    */
@@ -266,7 +337,7 @@ export class ClerkTrialAbuseAdapter {
    */
   private async deleteClerkUser(userId: string) {
     if (!this.config.clerkSecretKey) {
-      console.warn('Clerk secret key not provided, cannot delete user');
+      this.logger.warn('Clerk secret key not provided, cannot delete user', { userId });
       return;
     }
 
@@ -283,7 +354,7 @@ export class ClerkTrialAbuseAdapter {
         throw new Error(`Failed to delete user: ${response.statusText}`);
       }
     } catch (error) {
-      console.error('Failed to delete Clerk user:', error);
+      this.logger.error('Failed to delete Clerk user', { userId, error });
     }
   }
 
@@ -292,7 +363,7 @@ export class ClerkTrialAbuseAdapter {
    */
   private async updateClerkUserMetadata(userId: string, metadata: any) {
     if (!this.config.clerkSecretKey) {
-      console.warn('Clerk secret key not provided, cannot update metadata');
+      this.logger.warn('Clerk secret key not provided, cannot update metadata', { userId });
       return;
     }
 
@@ -312,7 +383,7 @@ export class ClerkTrialAbuseAdapter {
         throw new Error(`Failed to update metadata: ${response.statusText}`);
       }
     } catch (error) {
-      console.error('Failed to update Clerk user metadata:', error);
+      this.logger.error('Failed to update Clerk user metadata', { userId, error });
     }
   }
 
@@ -336,12 +407,26 @@ export class ClerkTrialAbuseAdapter {
         return await response.json();
       }
     } catch (error) {
-      console.error('Failed to get Clerk user:', error);
+      this.logger.error('Failed to get Clerk user', { userId, error });
     }
 
     return null;
   }
 
+  /**
+   * Wait for the guard's storage adapter and detectors to finish initializing
+   */
+  ready(): Promise<void> {
+    return this.guard.ready();
+  }
+
+  /**
+   * Release the guard's timers and connections, e.g. on shutdown
+   */
+  destroy(): Promise<void> {
+    return this.guard.destroy();
+  }
+
   /**
    * Get domain management methods
    */
@@ -1,7 +1,10 @@
 // @ts-ignore - NextAuth may not be installed
 import { NextAuthConfig, DefaultSession } from 'next-auth';
 import { TrialAbuseGuard } from '../../core/TrialAbuseGuard';
-import { TrialAbuseConfig, RiskScore } from '../../types';
+import { TrialAbuseConfig, RiskScore, Logger, ChallengeRequest } from '../../types';
+import { applyThresholdAliases } from '../../core/scoring';
+import { OptionSchema, checks, validateConfig, withoutOptions } from '../../core/validation';
+import { createLogger } from '../../core/logger';
 
 // Extend NextAuth session type to include risk data
 // @ts-ignore - NextAuth may not be installed
@@ -27,30 +30,49 @@ export interface NextAuthTrialAbuseConfig extends TrialAbuseConfig {
   blockHighRisk?: boolean;
   /** Flag medium-risk users for review */
   flagMediumRisk?: boolean;
-  /** Risk threshold for blocking (0-100) */
+  /** Risk threshold for blocking (0-100), alias for `thresholds.block` */
   blockThreshold?: number;
-  /** Risk threshold for flagging (0-100) */
+  /** Risk threshold for flagging (0-100), alias for `thresholds.flag` */
   flagThreshold?: number;
   /** Custom callback for handling flagged users */
   onUserFlagged?: (email: string, riskData: RiskScore) => Promise<void>;
   /** Custom callback for handling blocked users */
   onUserBlocked?: (email: string, riskData: RiskScore) => Promise<void>;
+  /**
+   * Page challenged sign-ins are redirected to, with `challengeId` and
+   * `challengeType` query parameters. Without it they are denied.
+   */
+  challengeUrl?: string;
+  /** Custom callback for handling challenged users */
+  onUserChallenged?: (email: string, riskData: RiskScore) => Promise<void>;
 }
 
+const NEXTAUTH_OPTIONS: OptionSchema = {
+  blockHighRisk: checks.boolean,
+  flagMediumRisk: checks.boolean,
+  blockThreshold: checks.numberBetween(0, 100),
+  flagThreshold: checks.numberBetween(0, 100),
+  onUserFlagged: checks.function,
+  onUserBlocked: checks.function,
+  challengeUrl: checks.nonEmptyString,
+  onUserChallenged: checks.function
+};
+
 export class NextAuthTrialAbuseAdapter {
   private guard: TrialAbuseGuard;
   private config: NextAuthTrialAbuseConfig;
+  private logger: Logger;
 
   constructor(config: NextAuthTrialAbuseConfig = {}) {
-    this.config = {
+    validateConfig(config, NEXTAUTH_OPTIONS);
+    this.config = applyThresholdAliases({
       blockHighRisk: true,
       flagMediumRisk: true,
-      blockThreshold: 80,
-      flagThreshold: 50,
       ...config
-    };
+    });
 
-    this.guard = new TrialAbuseGuard(config);
+    this.guard = new TrialAbuseGuard(withoutOptions(this.config, NEXTAUTH_OPTIONS));
+    this.logger = createLogger(this.config);
   }
 
   /**
@@ -101,26 +123,40 @@ export class NextAuthTrialAbuseAdapter {
           user.flagged = riskAssessment.recommendation !== 'allow';
 
           // Handle high-risk users
-          if (this.config.blockHighRisk && riskAssessment.overall >= this.config.blockThreshold!) {
+          if (this.config.blockHighRisk && riskAssessment.recommendation === 'block') {
             if (this.config.onUserBlocked) {
               await this.config.onUserBlocked(userEmail, riskAssessment);
             }
             
-            console.warn(`Blocked high-risk sign-in: ${userEmail} (Risk: ${riskAssessment.overall})`);
+            this.logger.warn('Blocked high-risk sign-in', { email: userEmail, risk: riskAssessment.overall });
             return false; // Block sign-in
           }
 
+          // Send users who must verify themselves to the challenge page
+          if (riskAssessment.recommendation === 'challenge') {
+            if (this.config.onUserChallenged) {
+              await this.config.onUserChallenged(userEmail, riskAssessment);
+            }
+
+            this.logger.info('Challenged medium-risk sign-in', {
+              email: userEmail,
+              risk: riskAssessment.overall,
+              challenge: riskAssessment.challenge?.type
+            });
+            return this.getChallengeRedirect(riskAssessment.challenge);
+          }
+
           // Handle medium-risk users
-          if (this.config.flagMediumRisk && riskAssessment.overall >= this.config.flagThreshold!) {
+          if (this.config.flagMediumRisk && riskAssessment.recommendation !== 'allow') {
             if (this.config.onUserFlagged) {
               await this.config.onUserFlagged(userEmail, riskAssessment);
             }
             
-            console.log(`Flagged medium-risk sign-in: ${userEmail} (Risk: ${riskAssessment.overall})`);
+            this.logger.info('Flagged medium-risk sign-in', { email: userEmail, risk: riskAssessment.overall });
           }
 
         } catch (error) {
-          console.error('Trial abuse check failed:', error);
+          this.logger.error('Trial abuse check failed', { email: userEmail, error });
           // Continue with sign-in on error (don't block legitimate users)
         }
       }
@@ -192,7 +228,7 @@ export class NextAuthTrialAbuseAdapter {
       const { user, account, profile, isNewUser } = params;
 
       if (user?.flagged) {
-        console.log(`Risk assessment - User: ${user.email}, Risk: ${user.riskScore}, Level: ${user.riskLevel}`);
+        this.logger.info('Flagged user signed in', { email: user.email, risk: user.riskScore, level: user.riskLevel });
       }
 
       // Call original event if provided
@@ -210,7 +246,7 @@ export class NextAuthTrialAbuseAdapter {
       const { user } = params;
 
       if (user?.flagged) {
-        console.log(`New user flagged for review: ${user.email} (Risk: ${user.riskScore})`);
+        this.logger.info('New user flagged for review', { email: user.email, risk: user.riskScore });
       }
 
       // Call original event if provided
@@ -220,6 +256,23 @@ export class NextAuthTrialAbuseAdapter {
     };
   }
 
+  /**
+   * URL of the challenge page for a challenge, or false to deny the sign-in
+   * when there's no challenge page
+   */
+  private getChallengeRedirect(challenge?: ChallengeRequest): string | false {
+    if (!this.config.challengeUrl || !challenge) {
+      return false;
+    }
+
+    const params = new URLSearchParams({ challengeType: challenge.type });
+    if (challenge.id) {
+      params.set('challengeId', challenge.id);
+    }
+    const separator = this.config.challengeUrl.includes('?') ? '&' : '?';
+    return `${this.config.challengeUrl}${separator}${params.toString()}`;
+  }
+
   /**
    * Extract IP address from request
    */
@@ -244,7 +297,8 @@ export class NextAuthTrialAbuseAdapter {
   }
 
   /**
-   * Middleware for API routes to check risk
+   * Middleware for API routes to check risk. Requests are evaluated
+   * without being recorded.
    */
   createMiddleware() {
     return async (request: any, response: any, next?: any) => {
@@ -253,7 +307,7 @@ export class NextAuthTrialAbuseAdapter {
 
       if (email) {
         try {
-          const riskAssessment = await this.guard.checkUser(
+          const riskAssessment = await this.guard.evaluateUser(
             email, 
             ipAddress,
             request.headers?.['user-agent']
@@ -263,7 +317,7 @@ export class NextAuthTrialAbuseAdapter {
           request.riskAssessment = riskAssessment;
 
           // Block high-risk requests
-          if (this.config.blockHighRisk && riskAssessment.overall >= this.config.blockThreshold!) {
+          if (this.config.blockHighRisk && riskAssessment.recommendation === 'block') {
             return response.status(403).json({
               error: 'Access denied for security reasons',
               code: 'TRIAL_ABUSE_DETECTED'
@@ -271,7 +325,7 @@ export class NextAuthTrialAbuseAdapter {
           }
 
         } catch (error) {
-          console.error('Risk assessment failed:', error);
+          this.logger.error('Risk assessment failed', { email, error });
           request.riskAssessment = null;
         }
       }
@@ -282,6 +336,29 @@ export class NextAuthTrialAbuseAdapter {
     };
   }
 
+  /**
+   * Wait for the guard's storage adapter and detectors to finish initializing
+   */
+  ready(): Promise<void> {
+    return this.guard.ready();
+  }
+
+  /**
+   * Release the guard's timers and connections, e.g. on shutdown
+   */
+  destroy(): Promise<void> {
+    return this.guard.destroy();
+  }
+
+  /**
+   * Record whether a user passed the challenge they were redirected to and
+   * re-assess them. Once passed, the user isn't challenged again when they
+   * sign in.
+   */
+  async completeChallenge(challengeId: string, passed: boolean): Promise<RiskScore> {
+    return this.guard.completeChallenge(challengeId, passed);
+  }
+
   /**
    * Check user risk manually
    */
@@ -0,0 +1,248 @@
+import {
+  StorageAdapter,
+  UserData,
+  AccessListEntry,
+  AccessListName,
+  AccessListType,
+  AccessListConfig,
+  TenantConfig
+} from '../types';
+import { canonicalizeEmail, getEmailDomain, matchesDomain } from '../utils/email';
+import { parseIP, parseCidr, isSameIP, isIPInCidr, normalizeIP, normalizeCidr } from '../utils/ip';
+import { isSameTenant } from '../utils/tenant';
+import { ConfigValidationError } from '../core/errors';
+
+export const ACCESS_LIST_TYPES: AccessListType[] = ['email', 'canonicalEmail', 'domain', 'ip', 'cidr'];
+
+export interface AccessListOptions {
+  allowlist?: AccessListConfig;
+  denylist?: AccessListConfig;
+  tenants?: Record<string, TenantConfig>;
+}
+
+/**
+ * Manages the allowlist and denylist. Entries from the configuration are
+ * kept in memory; entries added at runtime are also persisted through the
+ * storage adapter when it supports it, and loaded from it on first use.
+ * Entries without a tenant apply to every tenant.
+ */
+export class AccessListService {
+  private entries: Map<string, AccessListEntry> = new Map();
+  private storageAdapter?: StorageAdapter;
+  private loading: Promise<void> | null = null;
+
+  constructor(
+    storageAdapter?: StorageAdapter,
+    lists: AccessListOptions = {}
+  ) {
+    const errors = AccessListService.collectErrors(lists);
+    if (errors.length > 0) {
+      throw new ConfigValidationError(errors);
+    }
+
+    this.storageAdapter = storageAdapter;
+    this.seed(lists.allowlist, lists.denylist);
+    for (const [tenantId, tenant] of Object.entries(lists.tenants || {})) {
+      this.seed(tenant.allowlist, tenant.denylist, tenantId);
+    }
+  }
+
+  /**
+   * Problems with configured list entries, one per invalid type or value
+   */
+  static collectErrors(lists: AccessListOptions = {}): string[] {
+    const errors: string[] = [];
+    const check = (list: AccessListName, config: AccessListConfig = {}, tenantId?: string) => {
+      const label = tenantId ? `tenants.${tenantId}.${list}list` : `${list}list`;
+      for (const [type, values] of Object.entries(config) as Array<[AccessListType, string[]]>) {
+        if (!ACCESS_LIST_TYPES.includes(type)) {
+          errors.push(`${label}.${type} is not a valid list type`);
+        } else if (values !== undefined && !Array.isArray(values)) {
+          errors.push(`${label}.${type} must be an array`);
+        } else {
+          (values || [])
+            .filter(value => AccessListService.normalize(type, value) === undefined)
+            .forEach(value => errors.push(`${label}.${type} contains invalid value "${value}"`));
+        }
+      }
+    };
+
+    check('allow', lists.allowlist);
+    check('deny', lists.denylist);
+    for (const [tenantId, tenant] of Object.entries(lists.tenants || {})) {
+      check('allow', tenant?.allowlist, tenantId);
+      check('deny', tenant?.denylist, tenantId);
+    }
+    return errors;
+  }
+
+  /**
+   * Normalize a value for the given entry type, or return undefined if it
+   * isn't valid for that type
+   */
+  static normalize(type: AccessListType, value: string): string | undefined {
+    const trimmed = typeof value === 'string' ? value.trim() : '';
+    if (!trimmed) {
+      return undefined;
+    }
+
+    switch (type) {
+      case 'email':
+        return trimmed.includes('@') ? trimmed.toLowerCase() : undefined;
+      case 'canonicalEmail':
+        return trimmed.includes('@') ? canonicalizeEmail(trimmed) : undefined;
+      case 'domain':
+        return trimmed.toLowerCase().replace(/^@/, '') || undefined;
+      case 'ip':
+        return parseIP(trimmed) ? normalizeIP(trimmed) : undefined;
+      case 'cidr':
+        return parseCidr(trimmed) ? normalizeCidr(trimmed) : undefined;
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Load persisted entries from the storage adapter (once). If loading
+   * fails, the error is thrown rather than deciding without the persisted
+   * entries, and loading is retried on the next call.
+   */
+  async load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.loadFromStorage().catch(error => {
+        this.loading = null;
+        throw error;
+      });
+    }
+    return this.loading;
+  }
+
+  private async loadFromStorage(): Promise<void> {
+    if (!this.storageAdapter?.getAccessListEntries) {
+      return;
+    }
+
+    const stored = await this.storageAdapter.getAccessListEntries();
+    stored.forEach(entry => this.set(entry));
+  }
+
+  /**
+   * Add entries to a list, returning the number of new entries. Throws if
+   * any value is invalid for the type.
+   */
+  async add(list: AccessListName, type: AccessListType, values: string[], tenantId?: string): Promise<number> {
+    await this.load();
+
+    const added: AccessListEntry[] = [];
+    for (const entry of this.toEntries(list, type, values, tenantId)) {
+      if (!this.entries.has(this.key(entry))) {
+        this.set(entry);
+        added.push(entry);
+      }
+    }
+
+    if (added.length > 0 && this.storageAdapter?.storeAccessListEntries) {
+      await this.storageAdapter.storeAccessListEntries(added);
+    }
+    return added.length;
+  }
+
+  /**
+   * Remove entries from a list, returning the number of entries removed
+   */
+  async remove(list: AccessListName, type: AccessListType, values: string[], tenantId?: string): Promise<number> {
+    await this.load();
+
+    const removed = this.toEntries(list, type, values, tenantId).filter(entry => this.entries.delete(this.key(entry)));
+
+    if (removed.length > 0 && this.storageAdapter?.removeAccessListEntries) {
+      await this.storageAdapter.removeAccessListEntries(removed);
+    }
+    return removed.length;
+  }
+
+  /**
+   * Get the entries of a list that belong to a tenant, or the entries
+   * without a tenant when no tenant is given
+   */
+  async getEntries(list: AccessListName, tenantId?: string): Promise<AccessListEntry[]> {
+    await this.load();
+    return Array.from(this.entries.values())
+      .filter(entry => entry.list === list && isSameTenant(entry.tenantId, tenantId));
+  }
+
+  /**
+   * Find the entry that decides for this user. Denylist entries win over
+   * allowlist entries.
+   */
+  async match(userData: UserData): Promise<AccessListEntry | undefined> {
+    await this.load();
+    if (this.entries.size === 0) {
+      return undefined;
+    }
+
+    const entries = Array.from(this.entries.values())
+      .filter(entry => !entry.tenantId || isSameTenant(entry.tenantId, userData.tenantId));
+    const matches = (entry: AccessListEntry) => this.matches(entry, userData);
+
+    return entries.find(entry => entry.list === 'deny' && matches(entry)) ||
+      entries.find(entry => entry.list === 'allow' && matches(entry));
+  }
+
+  private matches(entry: AccessListEntry, userData: UserData): boolean {
+    switch (entry.type) {
+      case 'email':
+        return userData.email.trim().toLowerCase() === entry.value;
+      case 'canonicalEmail':
+        return canonicalizeEmail(userData.email) === entry.value;
+      case 'domain':
+        return matchesDomain(getEmailDomain(userData.email), entry.value);
+      case 'ip':
+        return isSameIP(userData.ipAddress, entry.value);
+      case 'cidr':
+        return isIPInCidr(userData.ipAddress, entry.value);
+      default:
+        return false;
+    }
+  }
+
+  private toEntries(list: AccessListName, type: AccessListType, values: string[], tenantId?: string): AccessListEntry[] {
+    if (!ACCESS_LIST_TYPES.includes(type)) {
+      throw new Error(`Unknown ${list}list entry type: ${type}`);
+    }
+
+    return values.map(value => {
+      const normalized = AccessListService.normalize(type, value);
+      if (normalized === undefined) {
+        throw new Error(`Invalid ${list}list ${type} entry: ${value}`);
+      }
+      return { list, type, value: normalized, ...(tenantId && { tenantId }) };
+    });
+  }
+
+  private seed(allowlist: AccessListConfig = {}, denylist: AccessListConfig = {}, tenantId?: string): void {
+    for (const [list, config] of [['allow', allowlist], ['deny', denylist]] as Array<[AccessListName, AccessListConfig]>) {
+      for (const [type, values] of Object.entries(config) as Array<[AccessListType, string[]]>) {
+        (values || []).forEach(value => this.set({
+          list,
+          type,
+          value: AccessListService.normalize(type, value) as string,
+          ...(tenantId && { tenantId })
+        }));
+      }
+    }
+  }
+
+  private set(entry: AccessListEntry): void {
+    this.entries.set(this.key(entry), {
+      list: entry.list,
+      type: entry.type,
+      value: entry.value,
+      ...(entry.tenantId && { tenantId: entry.tenantId })
+    });
+  }
+
+  private key(entry: AccessListEntry): string {
+    return `${entry.tenantId || ''}:${entry.list}:${entry.type}:${entry.value}`;
+  }
+}
@@ -1,6 +1,10 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import { createHash } from 'crypto';
 import axios from 'axios';
+import { DomainListUpdate, Logger } from '../types';
+import { TypedEventEmitter } from '../core/events';
+import { VERSION } from '../version';
 
 export interface TempDomainConfig {
   /** Local file path to store domains */
@@ -13,13 +17,25 @@ export interface TempDomainConfig {
   externalSources?: string[];
   /** Custom domains to always include */
   customDomains?: string[];
+  /** Where to log updates and failures (default: the console) */
+  logger?: Logger;
 }
 
-export class TempDomainService {
-  private config: Required<TempDomainConfig>;
+export interface TempDomainServiceEvents {
+  updated: (update: DomainListUpdate) => void;
+}
+
+export class TempDomainService extends TypedEventEmitter<TempDomainServiceEvents> {
+  private config: Required<Omit<TempDomainConfig, 'logger'>>;
   private domains: Set<string> = new Set();
   private lastUpdate: Date | null = null;
+  // Fingerprint of `domains`, computed on demand and cleared when they change
+  private listVersion: string | null = null;
   private updateTimer: NodeJS.Timeout | null = null;
+  private initialization: Promise<void>;
+  // Aborts fetches from external sources when the service is destroyed
+  private abortController = new AbortController();
+  private destroyed = false;
 
   // Built-in domain list as fallback
   private readonly builtInDomains = [
@@ -223,16 +239,30 @@ export class TempDomainService {
   ];
 
   constructor(config: TempDomainConfig = {}) {
+    super();
+    const { logger, ...options } = config;
+    if (logger) {
+      this.logger = logger;
+    }
     this.config = {
       localStoragePath: path.join(process.cwd(), 'temp-domains.json'),
       autoUpdate: true,
       updateIntervalHours: 24,
       externalSources: this.defaultExternalSources,
       customDomains: [],
-      ...config
+      ...options
     };
 
-    this.initialize();
+    this.initialization = this.initialize();
+  }
+
+  /**
+   * Resolves once the domain list has been loaded from storage and, with
+   * auto-update, from the external sources. Never rejects: on failure the
+   * built-in list is used.
+   */
+  ready(): Promise<void> {
+    return this.initialization;
   }
 
   private async initialize(): Promise<void> {
@@ -245,12 +275,12 @@ export class TempDomainService {
         await this.updateFromExternalSources();
       }
 
-      // Set up automatic updates
-      if (this.config.autoUpdate) {
+      // Set up automatic updates, unless destroyed while loading
+      if (this.config.autoUpdate && !this.destroyed) {
         this.setupAutoUpdate();
       }
     } catch (error) {
-      console.warn('Failed to initialize temp domain service, using built-in list:', error);
+      this.logger.warn('Failed to initialize temp domain service, using built-in list', { error });
       this.loadBuiltInDomains();
     }
   }
@@ -262,6 +292,7 @@ export class TempDomainService {
       
       if (parsed.domains && Array.isArray(parsed.domains)) {
         this.domains = new Set(parsed.domains);
+        this.listVersion = null;
         this.lastUpdate = parsed.lastUpdate ? new Date(parsed.lastUpdate) : null;
       }
     } catch (error) {
@@ -280,12 +311,13 @@ export class TempDomainService {
 
       await fs.writeFile(this.config.localStoragePath, JSON.stringify(data, null, 2));
     } catch (error) {
-      console.warn('Failed to save temp domains to storage:', error);
+      this.logger.warn('Failed to save temp domains to storage', { path: this.config.localStoragePath, error });
     }
   }
 
   private loadBuiltInDomains(): void {
     this.domains = new Set([...this.builtInDomains, ...this.config.customDomains]);
+    this.listVersion = null;
   }
 
   private async updateFromExternalSources(): Promise<void> {
@@ -300,28 +332,38 @@ export class TempDomainService {
     // Fetch from external sources
     for (const source of this.config.externalSources) {
       try {
-        console.log(`Updating temp domains from: ${source}`);
+        this.logger.debug('Updating temp domains', { source });
         const response = await axios.get(source, { 
           timeout: 10000,
+          signal: this.abortController.signal,
           headers: {
-            'User-Agent': 'trial-abuse-guard/1.0.0'
+            'User-Agent': `trial-abuse-guard/${VERSION}`
           }
         });
         
         const domains = this.parseDomainList(response.data);
         domains.forEach(domain => newDomains.add(domain.toLowerCase()));
         
-        console.log(`Added ${domains.length} domains from ${source}`);
+        this.logger.debug('Fetched temp domains', { source, count: domains.length });
       } catch (error) {
-        console.warn(`Failed to fetch domains from ${source}:`, error instanceof Error ? error.message : String(error));
+        if (this.destroyed) {
+          return;
+        }
+        this.logger.warn('Failed to fetch temp domains', {
+          source,
+          error: error instanceof Error ? error.message : String(error)
+        });
       }
     }
 
     if (newDomains.size > this.domains.size) {
+      const added = newDomains.size - this.domains.size;
       this.domains = newDomains;
+      this.listVersion = null;
       this.lastUpdate = new Date();
       await this.saveToStorage();
-      console.log(`Updated temp domain list: ${this.domains.size} total domains`);
+      this.logger.info('Updated temp domain list', { added, totalDomains: this.domains.size });
+      this.emit('updated', { added, removed: 0, totalDomains: this.domains.size, source: 'external' });
     }
   }
 
@@ -347,7 +389,7 @@ export class TempDomainService {
     const intervalMs = this.config.updateIntervalHours * 60 * 60 * 1000;
     this.updateTimer = setInterval(() => {
       this.updateFromExternalSources().catch(error => {
-        console.warn('Auto-update failed:', error);
+        this.logger.warn('Temp domain auto-update failed', { error });
       });
     }, intervalMs);
   }
@@ -389,8 +431,10 @@ export class TempDomainService {
     }
 
     if (added > 0) {
+      this.listVersion = null;
       await this.saveToStorage();
-      console.log(`Added ${added} custom temp domains`);
+      this.logger.info('Added custom temp domains', { added, totalDomains: this.domains.size });
+      this.emit('updated', { added, removed: 0, totalDomains: this.domains.size, source: 'manual' });
     }
   }
 
@@ -410,8 +454,10 @@ export class TempDomainService {
     }
 
     if (removed > 0) {
+      this.listVersion = null;
       await this.saveToStorage();
-      console.log(`Removed ${removed} temp domains`);
+      this.logger.info('Removed temp domains', { removed, totalDomains: this.domains.size });
+      this.emit('updated', { added: 0, removed, totalDomains: this.domains.size, source: 'manual' });
     }
   }
 
@@ -419,7 +465,7 @@ export class TempDomainService {
    * Force update from external sources
    */
   async forceUpdate(): Promise<void> {
-    console.log('Forcing update of temp domain list...');
+    this.logger.info('Forcing update of temp domain list');
     await this.updateFromExternalSources();
   }
 
@@ -430,6 +476,17 @@ export class TempDomainService {
     return this.lastUpdate;
   }
 
+  /**
+   * Short hash of the domain list, which changes whenever a domain is added
+   * or removed
+   */
+  getVersion(): string {
+    if (this.listVersion === null) {
+      this.listVersion = createHash('sha256').update(this.getAllDomains().join('\n')).digest('hex').slice(0, 12);
+    }
+    return this.listVersion;
+  }
+
   /**
    * Get update statistics
    */
@@ -502,16 +559,27 @@ export class TempDomainService {
    * Clear all domains and reload defaults
    */
   async reset(): Promise<void> {
+    const previousCount = this.domains.size;
     this.domains.clear();
     this.loadBuiltInDomains();
     await this.saveToStorage();
-    console.log('Reset temp domain list to defaults');
+    this.logger.info('Reset temp domain list to defaults', { totalDomains: this.domains.size });
+    this.emit('updated', {
+      added: Math.max(this.domains.size - previousCount, 0),
+      removed: Math.max(previousCount - this.domains.size, 0),
+      totalDomains: this.domains.size,
+      source: 'reset'
+    });
   }
 
   /**
-   * Cleanup - stop auto-updates
+   * Cleanup - stop auto-updates and abort fetches in progress. The domain
+   * list stays usable but is no longer updated.
    */
   destroy(): void {
+    this.destroyed = true;
+    this.abortController.abort();
+    this.removeAllListeners();
     if (this.updateTimer) {
       clearInterval(this.updateTimer);
       this.updateTimer = null;
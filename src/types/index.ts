@@ -9,6 +9,14 @@ export interface TrialAbuseConfig {
   ipCheck?: boolean;
   /** Enable VPN/Proxy detection */
   vpnCheck?: boolean;
+  /** Enable signup velocity detection (needs a storage adapter with `countSignups`) */
+  velocityCheck?: boolean;
+  /** Windows and limits for signup velocity detection */
+  velocity?: VelocityConfig;
+  /** Enable user agent analysis (skipped when no user agent is given) */
+  userAgentCheck?: boolean;
+  /** Limits for user agent analysis */
+  userAgent?: UserAgentConfig;
   /** Custom disposable email domains list */
   customDisposableDomains?: string[];
   /** Enable automatic updates of temp email domains */
@@ -25,15 +33,536 @@ export interface TrialAbuseConfig {
   };
   /** Database/storage adapter for checking existing users */
   storageAdapter?: StorageAdapter;
+  /** Additional detectors to register alongside the built-in ones */
+  detectors?: Detector[];
+  /** Factor weights keyed by detector name, overriding each detector's default weight */
+  weights?: Record<string, number>;
+  /** Overall score thresholds (0-100) for flag/challenge/block recommendations */
+  thresholds?: Partial<RiskThresholds>;
+  /** Overall score cutoffs (0-100) for risk levels */
+  riskLevels?: Partial<RiskLevelThresholds>;
+  /** Policy rules evaluated in order after all factors are analyzed; the first match decides */
+  policies?: PolicyRule[];
+  /** Model that computes the overall score instead of the weighted average of the factors */
+  scorer?: RiskScorer;
+  /** Challenge required by `thresholds.challenge` and by policy rules that don't name one (default 'email_otp') */
+  challengeType?: ChallengeType;
+  /** How long completed challenges keep deciding a user's assessments */
+  challenges?: ChallengeConfig;
+  /** Compute and log decisions but always recommend 'allow' */
+  shadowMode?: boolean;
+  /** Timeout (ms) applied to every detector; unset means no limit */
+  detectorTimeout?: number;
+  /** Per-detector timeouts (ms) keyed by detector name, overriding `detectorTimeout` */
+  detectorTimeouts?: Record<string, number>;
+  /** Overall deadline (ms) for an assessment; unfinished factors are reported as timed out */
+  assessmentTimeout?: number;
+  /** How to treat a factor that errored or timed out, keyed by detector name */
+  degradation?: Record<string, DegradationMode>;
+  /** Degradation mode for factors not listed in `degradation` (default 'ignore') */
+  defaultDegradation?: DegradationMode;
+  /** Entries that are always allowed, checked before any detector runs */
+  allowlist?: AccessListConfig;
+  /** Entries that are always blocked; the denylist wins over the allowlist */
+  denylist?: AccessListConfig;
+  /** Per-tenant settings keyed by tenant id, for users with a `tenantId` */
+  tenants?: Record<string, TenantConfig>;
+  /** Where log output goes (default: the console); wrap a pino logger with `fromPino()` */
+  logger?: Logger;
+  /** Minimum level logged (default 'info'); 'silent' turns logging off */
+  logLevel?: LogLevel;
+  /** Mask email addresses in log messages and fields (default true) */
+  redactEmails?: boolean;
+  /** OpenTelemetry tracer for assessment, detector, provider and storage spans */
+  tracer?: TracerLike;
 }
 
+/** Values recorded as span attributes */
+export type SpanAttributes = Record<string, string | number | boolean | string[] | undefined>;
+
+/** The parts of an OpenTelemetry span the guard uses */
+export interface SpanLike {
+  setAttribute(key: string, value: string | number | boolean): unknown;
+  setAttributes(attributes: SpanAttributes): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  recordException(exception: { name: string }): unknown;
+  end(): void;
+}
+
+/**
+ * The parts of an OpenTelemetry `Tracer` the guard uses, declared here so
+ * that applications without `@opentelemetry/api` can use the typings
+ */
+export interface TracerLike {
+  startActiveSpan<F extends (span: SpanLike) => unknown>(
+    name: string,
+    options: { attributes?: SpanAttributes },
+    fn: F
+  ): ReturnType<F>;
+}
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+/** Structured context logged with a message */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Receives the library's log output. A winston logger can be used as is.
+ */
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+/**
+ * Settings for one tenant. Weights, thresholds and risk levels are merged
+ * over the top-level ones and `policies` replaces them; list entries and
+ * disposable domains are added to the top-level ones.
+ */
+export type TenantConfig = Pick<
+  TrialAbuseConfig,
+  'weights' | 'thresholds' | 'riskLevels' | 'policies' | 'scorer' | 'allowlist' | 'denylist' | 'customDisposableDomains'
+>;
+
+/** Kinds of allowlist/denylist entries */
+export type AccessListType = 'email' | 'canonicalEmail' | 'domain' | 'ip' | 'cidr';
+
+export type AccessListName = 'allow' | 'deny';
+
+/** List entries keyed by type, e.g. `{ domain: ['ourcustomer.com'], cidr: ['203.0.113.0/24'] }` */
+export type AccessListConfig = Partial<Record<AccessListType, string[]>>;
+
+export interface AccessListEntry {
+  list: AccessListName;
+  type: AccessListType;
+  /** Normalized value: lowercased email/domain, canonical email, IP or CIDR range */
+  value: string;
+  /** Tenant the entry applies to; entries without one apply to every tenant */
+  tenantId?: string;
+}
+
+/**
+ * What to do when a factor could not be evaluated:
+ * - `ignore`: leave it out of the score (fail open)
+ * - `flag`: treat it as unknown and recommend at least 'flag'
+ * - `fail-closed`: recommend 'block'
+ */
+export type DegradationMode = 'ignore' | 'flag' | 'fail-closed';
+
+/**
+ * Velocity scopes: the exact IP, its subnet (/24 for IPv4, /64 for IPv6),
+ * or the email domain
+ */
+export type VelocityScope = 'ip' | 'subnet' | 'domain';
+
+export interface VelocityRule {
+  scope: VelocityScope;
+  /** Length of the sliding window in minutes */
+  windowMinutes: number;
+  /** Number of other accounts in the window at which the signup is flagged */
+  limit: number;
+}
+
+export interface VelocityConfig {
+  /** Rules to check; defaults to DEFAULT_VELOCITY_RULES */
+  rules?: VelocityRule[];
+  /** Email domains excluded from the domain scope; defaults to common free-mail providers */
+  ignoredDomains?: string[];
+}
+
+export interface UserAgentConfig {
+  /** Browser releases older than this are flagged as outdated (default 730) */
+  maxBrowserAgeDays?: number;
+  /** Number of other accounts with the same user agent and IP at which the signup is flagged (default 3) */
+  maxAccountsPerDevice?: number;
+  /** How far back to count accounts with the same user agent and IP, in days (default 30) */
+  deviceWindowDays?: number;
+}
+
+export interface ChallengeConfig {
+  /** How long a passed challenge spares the user the same challenge, in hours (default 720) */
+  passTtlHours?: number;
+  /** How long a failed challenge blocks the user instead of challenging them again, in hours (default 24) */
+  failureWindowHours?: number;
+}
+
+export interface PolicyRule {
+  /** Unique rule id, reported in `RiskScore.matchedRules` */
+  id: string;
+  /** Human-readable description of the rule */
+  description?: string;
+  /** Condition that must match for the rule to fire */
+  when: PolicyCondition;
+  /** Recommendation to return when the rule fires */
+  action: Recommendation;
+  /** Challenge to require when `action` is 'challenge' (default: the `challengeType` option) */
+  challenge?: ChallengeType;
+}
+
+/**
+ * A policy condition. Every field that is set must match; nested
+ * `all`/`any`/`not` conditions allow arbitrary combinations.
+ */
+export interface PolicyCondition {
+  /** All nested conditions must match */
+  all?: PolicyCondition[];
+  /** At least one nested condition must match */
+  any?: PolicyCondition[];
+  /** The nested condition must not match */
+  not?: PolicyCondition;
+  /** Detector name that `detected`, `minScore`, `maxScore` and `flag` apply to */
+  factor?: string;
+  /** The factor's detected flag must equal this value */
+  detected?: boolean;
+  /** The factor score must be at least this value */
+  minScore?: number;
+  /** The factor score must be at most this value */
+  maxScore?: number;
+  /** Metadata flag (e.g. `isTor`) that must be true on the factor, or on any factor when `factor` is not set */
+  flag?: string;
+  /** Reason code(s) the factor, or any factor when `factor` is not set, must report */
+  reason?: ReasonCode | ReasonCode[];
+  /** IP country code must be one of these */
+  ipCountry?: string[];
+  /** Email domain must be one of these (subdomains match) */
+  emailDomain?: string[];
+  /** The overall score must be at least this value */
+  minOverall?: number;
+  /** The overall score must be at most this value */
+  maxOverall?: number;
+}
+
+export interface RiskThresholds {
+  /** Scores at or above this are flagged (default 50) */
+  flag: number;
+  /** Scores at or above this are blocked (default 80) */
+  block: number;
+  /** Scores at or above this, and below `block`, must pass a challenge (unset: never) */
+  challenge?: number;
+}
+
+export interface RiskLevelThresholds {
+  /** Lowest score considered medium risk (default 30) */
+  medium: number;
+  /** Lowest score considered high risk (default 60) */
+  high: number;
+  /** Lowest score considered critical risk (default 80) */
+  critical: number;
+}
+
+export interface Detector {
+  /** Unique detector name, used as the key in `RiskScore.factors` */
+  readonly name: string;
+  /** Relative weight of this factor in the overall risk score */
+  readonly weight: number;
+  /** Analyze the user and return a risk factor */
+  analyze(userData: UserData, context?: DetectionContext): Promise<RiskFactor>;
+  /** Return false to skip this detector for the given user */
+  shouldRun?(userData: UserData): boolean;
+  /** Finish asynchronous setup, e.g. loading a list; awaited by `ready()` */
+  ready?(): Promise<void>;
+  /** Release timers and connections; called by `destroy()` */
+  destroy?(): void | Promise<void>;
+}
+
+export interface DetectionContext {
+  /** Aborted when the detector times out; pass it on to network calls */
+  signal?: AbortSignal;
+  /** Lookups shared by all users of a batch; only set by `checkUsers()` */
+  cache?: DetectionCache;
+  /** Users that come before this one in the same batch and aren't stored yet */
+  batchPeers?: readonly UserData[];
+  /**
+   * Users before this one in the same batch that `record` has stored. They
+   * are counted by storage queries, but may be missing from lookups cached
+   * before they were stored.
+   */
+  batchRecorded?: readonly UserData[];
+}
+
+/**
+ * Memo shared across a batch so detectors load each lookup once
+ */
+export interface DetectionCache {
+  /** Return the cached value for `key`, loading it on first use. Failed loads are not cached. */
+  getOrLoad<T>(key: string, load: () => Promise<T>): Promise<T>;
+}
+
+/** Whose data the database adapters' `cleanup()` purges; by default every tenant's */
+export interface CleanupOptions {
+  /** Only purge this tenant's data */
+  tenantId?: string;
+  /** Only purge data stored without a tenant; ignored when `tenantId` is set */
+  defaultTenantOnly?: boolean;
+}
+
+export interface SignupCountQuery {
+  /** Only signups from this exact IP */
+  ipAddress?: string;
+  /** Only signups from this CIDR range */
+  cidr?: string;
+  /** Only signups with this email domain */
+  emailDomain?: string;
+  /** Only signups with this exact user agent */
+  userAgent?: string;
+  /** Only signups of this tenant; unset counts signups without a tenant */
+  tenantId?: string;
+  /** Only signups at or after this time */
+  since: Date;
+  /** Only signups at or before this time */
+  until: Date;
+  /** Email to leave out of the count (the user being assessed) */
+  excludeEmail?: string;
+  /** More emails to leave out, such as batch peers the caller counts itself */
+  excludeEmails?: string[];
+}
+
+export interface UserPage {
+  users: UserData[];
+  /** Cursor for the next page; absent on the last page */
+  nextCursor?: string;
+}
+
+export interface BatchOptions {
+  /** Maximum number of users assessed at the same time (default 10) */
+  concurrency?: number;
+  /** Record users and their assessments like `checkUser()` does (default false) */
+  record?: boolean;
+  /** Compare each user's email with the users before it in the batch (default true) */
+  compareWithinBatch?: boolean;
+}
+
+export interface RescanOptions {
+  /** Cursor from a previous page, to resume a rescan */
+  cursor?: string;
+  /** Users per page (default 100) */
+  pageSize?: number;
+  /** Maximum number of users assessed at the same time (default 10) */
+  concurrency?: number;
+  /** Tenant whose users are rescanned; unset rescans users without a tenant */
+  tenantId?: string;
+}
+
+export interface RescanChange {
+  userData: UserData;
+  /** Recommendation of the latest stored assessment, if there is one */
+  previous?: Recommendation;
+  result: RiskScore;
+}
+
+export interface RescanPage {
+  /** Users whose recommendation changed */
+  changes: RescanChange[];
+  /** Number of users assessed in this page */
+  scanned: number;
+  /** Users whose assessment failed */
+  errors: Array<{ userData: UserData; error: Error }>;
+  /** Pass as `cursor` to resume after this page; absent on the last page */
+  nextCursor?: string;
+}
+
+export interface BatchResult {
+  /** Position of the user in the input */
+  index: number;
+  userData: UserData;
+  result?: RiskScore;
+  /** Set instead of `result` when the assessment failed */
+  error?: Error;
+}
+
+/** A user to assess in a batch; the timestamp defaults to now */
+export type BatchUser = Omit<UserData, 'timestamp'> & Partial<Pick<UserData, 'timestamp'>>;
+
+/**
+ * Storage for users, assessments and list entries. Reads are scoped to a
+ * single tenant: an undefined `tenantId` means users without a tenant.
+ */
 export interface StorageAdapter {
-  /** Get all existing user emails for similarity comparison */
-  getExistingEmails(): Promise<string[]>;
+  /** Get all existing user emails of a tenant for similarity comparison */
+  getExistingEmails(tenantId?: string): Promise<string[]>;
   /** Get existing IP addresses for the user */
-  getExistingIPs(email: string): Promise<string[]>;
-  /** Store user data for future comparisons */
+  getExistingIPs(email: string, tenantId?: string): Promise<string[]>;
+  /** Store user data for future comparisons, under `data.tenantId` */
   storeUserData(data: UserData): Promise<void>;
+  /** Count distinct emails that signed up in a scope since a time, for velocity detection */
+  countSignups?(query: SignupCountQuery): Promise<number>;
+  /** Page through users (latest data per email), ordered so that `nextCursor` resumes after the page */
+  listUsers?(cursor: string | undefined, limit: number, tenantId?: string): Promise<UserPage>;
+  /** Append an assessment to the audit log */
+  storeAssessment?(record: AssessmentRecord): Promise<void>;
+  /** Query the audit log, newest first */
+  queryAssessments?(query: AssessmentQuery): Promise<AssessmentRecord[]>;
+  /** Load all persisted allowlist/denylist entries, of every tenant */
+  getAccessListEntries?(): Promise<AccessListEntry[]>;
+  /** Persist allowlist/denylist entries, ignoring ones that already exist */
+  storeAccessListEntries?(entries: AccessListEntry[]): Promise<void>;
+  /** Delete persisted allowlist/denylist entries */
+  removeAccessListEntries?(entries: AccessListEntry[]): Promise<void>;
+  /** Append an outcome label */
+  storeOutcome?(record: OutcomeRecord): Promise<void>;
+  /** Get a tenant's outcome labels, oldest first */
+  getOutcomes?(tenantId?: string): Promise<OutcomeRecord[]>;
+  /** Store a challenge, replacing the stored one with the same id */
+  storeChallenge?(record: ChallengeRecord): Promise<void>;
+  /** Get a challenge by id */
+  getChallenge?(id: string): Promise<ChallengeRecord | null>;
+  /** Get the challenges issued to an email in a tenant, newest first */
+  getChallenges?(email: string, tenantId?: string): Promise<ChallengeRecord[]>;
+  /**
+   * Pass or fail a challenge in one atomic step, only if it is still
+   * pending. Returns the completed challenge, or null when it doesn't exist
+   * or isn't pending.
+   */
+  completeChallenge?(id: string, status: Exclude<ChallengeStatus, 'pending'>, completedAt: Date): Promise<ChallengeRecord | null>;
+  /** Open the connection; called by `ready()`, so it must be safe to call when already connected */
+  connect?(): Promise<void>;
+  /** Close the connection; called by `destroy()` */
+  disconnect?(): Promise<void>;
+}
+
+/** What a trial turned out to be, as found out after the fact */
+export type OutcomeLabel = 'fraud' | 'legit';
+
+export interface OutcomeRecord {
+  email: string;
+  label: OutcomeLabel;
+  /** When the outcome was reported */
+  reportedAt: Date;
+  tenantId?: string;
+  /** Free-form context, e.g. "chargeback" or a support ticket id */
+  note?: string;
+}
+
+/** Step-up verification a user must pass before their trial starts */
+export type ChallengeType = 'email_otp' | 'captcha' | 'phone';
+
+export type ChallengeStatus = 'pending' | 'passed' | 'failed';
+
+/** Challenge of a 'challenge' recommendation */
+export interface ChallengeRequest {
+  type: ChallengeType;
+  /** Id to pass to `completeChallenge()`; set once `checkTrialAbuse()` has stored the challenge */
+  id?: string;
+}
+
+/** A stored challenge and the user it was issued to */
+export interface ChallengeRecord {
+  id: string;
+  type: ChallengeType;
+  status: ChallengeStatus;
+  email: string;
+  ipAddress: string;
+  userAgent?: string;
+  tenantId?: string;
+  createdAt: Date;
+  /** When the challenge was passed or failed */
+  completedAt?: Date;
+}
+
+export interface OutcomeOptions {
+  tenantId?: string;
+  note?: string;
+}
+
+/**
+ * Confusion matrix of a factor (or of the recommendation) against outcome
+ * labels, where 'fraud' is the positive class. Rates are undefined when
+ * there are no users to compute them from.
+ */
+export interface DetectionStats {
+  truePositives: number;
+  falsePositives: number;
+  trueNegatives: number;
+  falseNegatives: number;
+  /** Share of detected users that were fraud */
+  precision?: number;
+  /** Share of fraud users that were detected */
+  recall?: number;
+  /** Share of legitimate users that were detected */
+  falsePositiveRate?: number;
+}
+
+export interface OutcomeStats {
+  /** Users with an outcome label */
+  labeled: number;
+  /** Labeled users with an assessment made before the label was reported */
+  assessed: number;
+  /** The recommendation, counting anything but 'allow' as detected */
+  recommendation: DetectionStats;
+  /** Per factor, counting `detected`; factors that didn't run for a user are left out */
+  factors: Record<string, DetectionStats>;
+}
+
+/**
+ * Computes the overall score (0-100) from the factors, replacing the
+ * weighted average. Thresholds, policies and degradation still apply.
+ */
+export interface RiskScorer {
+  /** Identifies the model; stamped on each `RiskScore` it produces */
+  readonly version: string;
+  score(factors: RiskFactors): number;
+}
+
+/** Serialized `LogisticRegressionScorer` */
+export interface LogisticRegressionModel {
+  type: 'logistic-regression';
+  version: string;
+  intercept: number;
+  /** Coefficient per feature name; features missing here are ignored */
+  coefficients: Record<string, number>;
+  /** ISO timestamp of training */
+  trainedAt?: string;
+  /** Number of labeled assessments the model was trained on */
+  samples?: number;
+}
+
+export interface TrainingSample {
+  factors: RiskFactors;
+  label: OutcomeLabel;
+}
+
+export interface TrainingOptions {
+  /** Gradient descent iterations (default: 2000) */
+  iterations?: number;
+  /** Gradient descent step size (default: 0.5) */
+  learningRate?: number;
+  /** L2 regularization strength (default: 0.01) */
+  l2?: number;
+  /** Model version (default: derived from the coefficients) */
+  version?: string;
+}
+
+/**
+ * A persisted assessment: the inputs, the result and the scoring
+ * configuration that produced it
+ */
+export interface AssessmentRecord {
+  email: string;
+  ipAddress: string;
+  userAgent?: string;
+  tenantId?: string;
+  /** When the assessment was made */
+  assessedAt: Date;
+  result: RiskScore;
+  /** Fingerprint of the scoring configuration in effect, as returned by `getConfigVersion()` */
+  configVersion: string;
+  /** Effective factor weights, keyed by detector name */
+  weights: Record<string, number>;
+}
+
+export interface AssessmentQuery {
+  email?: string;
+  ipAddress?: string;
+  /** Tenant to query; unset queries assessments of users without a tenant */
+  tenantId?: string;
+  /** Only assessments made at or after this time */
+  from?: Date;
+  /** Only assessments made at or before this time */
+  to?: Date;
+  /** Maximum number of records to return (default 100) */
+  limit?: number;
 }
 
 export interface UserData {
@@ -41,35 +570,155 @@ export interface UserData {
   ipAddress: string;
   userAgent?: string;
   timestamp: Date;
+  /** Tenant (product or namespace) the user signs up to */
+  tenantId?: string;
 }
 
 export interface RiskScore {
   /** Overall risk score (0-100, where 100 is highest risk) */
   overall: number;
-  /** Individual risk factors */
-  factors: {
-    emailSimilarity: RiskFactor;
-    tempEmail: RiskFactor;
-    ipRisk: RiskFactor;
-    vpnDetection: RiskFactor;
-  };
+  /** Individual risk factors, keyed by detector name */
+  factors: RiskFactors;
   /** Recommended action based on risk score */
-  recommendation: 'allow' | 'flag' | 'block';
-  /** Detailed explanation of the risk assessment */
+  recommendation: Recommendation;
+  /** Detailed explanation of the risk assessment, rendered from `reasons` */
   details: string[];
+  /** Machine-readable reasons behind the assessment */
+  reasons: RiskReason[];
+  /** Ids of all policy rules whose conditions matched, in rule order */
+  matchedRules: string[];
+  /** Id of the policy rule that decided the recommendation, if any */
+  appliedRule?: string;
+  /** Challenge the user must pass, set when the recommendation is 'challenge' */
+  challenge?: ChallengeRequest;
+  /** In shadow mode, the recommendation that would have been returned */
+  shadowRecommendation?: Recommendation;
+  /** Version of the `scorer` that computed `overall`, unset for the weighted average */
+  modelVersion?: string;
+  /** Versions of the configuration, library and lists that produced the result */
+  versions?: ScoringVersions;
+}
+
+/**
+ * What produced an assessment. Results with different versions may not be
+ * comparable.
+ */
+export interface ScoringVersions {
+  /** Fingerprint of the scoring configuration, as returned by `getConfigVersion()` */
+  config: string;
+  /** Version of trial-abuse-guard */
+  library: string;
+  /** Fingerprint of the disposable domain list, including the tenant's own domains */
+  domainList: string;
+  /** Fingerprint of the policy rules */
+  policy: string;
+}
+
+/** How one factor differs between two assessments */
+export interface FactorChange {
+  factor: string;
+  scoreBefore?: number;
+  scoreAfter?: number;
+  /**
+   * Points the factor added to the overall score, unset when the factor is
+   * missing or the score was computed by a `scorer`
+   */
+  contributionBefore?: number;
+  contributionAfter?: number;
+  statusBefore?: FactorStatus;
+  statusAfter?: FactorStatus;
+  addedReasons: ReasonCode[];
+  removedReasons: ReasonCode[];
+}
+
+/** Difference between two assessments of the same user */
+export interface AssessmentDiff {
+  scoreBefore: number;
+  scoreAfter: number;
+  recommendationBefore: Recommendation;
+  recommendationAfter: Recommendation;
+  /** Factors that changed, those that moved the score most first */
+  factors: FactorChange[];
+  addedReasons: ReasonCode[];
+  removedReasons: ReasonCode[];
+  /** Versions that differ; versions missing from either result aren't compared */
+  changedVersions: Array<keyof ScoringVersions>;
+  /** Human-readable explanation of the change */
+  explanation: string[];
 }
 
+/** Risk factors keyed by detector name (emailSimilarity, tempEmail, ipRisk, vpnDetection, ...) */
+export type RiskFactors = Record<string, RiskFactor>;
+
+/** Whether a factor was evaluated (`ok`) or not (`error`, `timeout`, `skipped`) */
+export type FactorStatus = 'ok' | 'error' | 'timeout' | 'skipped';
+
 export interface RiskFactor {
   score: number; // 0-100
   detected: boolean;
   confidence: number; // 0-1
+  /** Evaluation status, set by the guard */
+  status?: FactorStatus;
   details?: string;
+  /** Machine-readable reasons for the factor's result */
+  reasons?: RiskReason[];
+  /** Structured detector output (e.g. country, isVPN, isTor) that policies can match on */
+  metadata?: Record<string, unknown>;
+}
+
+export type BuiltInReasonCode =
+  | 'EMAIL_SIMILAR'
+  | 'EMAIL_SIMILAR_NUMBERED'
+  | 'EMAIL_SIMILAR_SEQUENTIAL'
+  | 'EMAIL_DISPOSABLE_LIST'
+  | 'EMAIL_SUSPICIOUS_DOMAIN_PATTERN'
+  | 'EMAIL_SUSPICIOUS_LOCAL_PATTERN'
+  | 'EMAIL_SUSPICIOUS_TLD'
+  | 'EMAIL_SHORT_DOMAIN'
+  | 'EMAIL_DOMAIN_UNUSUAL_CHARS'
+  | 'EMAIL_DOMAIN_RANDOM'
+  | 'IP_HIGH_RISK'
+  | 'IP_VPN'
+  | 'IP_PROXY'
+  | 'IP_TOR_EXIT'
+  | 'POLICY_RULE_MATCHED'
+  | 'VELOCITY_IP'
+  | 'VELOCITY_SUBNET'
+  | 'VELOCITY_DOMAIN'
+  | 'UA_EMPTY'
+  | 'UA_HEADLESS'
+  | 'UA_AUTOMATION'
+  | 'UA_OUTDATED_BROWSER'
+  | 'UA_IMPOSSIBLE_VERSION'
+  | 'UA_SHARED_DEVICE'
+  | 'LIST_ALLOWED'
+  | 'LIST_DENIED'
+  | 'CHALLENGE_PASSED'
+  | 'CHALLENGE_FAILED'
+  | 'DETECTOR_ERROR'
+  | 'DETECTOR_TIMEOUT'
+  | 'DETECTOR_SKIPPED';
+
+/** Stable reason code; custom detectors may use their own codes */
+export type ReasonCode = BuiltInReasonCode | (string & Record<never, never>);
+
+export interface RiskReason {
+  /** Stable machine-readable code, e.g. EMAIL_DISPOSABLE_LIST */
+  code: ReasonCode;
+  /** Detector that reported the reason (set on `RiskScore.reasons`) */
+  factor?: string;
+  /** Structured evidence supporting the reason */
+  evidence?: Record<string, unknown>;
+  /** Optional human-readable text, overriding the built-in template */
+  message?: string;
 }
 
 export interface EmailSimilarityResult {
   similarEmails: Array<{
     email: string;
     similarity: number;
+    /** Numbering pattern shared with the new email, if any */
+    pattern?: 'numbered' | 'sequential';
   }>;
   highestSimilarity: number;
   suspicious: boolean;
@@ -88,4 +737,48 @@ export interface IPAnalysisResult {
   asn?: string;
 }
 
-export type RiskLevel = 'low' | 'medium' | 'high' | 'critical';
\ No newline at end of file
+export type Recommendation = 'allow' | 'flag' | 'challenge' | 'block';
+
+export type RiskLevel = 'low' | 'medium' | 'high' | 'critical';
+export interface DomainListUpdate {
+  /** Number of domains added to the list */
+  added: number;
+  /** Number of domains removed from the list */
+  removed: number;
+  /** Domain count after the update */
+  totalDomains: number;
+  /** What changed the list */
+  source: 'external' | 'manual' | 'reset';
+}
+
+/** One request to an external IP or VPN lookup provider */
+export interface ProviderCall {
+  /** Provider name, e.g. 'IPQualityScore' or 'ProxyCheck' */
+  provider: string;
+  /** 'timeout' when the request timed out or was aborted */
+  status: 'ok' | 'error' | 'timeout';
+  durationMs: number;
+}
+
+/** Events emitted by detectors that call external providers */
+export interface ProviderEvents {
+  'provider.completed': (event: ProviderCall) => void;
+}
+
+/**
+ * Lifecycle events emitted by TrialAbuseGuard, mapped to their listener
+ * signatures
+ */
+export interface TrialAbuseGuardEvents {
+  'assessment.started': (event: { userData: UserData }) => void;
+  'factor.completed': (event: { userData: UserData; factor: string; result: RiskFactor; durationMs: number }) => void;
+  'assessment.completed': (event: { userData: UserData; result: RiskScore; durationMs: number }) => void;
+  'decision.block': (event: { userData: UserData; result: RiskScore }) => void;
+  'decision.flag': (event: { userData: UserData; result: RiskScore }) => void;
+  'decision.challenge': (event: { userData: UserData; result: RiskScore }) => void;
+  'challenge.completed': (event: { challenge: ChallengeRecord; result: RiskScore }) => void;
+  'domains.updated': (event: DomainListUpdate) => void;
+  'detector.error': (event: { userData: UserData; factor: string; error: unknown }) => void;
+  'outcome.reported': (event: OutcomeRecord) => void;
+  'provider.completed': (event: ProviderCall) => void;
+}
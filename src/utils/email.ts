@@ -0,0 +1,39 @@
+// Providers that ignore dots in the local part
+const DOT_INSENSITIVE_DOMAINS = ['gmail.com', 'googlemail.com'];
+
+// Domains that are aliases of another provider domain
+const DOMAIN_ALIASES: Record<string, string> = {
+  'googlemail.com': 'gmail.com'
+};
+
+export function getEmailDomain(email: string): string {
+  return email.trim().toLowerCase().split('@')[1] || '';
+}
+
+/**
+ * Normalize an email address to the mailbox it delivers to: lowercased,
+ * without a +tag, and without dots for providers that ignore them
+ * (j.doe+trial@googlemail.com -> jdoe@gmail.com)
+ */
+export function canonicalizeEmail(email: string): string {
+  const [rawLocal, rawDomain] = email.trim().toLowerCase().split('@');
+  if (rawDomain === undefined) {
+    return email.trim().toLowerCase();
+  }
+
+  let local = rawLocal.split('+')[0];
+  if (DOT_INSENSITIVE_DOMAINS.includes(rawDomain)) {
+    local = local.replace(/\./g, '');
+  }
+  const domain = DOMAIN_ALIASES[rawDomain] || rawDomain;
+
+  return `${local}@${domain}`;
+}
+
+/**
+ * Whether a domain equals the expected domain or is a subdomain of it
+ */
+export function matchesDomain(domain: string, expected: string): boolean {
+  const normalized = expected.toLowerCase();
+  return domain === normalized || domain.endsWith(`.${normalized}`);
+}
@@ -0,0 +1,177 @@
+import { isIP } from 'net';
+
+export interface ParsedIP {
+  version: 4 | 6;
+  value: bigint;
+}
+
+export interface ParsedCidr extends ParsedIP {
+  prefix: number;
+}
+
+/**
+ * Parse an IPv4 or IPv6 address into a number. IPv4-mapped IPv6 addresses
+ * (::ffff:1.2.3.4) are treated as IPv4.
+ */
+export function parseIP(ip: string): ParsedIP | undefined {
+  const address = ip.trim().split('%')[0];
+  const version = isIP(address);
+
+  if (version === 4) {
+    const value = address.split('.').reduce((acc, part) => (acc << 8n) + BigInt(parseInt(part, 10)), 0n);
+    return { version: 4, value };
+  }
+
+  if (version === 6) {
+    const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+    if (mapped) {
+      return parseIP(mapped[1]);
+    }
+    return { version: 6, value: parseIPv6(address) };
+  }
+
+  return undefined;
+}
+
+function parseIPv6(address: string): bigint {
+  let groups = address;
+
+  // Convert a trailing dotted IPv4 part into two hex groups
+  const ipv4Tail = groups.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  const v4 = ipv4Tail && parseIP(ipv4Tail[1]);
+  if (ipv4Tail && v4) {
+    groups = groups.slice(0, -ipv4Tail[1].length) + `${(v4.value >> 16n).toString(16)}:${(v4.value & 0xffffn).toString(16)}`;
+  }
+
+  const [head, tail] = groups.split('::');
+  const headParts = head ? head.split(':') : [];
+  const tailParts = tail !== undefined && tail ? tail.split(':') : [];
+  const missing = 8 - headParts.length - tailParts.length;
+  const parts = [...headParts, ...Array(tail !== undefined ? missing : 0).fill('0'), ...tailParts];
+
+  return parts.reduce((acc, part) => (acc << 16n) + BigInt(parseInt(part, 16)), 0n);
+}
+
+/**
+ * Parse a CIDR range such as 203.0.113.0/24 or 2001:db8::/32. A bare
+ * address is treated as a single-address range.
+ */
+export function parseCidr(cidr: string): ParsedCidr | undefined {
+  const [address, prefixText] = cidr.trim().split('/');
+  const ip = parseIP(address);
+  if (!ip) {
+    return undefined;
+  }
+
+  const bits = ip.version === 4 ? 32 : 128;
+  const prefix = prefixText === undefined ? bits : Number(prefixText);
+  if (!Number.isInteger(prefix) || prefix < 0 || prefix > bits || (prefixText !== undefined && !/^\d+$/.test(prefixText))) {
+    return undefined;
+  }
+
+  return { ...ip, value: maskIP(ip.value, bits, prefix), prefix };
+}
+
+function maskIP(value: bigint, bits: number, prefix: number): bigint {
+  const hostBits = BigInt(bits - prefix);
+  return (value >> hostBits) << hostBits;
+}
+
+function formatIP(ip: ParsedIP): string {
+  if (ip.version === 4) {
+    return [24n, 16n, 8n, 0n].map(shift => ((ip.value >> shift) & 0xffn).toString()).join('.');
+  }
+  const groups: string[] = [];
+  for (let shift = 112n; shift >= 0n; shift -= 16n) {
+    groups.push(((ip.value >> shift) & 0xffffn).toString(16));
+  }
+  return groups.join(':');
+}
+
+/**
+ * The /24 (IPv4) or /64 (IPv6) network containing an IP address, in CIDR
+ * notation
+ */
+export function getSubnet(ip: string): string | undefined {
+  const address = parseIP(ip);
+  if (!address) {
+    return undefined;
+  }
+
+  const prefix = address.version === 4 ? 24 : 64;
+  const network = maskIP(address.value, address.version === 4 ? 32 : 128, prefix);
+  return `${formatIP({ version: address.version, value: network })}/${prefix}`;
+}
+
+/**
+ * Whether an IP address falls inside a CIDR range
+ */
+export function isIPInCidr(ip: string, cidr: string): boolean {
+  const address = parseIP(ip);
+  const range = parseCidr(cidr);
+  if (!address || !range || address.version !== range.version) {
+    return false;
+  }
+
+  const bits = address.version === 4 ? 32 : 128;
+  return maskIP(address.value, bits, range.prefix) === range.value;
+}
+
+/**
+ * Whether two strings are the same IP address, ignoring formatting
+ * differences such as IPv6 zero compression
+ */
+export function isSameIP(a: string, b: string): boolean {
+  const left = parseIP(a);
+  const right = parseIP(b);
+  return !!left && !!right && left.version === right.version && left.value === right.value;
+}
+
+/**
+ * An IP address in one canonical form, so that stored and queried addresses
+ * compare equal when `isSameIP` says they are. Unparseable input is returned
+ * trimmed.
+ */
+export function normalizeIP(ip: string): string {
+  const address = parseIP(ip);
+  return address ? formatIP(address) : ip.trim();
+}
+
+/**
+ * A CIDR range in one canonical form, with its address normalized as by
+ * `normalizeIP` and host bits cleared. Unparseable input is returned trimmed.
+ */
+export function normalizeCidr(cidr: string): string {
+  const range = parseCidr(cidr);
+  return range ? `${formatIP(range)}/${range.prefix}` : cidr.trim();
+}
+
+// Fixed-width hex, so that keys of one IP version sort like the addresses
+function formatIPKey(version: 4 | 6, value: bigint): string {
+  return `${version}:${value.toString(16).padStart(version === 4 ? 8 : 32, '0')}`;
+}
+
+/**
+ * A string key for an IP address that sorts in address order, for storage
+ * that indexes addresses as strings
+ */
+export function getIPKey(ip: string): string | undefined {
+  const address = parseIP(ip);
+  return address ? formatIPKey(address.version, address.value) : undefined;
+}
+
+/**
+ * The first and last `getIPKey` keys of a CIDR range
+ */
+export function getCidrKeyRange(cidr: string): { first: string; last: string } | undefined {
+  const range = parseCidr(cidr);
+  if (!range) {
+    return undefined;
+  }
+
+  const hostBits = BigInt((range.version === 4 ? 32 : 128) - range.prefix);
+  return {
+    first: formatIPKey(range.version, range.value),
+    last: formatIPKey(range.version, range.value | ((1n << hostBits) - 1n))
+  };
+}
@@ -0,0 +1,33 @@
+import axios from 'axios';
+import { ProviderCall, TracerLike } from '../types';
+import { withSpan } from '../core/tracing';
+
+const TIMEOUT_CODES = ['ECONNABORTED', 'ETIMEDOUT', 'ERR_CANCELED'];
+
+/**
+ * Run a request to an external provider, reporting its outcome and latency
+ * to `report` whether it succeeds or not. With a tracer, the request runs
+ * in a `trial_abuse.provider.<provider>` span.
+ */
+export async function trackProviderCall<T>(
+  provider: string,
+  request: () => Promise<T>,
+  report: (call: ProviderCall) => void,
+  tracer?: TracerLike
+): Promise<T> {
+  return withSpan(tracer, `trial_abuse.provider.${provider}`, async span => {
+    const startedAt = Date.now();
+    try {
+      const result = await request();
+      span?.setAttribute('trial_abuse.provider.status', 'ok');
+      report({ provider, status: 'ok', durationMs: Date.now() - startedAt });
+      return result;
+    } catch (error) {
+      const timedOut = axios.isCancel(error) || (axios.isAxiosError(error) && TIMEOUT_CODES.includes(error.code ?? ''));
+      const status = timedOut ? 'timeout' : 'error';
+      span?.setAttribute('trial_abuse.provider.status', status);
+      report({ provider, status, durationMs: Date.now() - startedAt });
+      throw error;
+    }
+  }, { 'trial_abuse.provider': provider });
+}
@@ -0,0 +1,45 @@
+import { UserData, SignupCountQuery, StorageAdapter } from '../types';
+import { getEmailDomain } from './email';
+import { isSameIP, isIPInCidr } from './ip';
+import { isSameTenant } from './tenant';
+
+/**
+ * Whether a stored signup is counted by a signup count query, for adapters
+ * and detectors that filter signups in memory
+ */
+export function matchesSignupQuery(data: UserData, query: SignupCountQuery): boolean {
+  const email = data.email.toLowerCase();
+  return isSameTenant(data.tenantId, query.tenantId) &&
+    email !== query.excludeEmail?.toLowerCase() &&
+    !(query.excludeEmails || []).some(excluded => excluded.toLowerCase() === email) &&
+    data.timestamp >= query.since &&
+    data.timestamp <= query.until &&
+    (query.ipAddress === undefined || isSameIP(data.ipAddress, query.ipAddress)) &&
+    (query.cidr === undefined || isIPInCidr(data.ipAddress, query.cidr)) &&
+    (query.emailDomain === undefined || getEmailDomain(email) === query.emailDomain.toLowerCase()) &&
+    (query.userAgent === undefined || data.userAgent === query.userAgent);
+}
+
+/**
+ * Distinct emails among stored signups and batch peers matching a query.
+ * Peers are left out of the stored count, so a peer that has already been
+ * stored is counted once.
+ */
+export async function countSignupsWithPeers(
+  storageAdapter: StorageAdapter | undefined,
+  query: SignupCountQuery,
+  peers: readonly UserData[] = []
+): Promise<number> {
+  if (!storageAdapter?.countSignups) {
+    throw new Error('Storage adapter does not support counting signups');
+  }
+
+  const peerEmails = Array.from(new Set(
+    peers.filter(peer => matchesSignupQuery(peer, query)).map(peer => peer.email.toLowerCase())
+  ));
+  const stored = await storageAdapter.countSignups({
+    ...query,
+    ...(peerEmails.length > 0 && { excludeEmails: [...(query.excludeEmails || []), ...peerEmails] })
+  });
+  return stored + peerEmails.length;
+}
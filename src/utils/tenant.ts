@@ -0,0 +1,7 @@
+/**
+ * Whether two tenant ids name the same tenant. Undefined and empty ids
+ * both mean the default tenant.
+ */
+export function isSameTenant(a: string | undefined, b: string | undefined): boolean {
+  return (a || undefined) === (b || undefined);
+}
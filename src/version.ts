@@ -0,0 +1,2 @@
+/** Version of trial-abuse-guard, kept in sync with package.json */
+export const VERSION = '1.0.0';
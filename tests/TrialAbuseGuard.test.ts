@@ -1,5 +1,28 @@
 import { TrialAbuseGuard } from '../src/core/TrialAbuseGuard';
-import { StorageAdapter, UserData } from '../src/types';
+import { ClerkTrialAbuseAdapter } from '../src/integrations/clerk/ClerkAdapter';
+import { InMemoryStorageAdapter } from '../src/adapters/InMemoryStorageAdapter';
+import { IPAnalyzer } from '../src/detectors/IPAnalyzer';
+import { LogisticRegressionScorer } from '../src/core/LogisticRegressionScorer';
+import { validateConfig } from '../src/core/validation';
+import { ConfigValidationError } from '../src/core/errors';
+import { RedisStorageAdapter } from '../src/adapters/RedisStorageAdapter';
+import { PostgreSQLStorageAdapter } from '../src/adapters/PostgreSQLStorageAdapter';
+import { MongoStorageAdapter } from '../src/adapters/MongoStorageAdapter';
+import { loadConfig } from '../src/core/configLoader';
+import { createTrialGuard } from '../src';
+import { createLogger, fromPino, redactEmail } from '../src/core/logger';
+import { NextAuthTrialAbuseAdapter } from '../src/integrations/nextauth/NextAuthAdapter';
+import { TrialAbuseMetrics } from '../src/core/metrics';
+import { diffAssessments } from '../src/core/diff';
+import { VERSION } from '../src/version';
+import axios, { AxiosError } from 'axios';
+import { context } from '@opentelemetry/api';
+import { AsyncLocalStorageContextManager } from '@opentelemetry/context-async-hooks';
+import { BasicTracerProvider, InMemorySpanExporter, SimpleSpanProcessor } from '@opentelemetry/sdk-trace-base';
+import * as os from 'os';
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { StorageAdapter, UserData, Detector, DetectionContext, RiskFactor, BatchResult, RescanPage } from '../src/types';
 
 // Mock storage adapter for testing
 class MockStorageAdapter implements StorageAdapter {
@@ -134,4 +157,2013 @@ describe('TrialAbuseGuard', () => {
       expect(result.factors.emailSimilarity.detected).toBe(true);
     });
   });
-});
\ No newline at end of file
+
+  describe('detector registry', () => {
+    const fraudListDetector: Detector = {
+      name: 'fraudList',
+      weight: 0.5,
+      async analyze(userData: UserData): Promise<RiskFactor> {
+        const listed = userData.email.startsWith('fraudster');
+        return {
+          score: listed ? 100 : 0,
+          detected: listed,
+          confidence: listed ? 1 : 0,
+          details: listed ? 'Email is on the internal fraud list' : 'Email not on fraud list'
+        };
+      }
+    };
+
+    it('should register the built-in detectors', () => {
+      expect(guard.getDetectors().map(d => d.name)).toEqual([
+        'emailSimilarity',
+        'tempEmail',
+        'ipRisk',
+        'vpnDetection',
+        'velocity',
+        'userAgent'
+      ]);
+    });
+
+    it('should include custom detectors in factors, score and details', async () => {
+      guard.registerDetector(fraudListDetector);
+
+      const result = await guard.checkUser('fraudster@example.com', '192.168.1.1');
+
+      expect(result.factors.fraudList.detected).toBe(true);
+      expect(result.details).toContain('Email is on the internal fraud list');
+      expect(result.overall).toBeGreaterThan(50);
+    });
+
+    it('should accept custom detectors through config', async () => {
+      const customGuard = new TrialAbuseGuard({
+        storageAdapter: mockAdapter,
+        detectors: [fraudListDetector]
+      });
+
+      expect(customGuard.getDetector('fraudList')).toBe(fraudListDetector);
+    });
+
+    it('should allow built-in detectors to be unregistered', async () => {
+      expect(guard.unregisterDetector('tempEmail')).toBe(true);
+
+      const result = await guard.checkUser('test@10minutemail.com', '192.168.1.1');
+
+      expect(result.factors.tempEmail).toBeUndefined();
+      expect(result.recommendation).toBe('allow');
+    });
+
+    it('should replace a detector registered under the same name', async () => {
+      guard.registerDetector({ ...fraudListDetector, name: 'tempEmail' });
+
+      const result = await guard.checkUser('test@10minutemail.com', '192.168.1.1');
+
+      expect(guard.getDetectors()).toHaveLength(6);
+      expect(result.factors.tempEmail.detected).toBe(false);
+    });
+
+    it('should reject detectors with an invalid weight', () => {
+      expect(() => guard.registerDetector({ ...fraudListDetector, weight: -1 })).toThrow();
+    });
+  });
+
+  describe('weights and thresholds', () => {
+    it('should apply configured factor weights', async () => {
+      const weightedGuard = new TrialAbuseGuard({
+        storageAdapter: mockAdapter,
+        weights: { tempEmail: 0 }
+      });
+
+      const result = await weightedGuard.checkUser('test@10minutemail.com', '192.168.1.1');
+
+      expect(result.factors.tempEmail.detected).toBe(true);
+      expect(result.overall).toBe(0);
+      expect(weightedGuard.getWeights().tempEmail).toBe(0);
+    });
+
+    it('should apply configured decision thresholds', async () => {
+      const lenientGuard = new TrialAbuseGuard({
+        storageAdapter: mockAdapter,
+        thresholds: { flag: 70, block: 95 }
+      });
+
+      const result = await lenientGuard.checkUser('test@10minutemail.com', '192.168.1.1');
+
+      expect(result.overall).toBeGreaterThanOrEqual(70);
+      expect(result.overall).toBeLessThan(95);
+      expect(result.recommendation).toBe('flag');
+    });
+
+    it('should apply configured risk levels', () => {
+      const customGuard = new TrialAbuseGuard({
+        riskLevels: { medium: 10, high: 20, critical: 30 }
+      });
+
+      expect(customGuard.getRiskLevel(15)).toBe('medium');
+      expect(customGuard.getRiskLevel(35)).toBe('critical');
+    });
+
+    it('should reject invalid weights and thresholds', () => {
+      expect(() => new TrialAbuseGuard({ weights: { tempEmail: -1 } })).toThrow('weights.tempEmail');
+      expect(() => new TrialAbuseGuard({ thresholds: { block: 0.8 } })).toThrow(
+        'thresholds.flag must not be greater than thresholds.block'
+      );
+      expect(() => new TrialAbuseGuard({ riskLevels: { medium: 150 } })).toThrow('riskLevels.medium');
+    });
+
+    it('should share thresholds with the integration adapters', async () => {
+      const adapter = new ClerkTrialAbuseAdapter({
+        storageAdapter: mockAdapter,
+        blockThreshold: 95,
+        flagThreshold: 70
+      });
+
+      const result = await adapter.preSignUpCheck('test@10minutemail.com', '192.168.1.1');
+
+      expect(result.risk.overall).toBeLessThan(95);
+      expect(result.action).toBe('flag');
+      expect(result.allowed).toBe(true);
+    });
+  });
+
+  describe('policies', () => {
+    // Stands in for the VPN detector so tests don't depend on external lookups
+    const networkDetector = (metadata: Record<string, unknown>): Detector => ({
+      name: 'vpnDetection',
+      weight: 0.2,
+      async analyze(): Promise<RiskFactor> {
+        const detected = metadata.isVPN === true || metadata.isTor === true;
+        return { score: detected ? 80 : 0, detected, confidence: 0.1, metadata };
+      }
+    });
+
+    it('should block when a rule matches regardless of score', async () => {
+      const policyGuard = new TrialAbuseGuard({
+        storageAdapter: mockAdapter,
+        thresholds: { flag: 95, block: 100 },
+        detectors: [networkDetector({ isVPN: true })],
+        policies: [{
+          id: 'temp-email-and-vpn',
+          when: { all: [{ factor: 'tempEmail', detected: true }, { factor: 'vpnDetection', flag: 'isVPN' }] },
+          action: 'block'
+        }]
+      });
+
+      const result = await policyGuard.checkUser('test@10minutemail.com', '192.168.1.1');
+
+      expect(result.recommendation).toBe('block');
+      expect(result.appliedRule).toBe('temp-email-and-vpn');
+      expect(result.matchedRules).toEqual(['temp-email-and-vpn']);
+      expect(result.details).toContain('Policy rule "temp-email-and-vpn" applied: block');
+    });
+
+    it('should match flags on any factor and report every matched rule', async () => {
+      const policyGuard = new TrialAbuseGuard({
+        storageAdapter: mockAdapter,
+        detectors: [networkDetector({ isTor: true, country: 'DE' })],
+        policies: [
+          { id: 'any-tor', when: { flag: 'isTor' }, action: 'flag' },
+          { id: 'germany', when: { ipCountry: ['de'] }, action: 'block' }
+        ]
+      });
+
+      const result = await policyGuard.checkUser('newuser@example.com', '192.168.1.1');
+
+      expect(result.recommendation).toBe('flag');
+      expect(result.appliedRule).toBe('any-tor');
+      expect(result.matchedRules).toEqual(['any-tor', 'germany']);
+    });
+
+    it('should let an earlier allow rule override the score', async () => {
+      const policyGuard = new TrialAbuseGuard({
+        storageAdapter: mockAdapter,
+        policies: [
+          { id: 'trusted-customer', when: { emailDomain: ['10minutemail.com'] }, action: 'allow' },
+          { id: 'high-score', when: { minOverall: 50 }, action: 'block' }
+        ]
+      });
+
+      const result = await policyGuard.checkUser('test@10minutemail.com', '192.168.1.1');
+
+      expect(result.overall).toBeGreaterThan(50);
+      expect(result.recommendation).toBe('allow');
+      expect(result.matchedRules).toEqual(['trusted-customer', 'high-score']);
+    });
+
+    it('should fall back to thresholds when no rule matches', async () => {
+      const policyGuard = new TrialAbuseGuard({
+        storageAdapter: mockAdapter,
+        policies: [{ id: 'never', when: { not: {} }, action: 'block' }]
+      });
+
+      const result = await policyGuard.checkUser('newuser@example.com', '192.168.1.1');
+
+      expect(result.recommendation).toBe('allow');
+      expect(result.matchedRules).toEqual([]);
+      expect(result.appliedRule).toBeUndefined();
+    });
+
+    it('should reject invalid rules', () => {
+      expect(() => new TrialAbuseGuard({
+        policies: [
+          { id: 'dup', when: {}, action: 'block' },
+          { id: 'dup', when: {}, action: 'deny' as any }
+        ]
+      })).toThrow(/policies\[1\] \(dup\)\.id is not unique.*action must be one of/);
+    });
+  });
+
+  describe('evaluate and record', () => {
+    it('should not store user data when evaluating', async () => {
+      const storeSpy = jest.spyOn(mockAdapter, 'storeUserData');
+
+      const first = await guard.evaluateUser('newuser@example.com', '192.168.1.1');
+      const second = await guard.evaluateUser('newuser@example.com', '192.168.1.1');
+
+      expect(storeSpy).not.toHaveBeenCalled();
+      expect(second.overall).toBe(first.overall);
+      expect(second.factors.emailSimilarity.detected).toBe(false);
+    });
+
+    it('should store user data when checking', async () => {
+      const storeSpy = jest.spyOn(mockAdapter, 'storeUserData');
+
+      await guard.checkUser('newuser@example.com', '192.168.1.1');
+
+      expect(storeSpy).toHaveBeenCalledWith(expect.objectContaining({ email: 'newuser@example.com' }));
+    });
+
+    it('should record user data explicitly', async () => {
+      const storeSpy = jest.spyOn(mockAdapter, 'storeUserData');
+      const userData = { email: 'newuser@example.com', ipAddress: '192.168.1.1', timestamp: new Date() };
+
+      await guard.record(userData);
+
+      expect(storeSpy).toHaveBeenCalledWith(userData);
+    });
+
+    it('should always allow in shadow mode while reporting the real decision', async () => {
+      const shadowGuard = new TrialAbuseGuard({
+        storageAdapter: mockAdapter,
+        shadowMode: true
+      });
+
+      const result = await shadowGuard.evaluateUser('test@10minutemail.com', '192.168.1.1');
+
+      expect(result.recommendation).toBe('allow');
+      expect(result.shadowRecommendation).toBe('block');
+      expect(console.log).toHaveBeenCalledWith(
+        expect.stringContaining('[shadow] Would have returned block'),
+        expect.objectContaining({ risk: result.overall })
+      );
+    });
+  });
+
+  describe('reason codes', () => {
+    it('should report disposable email reasons with evidence', async () => {
+      const result = await guard.evaluateUser('test@10minutemail.com', '192.168.1.1');
+
+      expect(result.reasons).toContainEqual({
+        code: 'EMAIL_SUSPICIOUS_DOMAIN_PATTERN',
+        factor: 'tempEmail',
+        evidence: { domain: '10minutemail.com', pattern: '10minute' }
+      });
+      expect(result.details).toContain('Email domain matches disposable pattern "10minute"');
+    });
+
+    it('should report suspicious TLDs', async () => {
+      const result = await guard.evaluateUser('someone@legitcompany.tk', '192.168.1.1');
+
+      expect(result.factors.tempEmail.reasons).toContainEqual({
+        code: 'EMAIL_SUSPICIOUS_TLD',
+        evidence: { domain: 'legitcompany.tk', tld: '.tk' }
+      });
+    });
+
+    it('should report sequentially numbered similar emails', async () => {
+      await mockAdapter.storeUserData({ email: 'johnsmith1@company.com', ipAddress: '192.168.1.1', timestamp: new Date() });
+
+      const result = await guard.evaluateUser('johnsmith2@company.com', '192.168.1.1');
+      const reason = result.factors.emailSimilarity.reasons![0];
+
+      expect(reason.code).toBe('EMAIL_SIMILAR_SEQUENTIAL');
+      expect(reason.evidence).toEqual({
+        matches: [{ email: 'johnsmith1@company.com', similarity: expect.any(Number) }]
+      });
+    });
+
+    it('should report detector failures', async () => {
+      guard.registerDetector({
+        name: 'broken',
+        weight: 0.1,
+        analyze: () => Promise.reject(new Error('boom'))
+      });
+
+      const result = await guard.evaluateUser('newuser@example.com', '192.168.1.1');
+
+      expect(result.factors.broken.reasons).toEqual([{ code: 'DETECTOR_ERROR', evidence: { detector: 'broken' } }]);
+      expect(result.factors.broken.details).toBe('broken check failed');
+    });
+
+    it('should match policy rules on reason codes', async () => {
+      const policyGuard = new TrialAbuseGuard({
+        storageAdapter: mockAdapter,
+        policies: [{ id: 'disposable-pattern', when: { reason: ['EMAIL_SUSPICIOUS_DOMAIN_PATTERN'] }, action: 'flag' }]
+      });
+
+      const result = await policyGuard.evaluateUser('test@10minutemail.com', '192.168.1.1');
+
+      expect(result.recommendation).toBe('flag');
+      expect(result.reasons).toContainEqual({
+        code: 'POLICY_RULE_MATCHED',
+        evidence: { ruleId: 'disposable-pattern', action: 'flag' }
+      });
+    });
+  });
+
+  describe('timeouts', () => {
+    // Resolves as detected after `delay` ms unless its signal is aborted first
+    const slowDetector = (name: string, delay: number) => {
+      const detector = {
+        name,
+        weight: 0.5,
+        aborted: false,
+        analyze(_userData: UserData, context?: DetectionContext): Promise<RiskFactor> {
+          return new Promise(resolve => {
+            const timer = setTimeout(() => resolve({ score: 100, detected: true, confidence: 1 }), delay);
+            context?.signal?.addEventListener('abort', () => {
+              detector.aborted = true;
+              clearTimeout(timer);
+              resolve({ score: 0, detected: false, confidence: 0 });
+            });
+          });
+        }
+      };
+      return detector;
+    };
+
+    it('should report factors that exceed their timeout as timed out', async () => {
+      const slow = slowDetector('slow', 1000);
+      const timeoutGuard = new TrialAbuseGuard({
+        storageAdapter: mockAdapter,
+        detectors: [slow],
+        detectorTimeouts: { slow: 20 }
+      });
+
+      const result = await timeoutGuard.evaluateUser('newuser@example.com', '192.168.1.1');
+
+      expect(result.factors.slow.status).toBe('timeout');
+      expect(result.factors.slow.details).toBe('slow check timed out after 20ms');
+      expect(result.factors.tempEmail.status).toBe('ok');
+      expect(slow.aborted).toBe(true);
+    });
+
+    it('should decide from the available factors when the deadline expires', async () => {
+      const timeoutGuard = new TrialAbuseGuard({
+        storageAdapter: mockAdapter,
+        detectors: [slowDetector('slowA', 1000), slowDetector('slowB', 1000)],
+        detectorTimeout: 5000,
+        assessmentTimeout: 30
+      });
+
+      const started = Date.now();
+      const result = await timeoutGuard.evaluateUser('test@10minutemail.com', '192.168.1.1');
+
+      expect(Date.now() - started).toBeLessThan(1000);
+      expect(result.factors.slowA.status).toBe('timeout');
+      expect(result.factors.slowB.status).toBe('timeout');
+      expect(result.factors.tempEmail.detected).toBe(true);
+      expect(result.recommendation).toBe('block');
+    });
+
+    it('should reject invalid timeouts', () => {
+      expect(() => new TrialAbuseGuard({ detectorTimeout: 0 })).toThrow('detectorTimeout');
+      expect(() => new TrialAbuseGuard({ detectorTimeouts: { ipRisk: -5 } })).toThrow('detectorTimeouts.ipRisk');
+    });
+  });
+
+  describe('degradation', () => {
+    const failingDetector = {
+      name: 'fraudList',
+      weight: 0.2,
+      analyze: async (): Promise<RiskFactor> => {
+        throw new Error('fraud list unavailable');
+      }
+    };
+
+    it('should ignore failed detectors by default', async () => {
+      const degradedGuard = new TrialAbuseGuard({ storageAdapter: mockAdapter, detectors: [failingDetector] });
+
+      const result = await degradedGuard.evaluateUser('newuser@example.com', '192.168.1.1');
+
+      expect(result.factors.fraudList.status).toBe('error');
+      expect(result.recommendation).toBe('allow');
+      expect(result.reasons.map(r => r.code)).not.toContain('DETECTOR_ERROR');
+    });
+
+    it('should flag when a detector in flag mode fails', async () => {
+      const degradedGuard = new TrialAbuseGuard({
+        storageAdapter: mockAdapter,
+        detectors: [failingDetector],
+        degradation: { fraudList: 'flag' }
+      });
+
+      const result = await degradedGuard.evaluateUser('newuser@example.com', '192.168.1.1');
+
+      expect(result.recommendation).toBe('flag');
+      expect(result.reasons).toContainEqual(expect.objectContaining({ code: 'DETECTOR_ERROR', factor: 'fraudList' }));
+      expect(result.details).toContain('fraudList check failed');
+    });
+
+    it('should block when a fail-closed detector fails', async () => {
+      const degradedGuard = new TrialAbuseGuard({
+        storageAdapter: mockAdapter,
+        detectors: [failingDetector],
+        defaultDegradation: 'fail-closed'
+      });
+
+      const result = await degradedGuard.evaluateUser('newuser@example.com', '192.168.1.1');
+
+      expect(result.recommendation).toBe('block');
+    });
+
+    it('should apply degradation after policy rules', async () => {
+      const allowPolicy = { id: 'allow-all', when: { emailDomain: ['example.com'] }, action: 'allow' as const };
+      const closedGuard = new TrialAbuseGuard({
+        storageAdapter: mockAdapter,
+        detectors: [failingDetector],
+        policies: [allowPolicy],
+        defaultDegradation: 'fail-closed'
+      });
+      const flagGuard = new TrialAbuseGuard({
+        storageAdapter: mockAdapter,
+        detectors: [failingDetector],
+        policies: [allowPolicy],
+        degradation: { fraudList: 'flag' }
+      });
+
+      const closed = await closedGuard.evaluateUser('newuser@example.com', '192.168.1.1');
+      const flagged = await flagGuard.evaluateUser('newuser@example.com', '192.168.1.1');
+
+      expect(closed.appliedRule).toBe('allow-all');
+      expect(closed.recommendation).toBe('block');
+      expect(flagged.recommendation).toBe('flag');
+    });
+
+    it('should report detectors that do not apply as skipped', async () => {
+      const skippingGuard = new TrialAbuseGuard({
+        storageAdapter: mockAdapter,
+        detectors: [{ ...failingDetector, shouldRun: () => false }],
+        defaultDegradation: 'fail-closed'
+      });
+
+      const result = await skippingGuard.evaluateUser('newuser@example.com', '192.168.1.1');
+
+      expect(result.factors.fraudList.status).toBe('skipped');
+      expect(result.factors.fraudList.reasons?.[0].code).toBe('DETECTOR_SKIPPED');
+      expect(result.recommendation).toBe('allow');
+    });
+
+    it('should reject unknown degradation modes', () => {
+      expect(() => new TrialAbuseGuard({ degradation: { ipRisk: 'panic' as any } })).toThrow('degradation.ipRisk');
+    });
+  });
+
+  describe('events', () => {
+    it('should emit lifecycle events for an assessment', async () => {
+      const events: string[] = [];
+      guard.on('assessment.started', () => events.push('assessment.started'));
+      guard.on('factor.completed', ({ factor }) => events.push(`factor.completed:${factor}`));
+      guard.on('decision.block', () => events.push('decision.block'));
+      guard.on('assessment.completed', ({ result, durationMs }) => {
+        events.push(`assessment.completed:${result.recommendation}`);
+        expect(durationMs).toBeGreaterThanOrEqual(0);
+      });
+
+      await guard.evaluateUser('newuser@example.com', '192.168.1.1');
+
+      expect(events[0]).toBe('assessment.started');
+      expect(events).toContain('factor.completed:tempEmail');
+      expect(events).toContain('factor.completed:ipRisk');
+      expect(events[events.length - 1]).toBe('assessment.completed:allow');
+      expect(events).not.toContain('decision.block');
+    });
+
+    it('should emit decision and detector error events', async () => {
+      const failure = new Error('fraud list unavailable');
+      const eventGuard = new TrialAbuseGuard({
+        storageAdapter: mockAdapter,
+        detectors: [{ name: 'fraudList', weight: 0.2, analyze: async () => { throw failure; } }],
+        policies: [{ id: 'block-temp', when: { factor: 'tempEmail', detected: true }, action: 'block' }]
+      });
+      const errors: unknown[] = [];
+      const blocked: string[] = [];
+      eventGuard.on('detector.error', ({ factor, error }) => errors.push([factor, error]));
+      eventGuard.on('decision.block', ({ userData, result }) => blocked.push(`${userData.email}:${result.appliedRule}`));
+
+      await eventGuard.evaluateUser('test@10minutemail.com', '192.168.1.1');
+
+      expect(errors).toEqual([['fraudList', failure]]);
+      expect(blocked).toEqual(['test@10minutemail.com:block-temp']);
+    });
+
+    it('should not let a failing listener break the assessment', async () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      guard.on('assessment.started', () => {
+        throw new Error('listener bug');
+      });
+
+      const result = await guard.evaluateUser('newuser@example.com', '192.168.1.1');
+
+      expect(result.recommendation).toBe('allow');
+      expect(errorSpy).toHaveBeenCalled();
+      errorSpy.mockRestore();
+    });
+
+    it('should emit domains.updated when the temp domain list changes', async () => {
+      const domainGuard = new TrialAbuseGuard({
+        storageAdapter: mockAdapter,
+        tempEmailStoragePath: path.join(os.tmpdir(), `temp-domains-${process.pid}.json`)
+      });
+      const updates: unknown[] = [];
+      domainGuard.on('domains.updated', update => updates.push(update));
+
+      await domainGuard.addTempEmailDomains(['fresh-burner-domain.com']);
+
+      expect(updates).toEqual([expect.objectContaining({ added: 1, removed: 0, source: 'manual' })]);
+    });
+  });
+
+  describe('audit log', () => {
+    let auditGuard: TrialAbuseGuard;
+
+    beforeEach(() => {
+      auditGuard = new TrialAbuseGuard({ storageAdapter: new InMemoryStorageAdapter() });
+    });
+
+    it('should store checked assessments with their inputs and config version', async () => {
+      const result = await auditGuard.checkUser('test@10minutemail.com', '192.168.1.1', 'Mozilla/5.0');
+
+      const [record] = await auditGuard.getAssessments({ email: 'test@10minutemail.com' });
+
+      expect(record.ipAddress).toBe('192.168.1.1');
+      expect(record.userAgent).toBe('Mozilla/5.0');
+      expect(record.result).toEqual(result);
+      expect(record.configVersion).toBe(auditGuard.getConfigVersion());
+      expect(record.weights).toEqual(auditGuard.getWeights());
+      expect(record.assessedAt).toBeInstanceOf(Date);
+    });
+
+    it('should not store evaluations', async () => {
+      await auditGuard.evaluateUser('newuser@example.com', '192.168.1.1');
+
+      expect(await auditGuard.getAssessments()).toEqual([]);
+    });
+
+    it('should query by IP address and time range, newest first', async () => {
+      const before = new Date(Date.now() - 1000);
+      await auditGuard.checkUser('first@example.com', '192.168.1.1');
+      await auditGuard.checkUser('second@example.com', '192.168.1.1');
+      await auditGuard.checkUser('other@example.com', '192.168.1.2');
+
+      const byIP = await auditGuard.getAssessments({ ipAddress: '192.168.1.1', from: before });
+      expect(byIP.map(r => r.email)).toEqual(['second@example.com', 'first@example.com']);
+      expect(await auditGuard.getAssessments({ to: before })).toEqual([]);
+      expect(await auditGuard.getAssessments({ limit: 1 })).toHaveLength(1);
+    });
+
+    it('should order assessments stored in the same millisecond newest first', async () => {
+      const adapter = new InMemoryStorageAdapter();
+      const result = await auditGuard.evaluateUser('newuser@example.com', '192.168.1.1');
+      const assessedAt = new Date();
+      for (const configVersion of ['older', 'newer']) {
+        await adapter.storeAssessment({
+          email: 'newuser@example.com', ipAddress: '192.168.1.1', assessedAt, result, configVersion, weights: {}
+        });
+      }
+
+      const records = await adapter.queryAssessments({ email: 'newuser@example.com' });
+      expect(records.map(record => record.configVersion)).toEqual(['newer', 'older']);
+    });
+
+    it('should index Redis assessments by IP in one form', async () => {
+      const values = new Map<string, string>();
+      const sets = new Map<string, Array<{ score: number; value: string }>>();
+      const queried: string[] = [];
+      const pipeline = {
+        set: (key: string, value: string) => {
+          values.set(key, value);
+          return pipeline;
+        },
+        expire: () => pipeline,
+        zAdd: (key: string, member: { score: number; value: string }) => {
+          sets.set(key, [...(sets.get(key) || []), member]);
+          return pipeline;
+        },
+        exec: async () => []
+      };
+      let sequence = 0;
+      const adapter = new RedisStorageAdapter({ host: 'localhost', port: 6379 });
+      (adapter as any).client = {
+        incr: async () => ++sequence,
+        multi: () => pipeline,
+        get: async (key: string) => values.get(key) ?? null,
+        zRangeByScore: async (key: string) => {
+          queried.push(key);
+          return (sets.get(key) || []).map(({ value }) => value);
+        }
+      };
+      const result = await auditGuard.evaluateUser('newuser@example.com', '192.168.1.1');
+      await adapter.storeAssessment({
+        email: 'newuser@example.com', ipAddress: '::ffff:203.0.113.5', assessedAt: new Date(), result, configVersion: 'v1', weights: {}
+      });
+
+      const records = await adapter.queryAssessments({ ipAddress: '203.0.113.5' });
+      expect(records.map(record => record.email)).toEqual(['newuser@example.com']);
+      expect(queried).toEqual(['trial_abuse:assessments_by_ip:203.0.113.5']);
+    });
+
+    it('should change the config version when scoring changes', () => {
+      const reweighted = new TrialAbuseGuard({ weights: { ipRisk: 0.5 } });
+
+      expect(reweighted.getConfigVersion()).not.toBe(auditGuard.getConfigVersion());
+      expect(new TrialAbuseGuard().getConfigVersion()).toBe(auditGuard.getConfigVersion());
+      for (const config of [
+        { emailSimilarityThreshold: 0.9 },
+        { velocity: { rules: [{ scope: 'ip' as const, windowMinutes: 60, limit: 2 }] } },
+        { userAgent: { maxAccountsPerDevice: 5 } },
+        { detectorTimeout: 500 },
+        { defaultDegradation: 'flag' as const }
+      ]) {
+        expect(new TrialAbuseGuard(config).getConfigVersion()).not.toBe(auditGuard.getConfigVersion());
+      }
+    });
+
+    it('should reject queries when the storage adapter has no audit log', async () => {
+      await expect(guard.getAssessments()).rejects.toThrow('does not support assessment queries');
+    });
+  });
+
+  describe('allowlist and denylist', () => {
+    it('should allow allowlisted domains without running detectors', async () => {
+      const listGuard = new TrialAbuseGuard({
+        storageAdapter: mockAdapter,
+        allowlist: { domain: ['10minutemail.com'] }
+      });
+
+      const result = await listGuard.evaluateUser('test@10minutemail.com', '192.168.1.1');
+
+      expect(result.recommendation).toBe('allow');
+      expect(result.reasons).toEqual([{ code: 'LIST_ALLOWED', evidence: { type: 'domain', value: '10minutemail.com' } }]);
+      expect(result.factors.tempEmail.status).toBe('skipped');
+    });
+
+    it('should block denylisted CIDR ranges, winning over the allowlist', async () => {
+      const listGuard = new TrialAbuseGuard({
+        storageAdapter: mockAdapter,
+        allowlist: { email: ['newuser@example.com'] },
+        denylist: { cidr: ['203.0.113.0/24', '2001:db8::/32'] }
+      });
+
+      const v4 = await listGuard.evaluateUser('newuser@example.com', '203.0.113.42');
+      const v6 = await listGuard.evaluateUser('other@example.com', '2001:db8::1');
+
+      expect(v4.recommendation).toBe('block');
+      expect(v4.details).toEqual(['Denylisted cidr: 203.0.113.0/24']);
+      expect(v6.reasons[0].code).toBe('LIST_DENIED');
+    });
+
+    it('should match canonical emails', async () => {
+      await guard.addDenylistEntries('canonicalEmail', ['john.doe@gmail.com']);
+
+      const result = await guard.evaluateUser('JohnDoe+trial2@googlemail.com', '192.168.1.1');
+
+      expect(result.recommendation).toBe('block');
+      expect(result.reasons[0].evidence).toEqual({ type: 'canonicalEmail', value: 'johndoe@gmail.com' });
+    });
+
+    it('should persist entries through the storage adapter', async () => {
+      const storage = new InMemoryStorageAdapter();
+      const first = new TrialAbuseGuard({ storageAdapter: storage });
+      await first.addDenylistEntries('ip', ['198.51.100.7']);
+      await first.addAllowlistEntries('domain', ['ourcustomer.com']);
+
+      const second = new TrialAbuseGuard({ storageAdapter: storage });
+      expect((await second.evaluateUser('a@example.com', '198.51.100.7')).recommendation).toBe('block');
+      expect(await second.getAllowlistEntries()).toEqual([{ list: 'allow', type: 'domain', value: 'ourcustomer.com' }]);
+
+      await second.removeDenylistEntries('ip', ['198.51.100.7']);
+      const third = new TrialAbuseGuard({ storageAdapter: storage });
+      expect(await third.getDenylistEntries()).toEqual([]);
+    });
+
+    it('should store IP and CIDR entries in one form', async () => {
+      const storage = new InMemoryStorageAdapter();
+      const listGuard = new TrialAbuseGuard({ storageAdapter: storage });
+
+      await listGuard.addDenylistEntries('ip', ['1.2.3.4', '::ffff:1.2.3.4']);
+      await listGuard.addDenylistEntries('cidr', ['203.0.113.42/24', '2001:DB8::/32']);
+      expect((await listGuard.getDenylistEntries()).map(entry => entry.value)).toEqual([
+        '1.2.3.4',
+        '203.0.113.0/24',
+        '2001:db8:0:0:0:0:0:0/32'
+      ]);
+
+      await listGuard.removeDenylistEntries('ip', ['::ffff:1.2.3.4']);
+      await listGuard.removeDenylistEntries('cidr', ['2001:db8::/32']);
+      expect(await storage.getAccessListEntries()).toEqual([
+        { list: 'deny', type: 'cidr', value: '203.0.113.0/24' }
+      ]);
+    });
+
+    it('should fail checks while persisted entries can\'t be loaded, retrying on the next call', async () => {
+      const storage = new InMemoryStorageAdapter();
+      await storage.storeAccessListEntries([{ list: 'deny', type: 'ip', value: '198.51.100.7' }]);
+      jest.spyOn(storage, 'getAccessListEntries').mockRejectedValueOnce(new Error('connection refused'));
+      const listGuard = new TrialAbuseGuard({ storageAdapter: storage, vpnCheck: false, ipCheck: false });
+
+      await expect(listGuard.evaluateUser('a@example.com', '198.51.100.7')).rejects.toThrow('connection refused');
+      expect((await listGuard.evaluateUser('a@example.com', '198.51.100.7')).recommendation).toBe('block');
+    });
+
+    it('should reject invalid entries', async () => {
+      expect(() => new TrialAbuseGuard({ denylist: { cidr: ['203.0.113.0/33'] } })).toThrow('denylist.cidr');
+      await expect(guard.addAllowlistEntries('ip', ['not-an-ip'])).rejects.toThrow('Invalid allowlist ip entry');
+    });
+  });
+
+  describe('batch assessment', () => {
+    const collect = async (results: AsyncIterable<BatchResult>) => {
+      const collected: BatchResult[] = [];
+      for await (const result of results) {
+        collected.push(result);
+      }
+      return collected.sort((a, b) => a.index - b.index);
+    };
+
+    it('should share lookups across the batch', async () => {
+      const emailsSpy = jest.spyOn(mockAdapter, 'getExistingEmails');
+      const ipSpy = jest.spyOn(guard.getDetector('ipRisk') as IPAnalyzer, 'analyzeIP');
+
+      const results = await collect(guard.checkUsers([
+        { email: 'alice@example.com', ipAddress: '192.168.1.1' },
+        { email: 'bob@example.com', ipAddress: '192.168.1.1' },
+        { email: 'carol@example.com', ipAddress: '192.168.1.2' }
+      ], { concurrency: 2 }));
+
+      expect(results.map(r => r.result?.recommendation)).toEqual(['allow', 'allow', 'allow']);
+      expect(emailsSpy).toHaveBeenCalledTimes(1);
+      expect(ipSpy).toHaveBeenCalledTimes(2);
+    });
+
+    it('should catch similar emails within the batch', async () => {
+      const results = await collect(guard.checkUsers([
+        { email: 'jane.doe1@company.com', ipAddress: '192.168.1.1' },
+        { email: 'jane.doe2@company.com', ipAddress: '192.168.1.1' }
+      ]));
+
+      expect(results[0].result!.factors.emailSimilarity.detected).toBe(false);
+      expect(results[1].result!.reasons).toContainEqual(expect.objectContaining({
+        code: 'EMAIL_SIMILAR_SEQUENTIAL',
+        evidence: { matches: [expect.objectContaining({ email: 'jane.doe1@company.com' })] }
+      }));
+      expect(await mockAdapter.getExistingEmails()).not.toContain('jane.doe1@company.com');
+    });
+
+    it('should only pass users that are not stored yet as peers when recording', async () => {
+      const seen: Array<[number, number]> = [];
+      const recordingGuard = new TrialAbuseGuard({
+        storageAdapter: new InMemoryStorageAdapter(),
+        ipCheck: false,
+        vpnCheck: false,
+        detectors: [{
+          name: 'peers',
+          weight: 0.1,
+          analyze: async (_userData: UserData, context?: DetectionContext) => {
+            seen.push([context!.batchPeers!.length, context!.batchRecorded!.length]);
+            return { score: 0, detected: false, confidence: 0 };
+          }
+        }]
+      });
+
+      const results = await collect(recordingGuard.checkUsers([
+        { email: 'jane.doe1@company.com', ipAddress: '192.168.1.1' },
+        { email: 'jane.doe2@company.com', ipAddress: '192.168.1.1' },
+        { email: 'jane.doe3@company.com', ipAddress: '192.168.1.1' }
+      ], { concurrency: 1, record: true }));
+
+      expect(seen).toEqual([[0, 0], [0, 1], [0, 2]]);
+      expect(results[2].result!.factors.emailSimilarity.reasons![0].evidence!.matches).toHaveLength(2);
+    });
+
+    it('should respect the concurrency limit and report failures per user', async () => {
+      let active = 0;
+      let maxActive = 0;
+      const trackingGuard = new TrialAbuseGuard({
+        storageAdapter: mockAdapter,
+        ipCheck: false,
+        vpnCheck: false,
+        detectors: [{
+          name: 'tracking',
+          weight: 0.1,
+          analyze: async () => {
+            active++;
+            maxActive = Math.max(maxActive, active);
+            await new Promise(resolve => setTimeout(resolve, 5));
+            active--;
+            return { score: 0, detected: false, confidence: 0 };
+          }
+        }]
+      });
+      jest.spyOn(mockAdapter, 'storeUserData').mockImplementation(async data => {
+        if (data.email === 'broken@example.com') throw new Error('write failed');
+      });
+
+      const users = ['a', 'b', 'c', 'broken', 'd'].map(name => ({ email: `${name}@example.com`, ipAddress: '192.168.1.1' }));
+      const results = await collect(trackingGuard.checkUsers(users, { concurrency: 2, record: true }));
+
+      expect(maxActive).toBe(2);
+      expect(results).toHaveLength(5);
+      expect(results[3].error?.message).toBe('write failed');
+      expect(results[4].result).toBeDefined();
+    });
+  });
+
+  describe('rescan', () => {
+    let storage: InMemoryStorageAdapter;
+    let rescanGuard: TrialAbuseGuard;
+
+    const collect = async (pages: AsyncIterable<RescanPage>) => {
+      const collected: RescanPage[] = [];
+      for await (const page of pages) {
+        collected.push(page);
+      }
+      return collected;
+    };
+
+    beforeEach(async () => {
+      storage = new InMemoryStorageAdapter();
+      rescanGuard = new TrialAbuseGuard({ storageAdapter: storage });
+      await rescanGuard.checkUser('alice@partner.com', '192.168.1.1');
+      await rescanGuard.checkUser('bob@example.com', '192.168.1.2');
+    });
+
+    it('should report users whose recommendation changed without storing anything', async () => {
+      const storeSpy = jest.spyOn(storage, 'storeUserData');
+      await rescanGuard.addDenylistEntries('domain', ['partner.com']);
+
+      const pages = await collect(rescanGuard.rescanUsers({ pageSize: 1 }));
+
+      expect(pages.map(p => p.scanned)).toEqual([1, 1]);
+      expect(pages[0].changes).toEqual([expect.objectContaining({
+        userData: expect.objectContaining({ email: 'alice@partner.com' }),
+        previous: 'allow',
+        result: expect.objectContaining({ recommendation: 'block' })
+      })]);
+      expect(pages[1].changes).toEqual([]);
+      expect(pages[1].nextCursor).toBeUndefined();
+      expect(storeSpy).not.toHaveBeenCalled();
+      expect(await rescanGuard.getAssessments()).toHaveLength(2);
+    });
+
+    it('should resume from a cursor', async () => {
+      const [first] = await collect(rescanGuard.rescanUsers({ pageSize: 1 }));
+
+      const rest = await collect(rescanGuard.rescanUsers({ pageSize: 1, cursor: first.nextCursor }));
+
+      expect(rest).toHaveLength(1);
+      expect(rest[0].scanned).toBe(1);
+    });
+
+    it('should require a storage adapter that can list users', async () => {
+      await expect(guard.rescanUsers().next()).rejects.toThrow('does not support listing users');
+    });
+  });
+
+  describe('velocity', () => {
+    let storage: InMemoryStorageAdapter;
+    let velocityGuard: TrialAbuseGuard;
+
+    const signup = (email: string, ipAddress: string) =>
+      storage.storeUserData({ email, ipAddress, timestamp: new Date() });
+
+    beforeEach(() => {
+      storage = new InMemoryStorageAdapter();
+      velocityGuard = new TrialAbuseGuard({ storageAdapter: storage });
+    });
+
+    it('should flag bursts of signups from one IP', async () => {
+      await signup('one@example.com', '192.168.1.1');
+      await signup('two@example.com', '192.168.1.1');
+      await signup('three@example.com', '192.168.1.1');
+
+      const result = await velocityGuard.checkUser('four@example.com', '192.168.1.1');
+
+      expect(result.factors.velocity.detected).toBe(true);
+      expect(result.factors.velocity.reasons).toContainEqual({
+        code: 'VELOCITY_IP',
+        evidence: { count: 3, limit: 3, windowMinutes: 60, ipAddress: '192.168.1.1' }
+      });
+    });
+
+    it('should flag subnets and custom domains but ignore free mail providers', async () => {
+      const guardWithRules = new TrialAbuseGuard({
+        storageAdapter: storage,
+        velocity: { rules: [{ scope: 'subnet', windowMinutes: 60, limit: 2 }, { scope: 'domain', windowMinutes: 60, limit: 2 }] }
+      });
+      await signup('a@gmail.com', '192.168.1.10');
+      await signup('b@gmail.com', '192.168.2.10');
+      await signup('c@acme-trials.io', '192.168.1.11');
+      await signup('d@acme-trials.io', '192.168.3.10');
+
+      const subnet = await guardWithRules.checkUser('e@gmail.com', '192.168.1.12');
+      const domain = await guardWithRules.checkUser('f@acme-trials.io', '192.168.4.10');
+      const freeMail = await guardWithRules.checkUser('g@gmail.com', '192.168.5.10');
+
+      expect(subnet.factors.velocity.reasons!.map(r => r.code)).toEqual(['VELOCITY_SUBNET']);
+      expect(subnet.factors.velocity.reasons![0].evidence!.cidr).toBe('192.168.1.0/24');
+      expect(domain.factors.velocity.reasons!.map(r => r.code)).toEqual(['VELOCITY_DOMAIN']);
+      expect(freeMail.factors.velocity.detected).toBe(false);
+    });
+
+    it('should only count signups inside the window', async () => {
+      await storage.storeUserData({ email: 'old@example.com', ipAddress: '192.168.1.1', timestamp: new Date(Date.now() - 2 * 60 * 60 * 1000) });
+      await signup('one@example.com', '192.168.1.1');
+      await signup('two@example.com', '192.168.1.1');
+
+      const result = await velocityGuard.checkUser('three@example.com', '192.168.1.1');
+
+      expect(result.factors.velocity.detected).toBe(false);
+      expect((result.factors.velocity.metadata!.counts as unknown[])[0]).toEqual({ scope: 'ip', windowMinutes: 60, limit: 3, count: 2 });
+    });
+
+    it('should count batch users once when they are recorded', async () => {
+      const users = ['one', 'two', 'three'].map(name => ({ email: `${name}@example.com`, ipAddress: '192.168.1.1' }));
+      const counts: number[] = [];
+      for await (const { result } of velocityGuard.checkUsers(users, { concurrency: 1, record: true })) {
+        counts.push((result!.factors.velocity.metadata!.counts as Array<{ count: number }>)[0].count);
+      }
+
+      expect(counts).toEqual([0, 1, 2]);
+    });
+
+    it('should count Redis signups from the narrowest index, matching IPs in any format', async () => {
+      const sets = new Map<string, Array<{ score: number; value: string }>>();
+      const queried: string[] = [];
+      const pipeline = {
+        set: () => pipeline, expire: () => pipeline, sAdd: () => pipeline, hSet: () => pipeline, zRemRangeByScore: () => pipeline,
+        zAdd: (key: string, member: { score: number; value: string }) => {
+          sets.set(key, [...(sets.get(key) || []), member]);
+          return pipeline;
+        },
+        exec: async () => []
+      };
+      const adapter = new RedisStorageAdapter({ host: 'localhost', port: 6379 });
+      (adapter as any).client = {
+        multi: () => pipeline,
+        zRangeByScore: async (key: string, min: number, max: number) => {
+          queried.push(key);
+          return (sets.get(key) || []).filter(({ score }) => score >= min && score <= max).map(({ value }) => value);
+        }
+      };
+      const now = new Date();
+      await adapter.storeUserData({ email: 'one@example.com', ipAddress: '::ffff:203.0.113.5', timestamp: now });
+      const window = { since: new Date(now.getTime() - 60000), until: now };
+
+      expect(await adapter.countSignups({ ...window, ipAddress: '203.0.113.5' })).toBe(1);
+      expect(await adapter.countSignups({ ...window, cidr: '203.0.113.0/24' })).toBe(1);
+      expect(await adapter.countSignups({ ...window, emailDomain: 'Example.com' })).toBe(1);
+      expect(await adapter.countSignups({ ...window, cidr: '203.0.0.0/16' })).toBe(1);
+      expect(queried).toEqual([
+        'trial_abuse:signups_by_ip:203.0.113.5',
+        'trial_abuse:signups_by_subnet:203.0.113.0/24',
+        'trial_abuse:signups_by_domain:example.com',
+        'trial_abuse:signups'
+      ]);
+    });
+
+    it('should backfill the MongoDB signup keys of documents stored before they existed', async () => {
+      const legacy = [
+        { _id: 1, email: 'one@Example.com', ipAddress: '::ffff:203.0.113.5' },
+        { _id: 2, email: 'two@example.com', ipAddress: 'unknown' }
+      ];
+      const find = jest.fn(() => ({ async *[Symbol.asyncIterator]() { yield* legacy; } }));
+      const bulkWrite = jest.fn().mockResolvedValue({});
+      const adapter = new MongoStorageAdapter({ connectionString: 'mongodb://localhost', databaseName: 'test' });
+      (adapter as any).collection = { find, bulkWrite };
+
+      await (adapter as any).backfillSignupKeys();
+
+      expect(find).toHaveBeenCalledWith({ ipKey: { $exists: false } }, expect.anything());
+      expect(bulkWrite).toHaveBeenCalledWith([
+        { updateOne: { filter: { _id: 1 }, update: { $set: { ipKey: '4:cb007105', emailDomain: 'example.com' } } } },
+        { updateOne: { filter: { _id: 2 }, update: { $set: { ipKey: null, emailDomain: 'example.com' } } } }
+      ]);
+    });
+
+    it('should be skipped when the storage adapter cannot count signups', async () => {
+      const result = await guard.checkUser('someone@example.com', '192.168.1.1');
+
+      expect(result.factors.velocity.status).toBe('skipped');
+    });
+
+    it('should reject invalid rules', () => {
+      expect(() => new TrialAbuseGuard({ velocity: { rules: [{ scope: 'asn' as any, windowMinutes: 0, limit: 3 }] } }))
+        .toThrow('velocity.rules[0].scope');
+    });
+  });
+
+  describe('user agent', () => {
+    const chrome = (version: number) =>
+      `Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/${version}.0.0.0 Safari/537.36`;
+    // Chrome 100 was released on 2022-03-29 and ships a major version roughly every month
+    const currentChrome = 100 + Math.floor((Date.now() - Date.parse('2022-03-29')) / (31 * 24 * 60 * 60 * 1000));
+
+    it('should be skipped when no user agent is given', async () => {
+      const result = await guard.checkUser('someone@example.com', '192.168.1.1');
+
+      expect(result.factors.userAgent.status).toBe('skipped');
+    });
+
+    it('should flag empty, headless and automation user agents', async () => {
+      const empty = await guard.evaluateUser('a@example.com', '192.168.1.1', ' ');
+      const headless = await guard.evaluateUser('b@example.com', '192.168.1.1', chrome(currentChrome).replace('Chrome/', 'HeadlessChrome/'));
+      const script = await guard.evaluateUser('c@example.com', '192.168.1.1', 'python-requests/2.31.0');
+
+      expect(empty.factors.userAgent.reasons).toEqual([{ code: 'UA_EMPTY' }]);
+      expect(headless.factors.userAgent.reasons).toContainEqual({ code: 'UA_HEADLESS', evidence: { tool: 'HeadlessChrome' } });
+      expect(script.factors.userAgent.reasons).toEqual([{ code: 'UA_AUTOMATION', evidence: { tool: 'python-requests' } }]);
+      expect(script.factors.userAgent.score).toBe(90);
+    });
+
+    it('should flag outdated and impossible browser versions', async () => {
+      const current = await guard.evaluateUser('a@example.com', '192.168.1.1', chrome(currentChrome));
+      const outdated = await guard.evaluateUser('b@example.com', '192.168.1.1', chrome(currentChrome - 30));
+      const impossible = await guard.evaluateUser('c@example.com', '192.168.1.1', chrome(currentChrome + 10));
+
+      expect(current.factors.userAgent.detected).toBe(false);
+      expect(outdated.factors.userAgent.reasons!.map(r => r.code)).toEqual(['UA_OUTDATED_BROWSER']);
+      expect(impossible.factors.userAgent.reasons).toEqual([{
+        code: 'UA_IMPOSSIBLE_VERSION',
+        evidence: { browser: 'Chrome', version: currentChrome + 10 }
+      }]);
+    });
+
+    it('should count accounts sharing a user agent and IP', async () => {
+      const deviceGuard = new TrialAbuseGuard({ storageAdapter: new InMemoryStorageAdapter(), velocityCheck: false });
+      for (const email of ['one@example.com', 'two@example.com', 'three@example.com']) {
+        await deviceGuard.checkUser(email, '192.168.1.1', chrome(currentChrome));
+      }
+      await deviceGuard.checkUser('other@example.com', '192.168.1.1', 'Mozilla/5.0 (X11; Linux x86_64)');
+
+      const result = await deviceGuard.evaluateUser('four@example.com', '192.168.1.1', chrome(currentChrome));
+
+      expect(result.factors.userAgent.reasons).toEqual([{
+        code: 'UA_SHARED_DEVICE',
+        evidence: { count: 3, limit: 3, ipAddress: '192.168.1.1' }
+      }]);
+    });
+
+    it('should count batch users sharing a device once when they are recorded', async () => {
+      const deviceGuard = new TrialAbuseGuard({ storageAdapter: new InMemoryStorageAdapter(), velocityCheck: false });
+      const users = ['one', 'two', 'three'].map(name => ({
+        email: `${name}@example.com`, ipAddress: '192.168.1.1', userAgent: chrome(currentChrome)
+      }));
+
+      const counts: unknown[] = [];
+      for await (const { result } of deviceGuard.checkUsers(users, { concurrency: 1, record: true })) {
+        counts.push(result!.factors.userAgent.metadata!.sharedAccounts);
+      }
+
+      expect(counts).toEqual([0, 1, 2]);
+    });
+  });
+
+  describe('tenants', () => {
+    let storage: InMemoryStorageAdapter;
+    let tenantGuard: TrialAbuseGuard;
+
+    beforeEach(() => {
+      storage = new InMemoryStorageAdapter();
+      tenantGuard = new TrialAbuseGuard({
+        storageAdapter: storage,
+        denylist: { domain: ['blocked-everywhere.com'] },
+        tenants: {
+          strict: {
+            thresholds: { flag: 20, block: 40 },
+            weights: { tempEmail: 1 },
+            allowlist: { email: ['qa@partner.com'] },
+            customDisposableDomains: ['strict-burner.com']
+          }
+        }
+      });
+    });
+
+    it('should keep stored users separate per tenant', async () => {
+      await tenantGuard.checkUser('john.smith@example.com', '192.168.1.1', undefined, 'strict');
+
+      const otherTenant = await tenantGuard.evaluateUser('john.smith1@example.com', '192.168.1.1', undefined, 'other');
+      const sameTenant = await tenantGuard.evaluateUser('john.smith1@example.com', '192.168.1.1', undefined, 'strict');
+
+      expect(otherTenant.factors.emailSimilarity.detected).toBe(false);
+      expect(sameTenant.factors.emailSimilarity.detected).toBe(true);
+      expect(await storage.getExistingEmails()).toEqual([]);
+      expect(await storage.getExistingEmails('strict')).toEqual(['john.smith@example.com']);
+    });
+
+    it('should apply tenant weights, thresholds and disposable domains', async () => {
+      const strict = await tenantGuard.evaluate({
+        email: 'someone@strict-burner.com', ipAddress: '192.168.1.1', timestamp: new Date(), tenantId: 'strict'
+      });
+      const other = await tenantGuard.evaluateUser('someone@strict-burner.com', '192.168.1.1');
+
+      expect(strict.factors.tempEmail.reasons).toContainEqual({
+        code: 'EMAIL_DISPOSABLE_LIST',
+        evidence: { domain: 'strict-burner.com' }
+      });
+      expect(other.factors.tempEmail.reasons!.map(r => r.code)).not.toContain('EMAIL_DISPOSABLE_LIST');
+      expect(tenantGuard.getThresholds('strict')).toEqual({ flag: 20, block: 40 });
+      expect(tenantGuard.getWeights('strict').tempEmail).toBe(1);
+      expect(tenantGuard.getConfigVersion('strict')).not.toBe(tenantGuard.getConfigVersion());
+    });
+
+    it('should combine tenant lists with the shared lists', async () => {
+      await tenantGuard.addDenylistEntries('ip', ['198.51.100.7'], 'strict');
+
+      const allowed = await tenantGuard.evaluateUser('qa@partner.com', '192.168.1.1', undefined, 'strict');
+      const notAllowed = await tenantGuard.evaluateUser('qa@partner.com', '192.168.1.1');
+      const denied = await tenantGuard.evaluateUser('a@example.com', '198.51.100.7', undefined, 'strict');
+      const notDenied = await tenantGuard.evaluateUser('a@example.com', '198.51.100.7');
+      const shared = await tenantGuard.evaluateUser('a@blocked-everywhere.com', '192.168.1.1', undefined, 'strict');
+
+      expect(allowed.reasons).toEqual([{ code: 'LIST_ALLOWED', evidence: { type: 'email', value: 'qa@partner.com' } }]);
+      expect(notAllowed.reasons.map(r => r.code)).not.toContain('LIST_ALLOWED');
+      expect(denied.recommendation).toBe('block');
+      expect(notDenied.reasons.map(r => r.code)).not.toContain('LIST_DENIED');
+      expect(shared.recommendation).toBe('block');
+      expect(await tenantGuard.getDenylistEntries('strict')).toEqual([
+        { list: 'deny', type: 'ip', value: '198.51.100.7', tenantId: 'strict' }
+      ]);
+    });
+
+    it('should scope the audit log by tenant', async () => {
+      await tenantGuard.checkUser('a@example.com', '192.168.1.1', undefined, 'strict');
+      await tenantGuard.checkUser('b@example.com', '192.168.1.1');
+
+      const [record] = await tenantGuard.getAssessments({ tenantId: 'strict' });
+
+      expect(record).toMatchObject({ email: 'a@example.com', tenantId: 'strict', configVersion: tenantGuard.getConfigVersion('strict') });
+      expect((await tenantGuard.getAssessments()).map(r => r.email)).toEqual(['b@example.com']);
+    });
+
+    it('should scope the database adapters\' history and cleanup by tenant', async () => {
+      const postgres = new PostgreSQLStorageAdapter({ connectionString: 'postgres://localhost/test' });
+      const query = jest.fn().mockResolvedValue({ rows: [], rowCount: 0 });
+      (postgres as any).client = { query };
+      const mongo = new MongoStorageAdapter({ connectionString: 'mongodb://localhost', databaseName: 'test' });
+      const find = jest.fn(() => ({ toArray: async () => [] }));
+      const deleteMany = jest.fn().mockResolvedValue({ deletedCount: 0 });
+      (mongo as any).collection = { find, deleteMany };
+      const redis = new RedisStorageAdapter({ host: 'localhost', port: 6379 });
+      const keys = jest.fn().mockResolvedValue([]);
+      const sMembers = jest.fn().mockResolvedValue(['a@example.com']);
+      (redis as any).client = { keys, sMembers };
+
+      for (const adapter of [postgres, mongo, redis]) {
+        await adapter.getUserHistory('a@example.com', 5, 'acme');
+        await adapter.getIPHistory('192.168.1.1', 5, 'acme');
+        await adapter.cleanup(30, { tenantId: 'acme' });
+      }
+
+      expect(query.mock.calls.map(([sql, params]) => [sql.includes('tenant_id = $'), params.includes('acme')]))
+        .toEqual([[true, true], [true, true], [true, true]]);
+      expect(find.mock.calls.map(([filter]: any[]) => filter.tenantId)).toEqual(['acme', 'acme']);
+      expect(deleteMany.mock.calls[0][0].tenantId).toBe('acme');
+      expect([...keys.mock.calls, ...sMembers.mock.calls].map(([key]) => key.startsWith('trial_abuse:tenant:acme:')))
+        .toEqual([true, true, true, true]);
+    });
+
+    it('should clean up every tenant unless told to keep to one', async () => {
+      const postgres = new PostgreSQLStorageAdapter({ connectionString: 'postgres://localhost/test' });
+      const query = jest.fn().mockResolvedValue({ rows: [], rowCount: 0 });
+      (postgres as any).client = { query };
+      const mongo = new MongoStorageAdapter({ connectionString: 'mongodb://localhost', databaseName: 'test' });
+      const deleteMany = jest.fn().mockResolvedValue({ deletedCount: 0 });
+      (mongo as any).collection = { deleteMany };
+      const redis = new RedisStorageAdapter({ host: 'localhost', port: 6379 });
+      const keys = jest.fn().mockResolvedValue([]);
+      (redis as any).client = { keys };
+
+      for (const adapter of [postgres, mongo, redis]) {
+        await adapter.cleanup(30);
+        await adapter.cleanup(30, { defaultTenantOnly: true });
+      }
+
+      expect(query.mock.calls.map(([sql, params]) => [sql.includes('tenant_id'), params])).toEqual([[false, []], [true, ['']]]);
+      expect(deleteMany.mock.calls.map(([filter]) => 'tenantId' in filter ? filter.tenantId : 'all')).toEqual(['all', null]);
+      expect(keys.mock.calls.map(([pattern]) => pattern)).toEqual([
+        'trial_abuse:user_data:*',
+        'trial_abuse:tenant:*:user_data:*',
+        'trial_abuse:user_data:*'
+      ]);
+    });
+
+    it('should report invalid tenant settings with the tenant id', () => {
+      expect(() => new TrialAbuseGuard({ tenants: { acme: { thresholds: { flag: 90, block: 40 } } } }))
+        .toThrow('tenants.acme.thresholds.flag');
+    });
+  });
+
+  describe('outcomes', () => {
+    let outcomeGuard: TrialAbuseGuard;
+
+    beforeEach(() => {
+      outcomeGuard = new TrialAbuseGuard({
+        storageAdapter: new InMemoryStorageAdapter(),
+        thresholds: { flag: 20, block: 80 },
+        customDisposableDomains: ['burner.test']
+      });
+    });
+
+    it('should compute precision and recall from labeled users', async () => {
+      await outcomeGuard.checkUser('caught@burner.test', '192.168.1.1');
+      await outcomeGuard.checkUser('missed@example.com', '192.168.1.2');
+      await outcomeGuard.checkUser('honest@example.org', '192.168.1.3');
+      await outcomeGuard.reportOutcome('caught@burner.test', 'fraud');
+      await outcomeGuard.reportOutcome('missed@example.com', 'fraud');
+      await outcomeGuard.reportOutcome('honest@example.org', 'legit');
+      await outcomeGuard.reportOutcome('never-assessed@example.com', 'fraud');
+
+      const stats = await outcomeGuard.getOutcomeStats();
+
+      expect(stats.labeled).toBe(4);
+      expect(stats.assessed).toBe(3);
+      expect(stats.factors.tempEmail).toEqual({
+        truePositives: 1,
+        falsePositives: 0,
+        trueNegatives: 1,
+        falseNegatives: 1,
+        precision: 1,
+        recall: 0.5,
+        falsePositiveRate: 0
+      });
+      expect(stats.recommendation.truePositives).toBe(1);
+      expect(stats.recommendation.recall).toBe(0.5);
+    });
+
+    it('should count only the latest label of a user', async () => {
+      await outcomeGuard.checkUser('caught@burner.test', '192.168.1.1');
+      await outcomeGuard.reportOutcome('caught@burner.test', 'fraud');
+      await outcomeGuard.reportOutcome('caught@burner.test', 'legit', { note: 'Support verified the account' });
+
+      const stats = await outcomeGuard.getOutcomeStats();
+
+      expect(stats.labeled).toBe(1);
+      expect(stats.factors.tempEmail).toMatchObject({ truePositives: 0, falsePositives: 1, precision: 0, recall: undefined });
+    });
+
+    it('should emit an event when an outcome is reported', async () => {
+      const listener = jest.fn();
+      outcomeGuard.on('outcome.reported', listener);
+
+      const record = await outcomeGuard.reportOutcome('a@example.com', 'fraud', { tenantId: 'acme' });
+
+      expect(record).toMatchObject({ email: 'a@example.com', label: 'fraud', tenantId: 'acme' });
+      expect(listener).toHaveBeenCalledWith(record);
+      expect((await outcomeGuard.getOutcomeStats()).labeled).toBe(0);
+      expect((await outcomeGuard.getOutcomeStats('acme')).labeled).toBe(1);
+    });
+
+    it('should reject invalid labels and adapters without outcome support', async () => {
+      await expect(outcomeGuard.reportOutcome('a@example.com', 'spam' as any)).rejects.toThrow('Invalid outcome label: spam');
+      await expect(guard.reportOutcome('a@example.com', 'fraud')).rejects.toThrow('Storage adapter does not support outcome labels');
+    });
+  });
+
+  describe('scoring model', () => {
+    let modelGuard: TrialAbuseGuard;
+
+    beforeEach(async () => {
+      modelGuard = new TrialAbuseGuard({
+        storageAdapter: new InMemoryStorageAdapter(),
+        customDisposableDomains: ['burner.test']
+      });
+      for (let i = 0; i < 4; i++) {
+        await modelGuard.checkUser(`fraud${i}@burner.test`, `192.168.1.${i}`);
+        await modelGuard.checkUser(`legit${i}@example${i}.org`, `192.168.2.${i}`);
+        await modelGuard.reportOutcome(`fraud${i}@burner.test`, 'fraud');
+        await modelGuard.reportOutcome(`legit${i}@example${i}.org`, 'legit');
+      }
+    });
+
+    it('should train a scorer on outcome labels and stamp its version', async () => {
+      const scorer = await modelGuard.trainScorer({ version: 'model-1' });
+      const before = modelGuard.getConfigVersion();
+      modelGuard.setScorer(scorer);
+
+      const fraud = await modelGuard.evaluateUser('new@burner.test', '10.0.0.1');
+      const legit = await modelGuard.evaluateUser('new@example9.org', '10.0.0.2');
+
+      expect(fraud.modelVersion).toBe('model-1');
+      expect(fraud.overall).toBeGreaterThan(50);
+      expect(legit.overall).toBeLessThan(50);
+      expect(modelGuard.getConfigVersion()).not.toBe(before);
+      expect(scorer.toJSON().coefficients['reason.EMAIL_DISPOSABLE_LIST']).toBeGreaterThan(0);
+    });
+
+    it('should round-trip a model through JSON', async () => {
+      const scorer = await modelGuard.trainScorer();
+      const restored = LogisticRegressionScorer.fromJSON(JSON.stringify(scorer));
+      const { factors } = await modelGuard.evaluateUser('new@burner.test', '10.0.0.1');
+
+      expect(restored.version).toMatch(/^lr-[0-9a-f]{12}$/);
+      expect(restored.version).toBe(scorer.version);
+      expect(restored.score(factors)).toBe(scorer.score(factors));
+      expect(scorer.toJSON().samples).toBe(8);
+    });
+
+    it('should use a tenant scorer only for that tenant', async () => {
+      const scorer = LogisticRegressionScorer.fromJSON({
+        type: 'logistic-regression', version: 'always-fraud', intercept: 10, coefficients: {}
+      });
+      modelGuard.setScorer(scorer, 'acme');
+
+      const tenantResult = await modelGuard.evaluateUser('a@example.com', '10.0.0.1', undefined, 'acme');
+      const defaultResult = await modelGuard.evaluateUser('a@example.com', '10.0.0.1');
+
+      expect(tenantResult).toMatchObject({ overall: 100, recommendation: 'block', modelVersion: 'always-fraud' });
+      expect(defaultResult.modelVersion).toBeUndefined();
+    });
+
+    it('should reject invalid models and one-sided training data', () => {
+      expect(() => LogisticRegressionScorer.fromJSON({ type: 'logistic-regression', version: '', intercept: 0, coefficients: { a: NaN } }))
+        .toThrow('Invalid scoring model: version must be a non-empty string; coefficients.a must be a number');
+      expect(() => LogisticRegressionScorer.train([{ label: 'fraud', factors: {} }]))
+        .toThrow('at least one fraud and one legit sample');
+    });
+  });
+
+  describe('config validation', () => {
+    const getErrors = (fn: () => unknown): string[] => {
+      try {
+        fn();
+      } catch (error) {
+        expect(error).toBeInstanceOf(ConfigValidationError);
+        return (error as ConfigValidationError).errors;
+      }
+      throw new Error('Expected a ConfigValidationError');
+    };
+
+    it('should list every invalid field and suggest likely typos', () => {
+      const errors = getErrors(() => new TrialAbuseGuard({
+        emailSimilarityThreshold: 80,
+        tempEmailChek: false,
+        thresholds: { blok: 90 },
+        velocity: { rules: [{ scope: 'ip', windowMinutes: 0, limit: 3 }] }
+      } as any));
+
+      expect(errors).toEqual([
+        'emailSimilarityThreshold must be a number between 0 and 1',
+        'tempEmailChek is not a valid option (did you mean tempEmailCheck?)',
+        'velocity.rules[0].windowMinutes must be a positive integer',
+        'thresholds.blok is not a valid option (did you mean thresholds.block?)'
+      ]);
+    });
+
+    it('should reject storage adapters and detectors missing required methods', () => {
+      const errors = getErrors(() => validateConfig({
+        storageAdapter: { getExistingEmails: async () => [], getExistingIPs: async () => [] },
+        detectors: [{ name: 'custom', weight: -1 }],
+        tenants: { acme: { shadowMode: true } }
+      }));
+
+      expect(errors).toEqual([
+        'storageAdapter.storeUserData must be a function',
+        'detectors[0].weight must be a non-negative number',
+        'detectors[0].analyze must be a function',
+        'tenants.acme.shadowMode is not a valid option'
+      ]);
+    });
+
+    it('should accept valid configurations, including integration options', () => {
+      expect(() => validateConfig({ storageAdapter: new InMemoryStorageAdapter(), thresholds: { flag: 40 } })).not.toThrow();
+      expect(() => new ClerkTrialAbuseAdapter({ blockThreshold: 70, clerkSecretKey: 'sk_test' })).not.toThrow();
+      expect(() => new ClerkTrialAbuseAdapter({ flagMediumRisk: true } as any))
+        .toThrow('flagMediumRisk is not a valid option');
+    });
+
+    it('should validate storage adapter connection settings', () => {
+      expect(() => new RedisStorageAdapter({ host: 'localhost', port: '6379' } as any))
+        .toThrow('Invalid Redis storage configuration: port must be an integer between 1 and 65535');
+    });
+  });
+
+  describe('config loading', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), 'trial-guard-config-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('should merge the config file, environment variables and overrides', async () => {
+      await fs.writeFile(path.join(dir, 'trial-abuse-guard.config.json'), JSON.stringify({
+        vpnCheck: false,
+        thresholds: { flag: 40, block: 70 },
+        customDisposableDomains: ['from-file.com']
+      }));
+
+      const config = loadConfig({ thresholds: { block: 90 } }, {
+        cwd: dir,
+        env: {
+          TRIAL_GUARD_THRESHOLDS__FLAG: '45',
+          TRIAL_GUARD_WEIGHTS__TEMP_EMAIL: '0.5',
+          TRIAL_GUARD_DENYLIST__DOMAIN: 'a.com, b.com',
+          TRIAL_GUARD_SHADOW_MODE: 'true'
+        }
+      });
+
+      expect(config).toEqual({
+        vpnCheck: false,
+        thresholds: { flag: 45, block: 90 },
+        customDisposableDomains: ['from-file.com'],
+        weights: { tempEmail: 0.5 },
+        denylist: { domain: ['a.com', 'b.com'] },
+        shadowMode: true
+      });
+    });
+
+    it('should resolve secret references in apiKeys', async () => {
+      const secretFile = path.join(dir, 'vpnapi');
+      await fs.writeFile(secretFile, 'vpn-secret\n');
+
+      const config = loadConfig({
+        apiKeys: { ipQualityScore: 'env:IPQS_KEY', vpnapi: `file:${secretFile}`, proxyCheck: 'vault:proxycheck' }
+      }, {
+        configFile: false,
+        env: { IPQS_KEY: 'ipqs-secret' },
+        secretResolvers: { vault: name => `${name}-secret` }
+      });
+
+      expect(config.apiKeys).toEqual({ ipQualityScore: 'ipqs-secret', vpnapi: 'vpn-secret', proxyCheck: 'proxycheck-secret' });
+    });
+
+    it('should resolve file secrets relative to cwd', async () => {
+      await fs.mkdir(path.join(dir, 'secrets'));
+      await fs.writeFile(path.join(dir, 'secrets', 'ipqs'), 'ipqs-secret');
+
+      const config = loadConfig({ apiKeys: { ipQualityScore: 'file:secrets/ipqs' } }, { cwd: dir, configFile: false, env: {} });
+
+      expect(config.apiKeys).toEqual({ ipQualityScore: 'ipqs-secret' });
+    });
+
+    it('should load a JS config file, also through createTrialGuard', async () => {
+      await fs.writeFile(path.join(dir, 'trial-abuse-guard.config.js'), 'module.exports = { vpnCheck: false, thresholds: { flag: 35 } };');
+
+      expect(loadConfig({}, { cwd: dir, env: {} })).toEqual({ vpnCheck: false, thresholds: { flag: 35 } });
+      const loadedGuard = createTrialGuard({ thresholds: { block: 85 } }, { loadConfig: { cwd: dir, env: {} } });
+      expect(loadedGuard.getThresholds()).toMatchObject({ flag: 35, block: 85 });
+      await loadedGuard.destroy();
+    });
+
+    it('should report invalid environment variables, missing secrets and invalid options together', () => {
+      expect(() => loadConfig({ apiKeys: { vpnapi: 'env:MISSING' } }, {
+        configFile: false,
+        env: { TRIAL_GUARD_IP_CHECK: 'maybe', TRIAL_GUARD_UNKNOWN: '1' }
+      })).toThrow(
+        'Invalid trial abuse configuration: TRIAL_GUARD_IP_CHECK must be a boolean; ' +
+        'TRIAL_GUARD_UNKNOWN is not a recognized environment variable; ' +
+        'apiKeys.vpnapi references env:MISSING, which could not be resolved'
+      );
+      expect(() => loadConfig({}, { configFile: false, env: { TRIAL_GUARD_EMAIL_SIMILARITY_THRESHOLD: '80' } }))
+        .toThrow('emailSimilarityThreshold must be a number between 0 and 1');
+    });
+  });
+
+  describe('lifecycle', () => {
+    class LifecycleAdapter extends MockStorageAdapter {
+      connect = jest.fn(async () => undefined);
+      disconnect = jest.fn(async () => undefined);
+    }
+
+    it('should connect the storage adapter and wait for detectors once', async () => {
+      const adapter = new LifecycleAdapter();
+      let finishLoading: () => void = () => undefined;
+      const detector: Detector = {
+        name: 'slowList',
+        weight: 0.1,
+        ready: jest.fn(() => new Promise<void>(resolve => { finishLoading = resolve; })),
+        analyze: async () => ({ score: 0, detected: false, confidence: 0.5, details: 'ok' })
+      };
+      const lifecycleGuard = new TrialAbuseGuard({ storageAdapter: adapter, detectors: [detector], vpnCheck: false, ipCheck: false });
+
+      let ready = false;
+      const first = lifecycleGuard.ready().then(() => { ready = true; });
+      const second = lifecycleGuard.ready();
+      await new Promise(resolve => setImmediate(resolve));
+      expect(ready).toBe(false);
+
+      finishLoading();
+      await Promise.all([first, second]);
+      expect(ready).toBe(true);
+      expect(adapter.connect).toHaveBeenCalledTimes(1);
+      expect(detector.ready).toHaveBeenCalledTimes(1);
+
+      await lifecycleGuard.destroy();
+    });
+
+    it('should abort running detectors and release resources on destroy', async () => {
+      const adapter = new LifecycleAdapter();
+      let signal: AbortSignal | undefined;
+      const detector: Detector = {
+        name: 'hanging',
+        weight: 0.1,
+        destroy: jest.fn(),
+        analyze: (_userData: UserData, context?: DetectionContext) => new Promise<RiskFactor>((_resolve, reject) => {
+          signal = context?.signal;
+          signal?.addEventListener('abort', () => reject(new Error('aborted')));
+        })
+      };
+      const lifecycleGuard = new TrialAbuseGuard({ storageAdapter: adapter, detectors: [detector], vpnCheck: false, ipCheck: false });
+      const domainsDestroyed = jest.spyOn(lifecycleGuard.getTempEmailDetector(), 'destroy');
+      lifecycleGuard.on('assessment.completed', jest.fn());
+
+      const pending = lifecycleGuard.evaluate({ email: 'hang@example.com', ipAddress: '203.0.113.1', timestamp: new Date() });
+      await new Promise(resolve => setImmediate(resolve));
+      await lifecycleGuard.destroy();
+
+      const result = await pending;
+      expect(signal?.aborted).toBe(true);
+      expect(result.factors.hanging.status).toBe('error');
+      expect(detector.destroy).toHaveBeenCalledTimes(1);
+      expect(domainsDestroyed).toHaveBeenCalledTimes(1);
+      expect(adapter.disconnect).toHaveBeenCalledTimes(1);
+      expect(lifecycleGuard.listenerCount('assessment.completed')).toBe(0);
+    });
+
+    it('should reject use after destroy', async () => {
+      await guard.destroy();
+      await guard.destroy();
+
+      await expect(guard.evaluate({ email: 'late@example.com', ipAddress: '203.0.113.1', timestamp: new Date() })).rejects.toThrow('TrialAbuseGuard has been destroyed');
+      await expect(guard.ready()).rejects.toThrow('TrialAbuseGuard has been destroyed');
+    });
+
+    it('should forward ready() and destroy() from the integration adapters', async () => {
+      const readySpy = jest.spyOn(TrialAbuseGuard.prototype, 'ready');
+      const destroySpy = jest.spyOn(TrialAbuseGuard.prototype, 'destroy');
+      const adapter = new ClerkTrialAbuseAdapter({ storageAdapter: new LifecycleAdapter() });
+
+      await adapter.ready();
+      await adapter.destroy();
+
+      expect(readySpy).toHaveBeenCalledTimes(1);
+      expect(destroySpy).toHaveBeenCalledTimes(1);
+      readySpy.mockRestore();
+      destroySpy.mockRestore();
+    });
+  });
+
+  describe('logging', () => {
+    const createTestLogger = () => ({ debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() });
+
+    it('should redact email addresses in messages and fields by default', () => {
+      const target = createTestLogger();
+      const logger = createLogger({ logger: target });
+
+      logger.warn('Blocked john.doe@example.com', { email: 'john.doe@example.com', nested: { emails: ['a.b@c.io'] }, risk: 90 });
+
+      expect(target.warn).toHaveBeenCalledWith('Blocked j***@example.com', {
+        email: 'j***@example.com',
+        nested: { emails: ['a***@c.io'] },
+        risk: 90
+      });
+      expect(redactEmail('no emails here')).toBe('no emails here');
+    });
+
+    it('should filter by level and log nothing when silent', () => {
+      const target = createTestLogger();
+      const warnOnly = createLogger({ logger: target, logLevel: 'warn', redactEmails: false });
+      warnOnly.info('skipped');
+      warnOnly.error('Failed for user@example.com');
+
+      const silent = createLogger({ logger: target, logLevel: 'silent' });
+      silent.error('not logged');
+
+      expect(target.info).not.toHaveBeenCalled();
+      expect(target.error).toHaveBeenCalledTimes(1);
+      expect(target.error).toHaveBeenCalledWith('Failed for user@example.com', undefined);
+    });
+
+    it('should send the guard and integration output to the configured logger', async () => {
+      const target = createTestLogger();
+      const adapter = new NextAuthTrialAbuseAdapter({
+        storageAdapter: mockAdapter,
+        logger: target,
+        denylist: { domain: ['10minutemail.com'] }
+      });
+      const config = adapter.getNextAuthConfig({ providers: [] } as any);
+
+      const allowed = await config.callbacks.signIn({
+        user: { email: 'someone@10minutemail.com' },
+        request: { headers: { get: (name: string) => (name === 'x-real-ip' ? '192.168.1.1' : null) } }
+      });
+
+      expect(allowed).toBe(false);
+      expect(target.warn).toHaveBeenCalledWith('Blocked high-risk sign-in', expect.objectContaining({ email: 's***@10minutemail.com' }));
+      expect(console.warn).not.toHaveBeenCalledWith(expect.stringContaining('someone@10minutemail.com'));
+    });
+
+    it('should pass fields before the message to a pino logger', () => {
+      const pino = createTestLogger();
+      fromPino(pino).info('Updated temp domain list', { added: 3 });
+
+      expect(pino.info).toHaveBeenCalledWith({ added: 3 }, 'Updated temp domain list');
+    });
+  });
+
+  describe('metrics', () => {
+    it('should count decisions and record detector latency and status', async () => {
+      const metrics = new TrialAbuseMetrics(guard, { buckets: [0.1, 1] });
+
+      await guard.evaluateUser('newuser@example.com', '192.168.1.1');
+      await guard.evaluateUser('test@10minutemail.com', '192.168.1.1');
+      const output = metrics.render();
+
+      expect(output).toContain('# TYPE trial_abuse_decisions_total counter');
+      expect(output).toMatch(/^trial_abuse_decisions_total\{recommendation="allow"\} \d+$/m);
+      expect(output).toContain('trial_abuse_detector_results_total{detector="tempEmail",status="ok"} 2');
+      expect(output).toContain('trial_abuse_detector_results_total{detector="userAgent",status="skipped"} 2');
+      expect(output).toContain('trial_abuse_detector_duration_seconds_bucket{detector="tempEmail",le="+Inf"} 2');
+      expect(output).toContain('trial_abuse_detector_duration_seconds_count{detector="tempEmail"} 2');
+      expect(output).not.toContain('trial_abuse_detector_duration_seconds_count{detector="userAgent"}');
+    });
+
+    it('should count provider requests by status', async () => {
+      const getSpy = jest.spyOn(axios, 'get').mockImplementation(async (url: string) => {
+        if (url.includes('ip-api.com')) {
+          throw new AxiosError('timeout of 5000ms exceeded', 'ECONNABORTED');
+        }
+        throw new Error('Service unavailable');
+      });
+      const providerGuard = new TrialAbuseGuard({ storageAdapter: mockAdapter, vpnCheck: false });
+      const metrics = new TrialAbuseMetrics(providerGuard);
+
+      await providerGuard.evaluateUser('newuser@example.com', '8.8.8.8');
+      const output = metrics.render();
+      getSpy.mockRestore();
+
+      expect(output).toContain('trial_abuse_provider_requests_total{provider="ip-api",status="timeout"} 1');
+      expect(output).toContain('trial_abuse_provider_requests_total{provider="ipapi.co",status="error"} 1');
+    });
+
+    it('should report the domain list size and stop collecting when stopped', async () => {
+      const metrics = new TrialAbuseMetrics(guard, { prefix: 'guard_' });
+      metrics.stop();
+      await guard.evaluateUser('newuser@example.com', '192.168.1.1');
+      const output = metrics.render();
+
+      expect(output).toContain(`guard_temp_domains ${guard.getTempEmailStats().totalDomains}`);
+      expect(output).toContain('# TYPE guard_temp_domains_last_update_age_seconds gauge');
+      expect(output).not.toContain('guard_decisions_total{');
+      expect(output.endsWith('\n')).toBe(true);
+    });
+  });
+
+  describe('tracing', () => {
+    let exporter: InMemorySpanExporter;
+    let provider: BasicTracerProvider;
+
+    beforeAll(() => {
+      context.setGlobalContextManager(new AsyncLocalStorageContextManager().enable());
+    });
+
+    afterAll(() => {
+      context.disable();
+    });
+
+    beforeEach(() => {
+      exporter = new InMemorySpanExporter();
+      provider = new BasicTracerProvider({ spanProcessors: [new SimpleSpanProcessor(exporter)] });
+    });
+
+    const findSpan = (name: string) => exporter.getFinishedSpans().find(span => span.name === name)!;
+    const parentOf = (name: string) => findSpan(name).parentSpanContext?.spanId;
+
+    it('should trace checks with child spans for detectors and storage queries', async () => {
+      const tracedGuard = new TrialAbuseGuard({ storageAdapter: mockAdapter, tracer: provider.getTracer('test') });
+
+      const result = await tracedGuard.checkTrialAbuse({
+        email: 'newuser@10minutemail.com', ipAddress: '192.168.1.1', timestamp: new Date()
+      });
+
+      const check = findSpan('trial_abuse.check');
+      const evaluate = findSpan('trial_abuse.evaluate');
+      expect(check.attributes['trial_abuse.recommendation']).toBe(result.recommendation);
+      expect(check.attributes['trial_abuse.score']).toBe(result.overall);
+      expect(evaluate.parentSpanContext?.spanId).toBe(check.spanContext().spanId);
+      expect(parentOf('trial_abuse.detector.tempEmail')).toBe(evaluate.spanContext().spanId);
+      expect(findSpan('trial_abuse.detector.tempEmail').attributes).toMatchObject({
+        'trial_abuse.factor.status': 'ok',
+        'trial_abuse.factor.detected': true,
+        'trial_abuse.factor.reason_codes': result.factors.tempEmail.reasons!.map(reason => reason.code)
+      });
+      expect(parentOf('trial_abuse.storage.getExistingEmails'))
+        .toBe(findSpan('trial_abuse.detector.emailSimilarity').spanContext().spanId);
+      expect(parentOf('trial_abuse.storage.storeUserData')).toBe(check.spanContext().spanId);
+    });
+
+    it('should trace provider calls without recording emails or IP addresses', async () => {
+      const getSpy = jest.spyOn(axios, 'get').mockRejectedValue(new Error('Lookup failed for 8.8.8.8'));
+      const tracedGuard = new TrialAbuseGuard({
+        storageAdapter: mockAdapter,
+        vpnCheck: false,
+        tracer: provider.getTracer('test')
+      });
+
+      await tracedGuard.checkUser('john.doe@example.com', '8.8.8.8', 'Mozilla/5.0', 'acme');
+      getSpy.mockRestore();
+
+      const lookup = findSpan('trial_abuse.provider.ip-api');
+      expect(lookup.parentSpanContext?.spanId).toBe(findSpan('trial_abuse.detector.ipRisk').spanContext().spanId);
+      expect(lookup.attributes['trial_abuse.provider.status']).toBe('error');
+      expect(lookup.status.code).toBe(2);
+      expect(findSpan('trial_abuse.evaluate').attributes['trial_abuse.tenant_id']).toBe('acme');
+
+      const recorded = JSON.stringify(exporter.getFinishedSpans().map(span => [span.attributes, span.events, span.status]));
+      expect(recorded).not.toContain('john.doe');
+      expect(recorded).not.toContain('8.8.8.8');
+      expect(recorded).not.toContain('Mozilla');
+    });
+
+    it('should mark failed detectors and record access list matches', async () => {
+      const tracedGuard = new TrialAbuseGuard({
+        storageAdapter: mockAdapter,
+        denylist: { domain: ['blocked.com'] },
+        tracer: provider.getTracer('test')
+      });
+      tracedGuard.registerDetector({
+        name: 'broken',
+        weight: 0.1,
+        analyze: async () => {
+          throw new Error('Detector crashed');
+        }
+      });
+
+      await tracedGuard.evaluateUser('newuser@example.com', '192.168.1.1');
+      const broken = findSpan('trial_abuse.detector.broken');
+      expect(broken.attributes['trial_abuse.factor.status']).toBe('error');
+      expect(broken.status.code).toBe(2);
+
+      exporter.reset();
+      await tracedGuard.evaluateUser('someone@blocked.com', '192.168.1.1');
+      expect(findSpan('trial_abuse.evaluate').attributes).toMatchObject({
+        'trial_abuse.access_list': 'deny',
+        'trial_abuse.access_list.type': 'domain',
+        'trial_abuse.recommendation': 'block'
+      });
+      expect(exporter.getFinishedSpans().some(span => span.name.startsWith('trial_abuse.detector.'))).toBe(false);
+    });
+
+    it('should reject a tracer without startActiveSpan', () => {
+      expect(() => validateConfig({ tracer: {} as any })).toThrow('tracer must be an OpenTelemetry tracer');
+    });
+  });
+
+  describe('challenges', () => {
+    const challengePolicy = {
+      id: 'disposable-captcha',
+      when: { factor: 'tempEmail', detected: true },
+      action: 'challenge' as const,
+      challenge: 'captcha' as const
+    };
+
+    it('should issue a stored challenge and allow the user once they pass it', async () => {
+      const challengeGuard = new TrialAbuseGuard({
+        storageAdapter: new InMemoryStorageAdapter(),
+        policies: [challengePolicy],
+        vpnCheck: false,
+        ipCheck: false
+      });
+      const challenged = jest.fn();
+      challengeGuard.on('decision.challenge', challenged);
+
+      const result = await challengeGuard.checkUser('someone@10minutemail.com', '192.168.1.1');
+      expect(result.recommendation).toBe('challenge');
+      expect(result.challenge).toEqual({ type: 'captcha', id: expect.any(String) });
+      expect(challenged).toHaveBeenCalledTimes(1);
+      await expect(challengeGuard.getChallenge(result.challenge!.id!)).resolves.toMatchObject({
+        status: 'pending',
+        type: 'captcha',
+        email: 'someone@10minutemail.com'
+      });
+
+      const rescored = await challengeGuard.completeChallenge(result.challenge!.id!, true);
+      expect(rescored.recommendation).toBe('allow');
+      expect(rescored.challenge).toBeUndefined();
+      expect(rescored.reasons.map(reason => reason.code)).toContain('CHALLENGE_PASSED');
+      expect(rescored.details).toContain('Passed captcha challenge');
+
+      const again = await challengeGuard.checkUser('someone@10minutemail.com', '192.168.1.1');
+      expect(again.recommendation).toBe('allow');
+      const assessments = await challengeGuard.getAssessments({ email: 'someone@10minutemail.com' });
+      expect(assessments.map(record => record.result.recommendation)).toEqual(['allow', 'allow', 'challenge']);
+    });
+
+    it('should block users who fail a challenge and reject completing it twice', async () => {
+      const challengeGuard = new TrialAbuseGuard({
+        storageAdapter: new InMemoryStorageAdapter(),
+        thresholds: { flag: 0, challenge: 0 },
+        vpnCheck: false,
+        ipCheck: false
+      });
+
+      const result = await challengeGuard.checkUser('newuser@example.com', '192.168.1.1');
+      expect(result.challenge).toEqual({ type: 'email_otp', id: expect.any(String) });
+
+      const rescored = await challengeGuard.completeChallenge(result.challenge!.id!, false);
+      expect(rescored.recommendation).toBe('block');
+      expect(rescored.reasons).toContainEqual({
+        code: 'CHALLENGE_FAILED',
+        evidence: { challengeId: result.challenge!.id, type: 'email_otp' }
+      });
+      await expect(challengeGuard.completeChallenge(result.challenge!.id!, true))
+        .rejects.toThrow('has already been failed');
+      await expect(challengeGuard.completeChallenge('unknown', true)).rejects.toThrow('Challenge not found: unknown');
+      await expect(guard.completeChallenge('unknown', true)).rejects.toThrow('Storage adapter does not support challenges');
+    });
+
+    it('should expire passed challenges and keep blocking after a recent failure', async () => {
+      const storageAdapter = new InMemoryStorageAdapter();
+      const challengeGuard = new TrialAbuseGuard({
+        storageAdapter,
+        policies: [challengePolicy],
+        challenges: { passTtlHours: 1, failureWindowHours: 2 },
+        vpnCheck: false,
+        ipCheck: false
+      });
+      const age = async (id: string, hours: number) => {
+        const challenge = (await storageAdapter.getChallenge(id))!;
+        await storageAdapter.storeChallenge({ ...challenge, completedAt: new Date(Date.now() - hours * 60 * 60 * 1000) });
+      };
+
+      const first = await challengeGuard.checkUser('someone@10minutemail.com', '192.168.1.1');
+      await challengeGuard.completeChallenge(first.challenge!.id!, true);
+      await age(first.challenge!.id!, 1.5);
+      const second = await challengeGuard.checkUser('someone@10minutemail.com', '192.168.1.1');
+      expect(second.recommendation).toBe('challenge');
+
+      await challengeGuard.completeChallenge(second.challenge!.id!, false);
+      const retried = await challengeGuard.checkUser('someone@10minutemail.com', '192.168.1.1');
+      expect(retried.recommendation).toBe('block');
+      expect(retried.challenge).toBeUndefined();
+      expect(retried.reasons.map(reason => reason.code)).toContain('CHALLENGE_FAILED');
+
+      await age(second.challenge!.id!, 3);
+      await expect(challengeGuard.checkUser('someone@10minutemail.com', '192.168.1.1'))
+        .resolves.toMatchObject({ recommendation: 'challenge' });
+      expect(() => validateConfig({ challenges: { passTtlHours: 0 } }))
+        .toThrow('challenges.passTtlHours must be a positive number');
+    });
+
+    it('should let only one of concurrent completions of a challenge succeed', async () => {
+      const challengeGuard = new TrialAbuseGuard({
+        storageAdapter: new InMemoryStorageAdapter(),
+        policies: [challengePolicy],
+        vpnCheck: false,
+        ipCheck: false
+      });
+      const result = await challengeGuard.checkUser('someone@10minutemail.com', '192.168.1.1');
+
+      const outcomes = await Promise.allSettled([
+        challengeGuard.completeChallenge(result.challenge!.id!, true),
+        challengeGuard.completeChallenge(result.challenge!.id!, false)
+      ]);
+
+      expect(outcomes.map(outcome => outcome.status)).toEqual(['fulfilled', 'rejected']);
+      expect((outcomes[1] as PromiseRejectedResult).reason.message).toBe(`Challenge ${result.challenge!.id} has already been completed`);
+      await expect(challengeGuard.getChallenge(result.challenge!.id!)).resolves.toMatchObject({ status: 'passed' });
+    });
+
+    it('should validate challenge thresholds, types and policy challenges', () => {
+      expect(() => validateConfig({
+        thresholds: { flag: 50, challenge: 90, block: 80 },
+        challengeType: 'sms' as any,
+        policies: [{ ...challengePolicy, challenge: 'fingerprint' as any }]
+      })).toThrow(
+        'Invalid trial abuse configuration: challengeType must be one of email_otp, captcha, phone; ' +
+        'policies[0] (disposable-captcha).challenge must be one of email_otp, captcha, phone; ' +
+        'thresholds.challenge must be between thresholds.flag and thresholds.block'
+      );
+    });
+
+    it('should redirect challenged NextAuth sign-ins to the challenge page', async () => {
+      const onUserChallenged = jest.fn().mockResolvedValue(undefined);
+      const adapter = new NextAuthTrialAbuseAdapter({
+        policies: [challengePolicy],
+        challengeUrl: '/verify',
+        onUserChallenged
+      });
+      const config = adapter.getNextAuthConfig({ providers: [] } as any);
+
+      const redirect = await config.callbacks.signIn({
+        user: { email: 'someone@10minutemail.com' },
+        request: { headers: { get: (name: string) => (name === 'x-real-ip' ? '192.168.1.1' : null) } }
+      });
+
+      expect(redirect).toMatch(/^\/verify\?challengeType=captcha&challengeId=[\w-]+$/);
+      expect(onUserChallenged).toHaveBeenCalledWith('someone@10minutemail.com', expect.objectContaining({ recommendation: 'challenge' }));
+
+      const challengeId = new URLSearchParams(redirect.split('?')[1]).get('challengeId')!;
+      await expect(adapter.completeChallenge(challengeId, true)).resolves.toMatchObject({ recommendation: 'allow' });
+    });
+  });
+
+  describe('versions and assessment diffs', () => {
+    it('should stamp every result with the config, library, domain list and policy versions', async () => {
+      const versionGuard = new TrialAbuseGuard({
+        tempEmailStoragePath: path.join(os.tmpdir(), `version-domains-${process.pid}.json`),
+        tenants: { acme: { customDisposableDomains: ['acme-burner.com'] } }
+      });
+      const packageJson = JSON.parse(await fs.readFile(path.join(__dirname, '..', 'package.json'), 'utf8'));
+
+      const result = await versionGuard.evaluate({ email: 'newuser@example.com', ipAddress: '192.168.1.1', timestamp: new Date() });
+      expect(result.versions).toEqual(versionGuard.getVersions());
+      expect(result.versions).toEqual({
+        config: versionGuard.getConfigVersion(),
+        library: packageJson.version,
+        domainList: expect.stringMatching(/^[0-9a-f]{12}$/),
+        policy: expect.stringMatching(/^[0-9a-f]{12}$/)
+      });
+      expect(VERSION).toBe(packageJson.version);
+      expect(versionGuard.getVersions('acme').domainList).not.toBe(result.versions!.domainList);
+
+      await versionGuard.addTempEmailDomains(['brand-new-burner.com']);
+      expect(versionGuard.getVersions().domainList).not.toBe(result.versions!.domainList);
+      expect(versionGuard.getVersions().config).toBe(result.versions!.config);
+    });
+
+    it('should explain which factors moved the score between two assessments', async () => {
+      const diffGuard = new TrialAbuseGuard({
+        storageAdapter: new InMemoryStorageAdapter(),
+        vpnCheck: false,
+        tempEmailStoragePath: path.join(os.tmpdir(), `diff-domains-${process.pid}.json`)
+      });
+      await diffGuard.ready();
+
+      await diffGuard.checkUser('someone@example.com', '192.168.1.1');
+      await diffGuard.addTempEmailDomains(['example.com']);
+      await diffGuard.checkUser('someone@example.com', '192.168.1.1');
+
+      const diff = await diffGuard.diffLatestAssessments('someone@example.com');
+      expect(diff).toMatchObject({
+        addedReasons: ['EMAIL_DISPOSABLE_LIST'],
+        removedReasons: [],
+        changedVersions: ['domainList']
+      });
+      expect(diff!.scoreAfter).toBeGreaterThan(diff!.scoreBefore);
+      expect(diff!.factors[0]).toMatchObject({ factor: 'tempEmail', addedReasons: ['EMAIL_DISPOSABLE_LIST'] });
+      expect(diff!.factors[0].contributionAfter!).toBeGreaterThan(diff!.factors[0].contributionBefore!);
+      expect(diff!.explanation[0]).toMatch(`Score rose from ${diff!.scoreBefore} to ${diff!.scoreAfter}`);
+      expect(diff!.explanation).toContain(
+        'Assessed with different domainList versions, so the scores may not be comparable'
+      );
+      expect(await diffGuard.diffLatestAssessments('nobody@example.com')).toBeNull();
+    });
+
+    it('should attribute score changes to reweighted factors', async () => {
+      const storageAdapter = new InMemoryStorageAdapter();
+      const cleanDetector: Detector = {
+        name: 'clean',
+        weight: 0.25,
+        analyze: async () => ({ score: 0, detected: false, confidence: 1, details: 'ok' })
+      };
+      const before = new TrialAbuseGuard({ storageAdapter, vpnCheck: false, detectors: [cleanDetector] });
+      const after = new TrialAbuseGuard({ storageAdapter, vpnCheck: false, detectors: [cleanDetector], weights: { tempEmail: 1 } });
+
+      await before.checkUser('test@10minutemail.com', '192.168.1.1');
+      await after.checkUser('test@10minutemail.com', '192.168.1.1');
+
+      const [newer, older] = await after.getAssessments({ email: 'test@10minutemail.com' });
+      const diff = diffAssessments(older, newer);
+      expect(diff.changedVersions).toEqual(['config']);
+      expect(diff.scoreAfter).toBeGreaterThan(diff.scoreBefore);
+      expect(diff.factors.map(change => change.factor)).toEqual(['tempEmail']);
+      expect(diff.factors[0]).toMatchObject({ factor: 'tempEmail', addedReasons: [], removedReasons: [] });
+      expect(diff.factors[0].scoreAfter).toBe(diff.factors[0].scoreBefore);
+      expect(diff.factors[0].contributionAfter!).toBeGreaterThan(diff.factors[0].contributionBefore!);
+      expect(diff.explanation[1]).toMatch(/^tempEmail: \+[\d.]+ points overall$/);
+    });
+
+    it('should only compare assessments of the same user', async () => {
+      const diffGuard = new TrialAbuseGuard({ storageAdapter: new InMemoryStorageAdapter() });
+      await diffGuard.checkUser('first@example.com', '192.168.1.1');
+      await diffGuard.checkUser('second@example.com', '192.168.1.1');
+
+      const [second, first] = await diffGuard.getAssessments();
+      expect(() => diffAssessments(first, second)).toThrow('Only assessments of the same user can be compared');
+    });
+  });
+});
@@ -54,6 +54,12 @@ function validatePackage() {
       }
     });
 
+    // Check the library version stamped on assessments
+    const versionSource = fs.existsSync('src/version.ts') ? fs.readFileSync('src/version.ts', 'utf8') : '';
+    if (!versionSource.includes(`VERSION = '${packageJson.version}'`)) {
+      errors.push(`src/version.ts must export VERSION = '${packageJson.version}' to match package.json`);
+    }
+
     console.log('✅ Package.json validation complete');
 
   } catch (error) {